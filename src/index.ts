@@ -15,10 +15,23 @@ if (process.env.SENTRY_DSN) {
 import express from 'express';
 import { CompanyEnrichmentEngine } from './lib/enrichment-engine.js';
 import { MarkdownExporter } from './lib/markdown-exporter.js';
+import { ResultStore } from './lib/result-store.js';
+import { parseStrictness } from './lib/fact-verifier.js';
+import { ModelProvider } from './lib/model-provider.js';
+import { BUILT_IN_SOURCES, isBuiltInSource } from './lib/data-sources.js';
+import { summarizeBatchUsage } from './lib/usage-tracker.js';
+import { progressBus } from './lib/progress-bus.js';
+import { JobStore, isFinished } from './lib/job-store.js';
+import { EnrichmentJobManager } from './lib/enrichment-jobs.js';
+import { findCountry } from './lib/gazetteer.js';
 import fs from 'fs/promises';
 
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const IS_ELECTRON = process.env.ELECTRON_MODE === 'true';
+const PROGRESS_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+const store = new ResultStore();
+const jobs = new EnrichmentJobManager(new JobStore(), store);
 
 const app = express();
 app.use(express.json());
@@ -28,23 +41,80 @@ app.get('/', (_req, res) => {
 });
 
 app.get('/api/health', (_req, res) => {
-  const hasKey = !!process.env.ANTHROPIC_API_KEY && process.env.ANTHROPIC_API_KEY !== 'your_anthropic_api_key_here';
-  res.json({ status: 'ok', apiKeyConfigured: hasKey });
+  const configErrors = new ModelProvider().missingCredentials();
+  res.json({ status: 'ok', apiKeyConfigured: configErrors.length === 0, configErrors });
 });
 
-app.post('/api/enrich', async (req, res) => {
-  const { domains } = req.body as { domains: string[] };
+interface EnrichRequest {
+  domains: string[];
+  sources?: Record<string, boolean>;
+  verify?: string;
+  budgetUSD?: number;
+  deepJobs?: boolean;
+  progressId?: string; // Client-chosen id to stream progress on GET /api/enrich/:progressId/events
+}
 
-  if (!domains || domains.length === 0) {
+/**
+ * Validate an /api/enrich or /api/jobs body, sending the error response if it is invalid
+ */
+function validateEnrichRequest(body: EnrichRequest, res: express.Response): boolean {
+  const { domains, sources, verify, budgetUSD, progressId } = body;
+
+  if (!domains || (Array.isArray(domains) && domains.length === 0)) {
     res.status(400).json({ error: 'No domains provided' });
-    return;
+    return false;
   }
 
-  if (!process.env.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY === 'your_anthropic_api_key_here') {
-    res.status(500).json({ error: 'ANTHROPIC_API_KEY is not configured. Add it to your .env file.' });
-    return;
+  if (!Array.isArray(domains) || domains.some(domain => typeof domain !== 'string' || !domain.trim())) {
+    res.status(400).json({ error: 'domains must be an array of strings' });
+    return false;
   }
 
+  if (sources !== undefined) {
+    if (typeof sources !== 'object' || sources === null || Array.isArray(sources) || Object.values(sources).some(v => typeof v !== 'boolean')) {
+      res.status(400).json({ error: 'sources must map source names to true or false' });
+      return false;
+    }
+    const unknown = Object.keys(sources).filter(name => !isBuiltInSource(name));
+    if (unknown.length > 0) {
+      res.status(400).json({ error: `Unknown data source: ${unknown.join(', ')} (expected ${BUILT_IN_SOURCES.join(', ')})` });
+      return false;
+    }
+  }
+
+  if (verify !== undefined && !parseStrictness(verify)) {
+    res.status(400).json({ error: 'verify must be one of: off, flag, drop' });
+    return false;
+  }
+
+  if (progressId !== undefined && !PROGRESS_ID_PATTERN.test(progressId)) {
+    res.status(400).json({ error: 'progressId must be 8-64 letters, digits, dashes or underscores' });
+    return false;
+  }
+
+  if (budgetUSD !== undefined && !(typeof budgetUSD === 'number' && budgetUSD > 0)) {
+    res.status(400).json({ error: 'budgetUSD must be a positive number' });
+    return false;
+  }
+
+  if (body.deepJobs !== undefined && typeof body.deepJobs !== 'boolean') {
+    res.status(400).json({ error: 'deepJobs must be true or false' });
+    return false;
+  }
+
+  const configErrors = new ModelProvider().missingCredentials();
+  if (configErrors.length > 0) {
+    res.status(500).json({ error: `${configErrors.join(' ')} Add it to your .env file.` });
+    return false;
+  }
+
+  return true;
+}
+
+app.post('/api/enrich', async (req, res) => {
+  const { domains, sources, verify, budgetUSD, deepJobs, progressId } = req.body as EnrichRequest;
+  if (!validateEnrichRequest(req.body, res)) return;
+
   try {
     if (process.env.SENTRY_DSN) {
       Sentry.getCurrentScope().setContext('enrichment', {
@@ -53,11 +123,16 @@ app.post('/api/enrich', async (req, res) => {
       });
     }
 
-    const engine = new CompanyEnrichmentEngine();
+    const engine = new CompanyEnrichmentEngine({ store, verification: parseStrictness(verify), deepJobs });
     const exporter = new MarkdownExporter();
 
     const inputs = domains.map(d => ({ domain: d.trim() }));
-    const results = await engine.enrichBatch(inputs);
+    const results = await engine.enrichBatch(inputs, {
+      sources,
+      budgetUSD,
+      onEvent: progressId ? event => progressBus.publish(progressId, event) : undefined,
+    });
+    const usage = summarizeBatchUsage(results.map(r => r.usage));
 
     const successfulData = results.filter(r => r.success && r.data).map(r => r.data!);
     let exportPath = '';
@@ -65,7 +140,7 @@ app.post('/api/enrich', async (req, res) => {
     if (successfulData.length === 1) {
       exportPath = await exporter.exportSingle(successfulData[0]);
     } else if (successfulData.length > 1) {
-      exportPath = await exporter.exportBatch(successfulData);
+      exportPath = await exporter.exportBatch(successfulData, usage);
     }
 
     let markdown = '';
@@ -87,9 +162,13 @@ app.post('/api/enrich', async (req, res) => {
         success: r.success,
         confidence: r.confidence,
         processingTimeMs: r.processingTimeMs,
+        steps: r.steps,
+        runId: r.runId,
+        usage: r.usage,
         error: r.error,
         data: r.data,
       })),
+      usage,
       markdown,
       exportPath,
     });
@@ -98,26 +177,191 @@ app.post('/api/enrich', async (req, res) => {
       Sentry.captureException(error);
     }
     res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  } finally {
+    if (progressId) progressBus.close(progressId);
   }
 });
 
+// Live progress for an enrichment started with the same progressId, as Server-Sent Events.
+// Events already published are replayed, so the stream can be opened before or after the POST.
+app.get('/api/enrich/:progressId/events', (req, res) => {
+  const { progressId } = req.params;
+  if (!PROGRESS_ID_PATTERN.test(progressId)) {
+    res.status(400).json({ error: 'Invalid progress id' });
+    return;
+  }
+  streamProgress(progressId, req, res);
+});
+
+function streamProgress(progressId: string, req: express.Request, res: express.Response): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  // Comment lines keep proxies from closing an idle stream during long steps
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+  const unsubscribe = progressBus.subscribe(
+    progressId,
+    event => res.write(`data: ${JSON.stringify(event)}\n\n`),
+    () => {
+      res.write('event: end\ndata: {}\n\n');
+      res.end();
+    }
+  );
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
+// Background jobs - for batches too large to wait on in a single request
+app.post('/api/jobs', (req, res) => {
+  const { domains, sources, verify, budgetUSD, deepJobs } = req.body as EnrichRequest;
+  if (!validateEnrichRequest(req.body, res)) return;
+
+  const job = jobs.submit(domains.map(d => ({ domain: d.trim() })), {
+    sources,
+    verify: parseStrictness(verify),
+    budgetUSD,
+    deepJobs,
+  });
+  res.status(202).location(`/api/jobs/${job.id}`).json(job);
+});
+
+app.get('/api/jobs', (req, res) => {
+  const limit = parseInt(String(req.query.limit || '50'), 10);
+  res.json({ jobs: jobs.list(limit) });
+});
+
+// Status plus per-company results so far; ?include=data adds each finished profile
+app.get('/api/jobs/:id', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: `Job ${req.params.id} not found` });
+    return;
+  }
+
+  const includeData = req.query.include === 'data';
+  const items = jobs.items(job.id).map(item => ({
+    ...item,
+    data: includeData && item.runId ? store.getRun(item.runId)?.data : undefined,
+  }));
+  res.json({ ...job, items });
+});
+
+app.delete('/api/jobs/:id', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: `Job ${req.params.id} not found` });
+    return;
+  }
+  if (isFinished(job.status)) {
+    res.status(409).json({ error: `Job ${job.id} already ${job.status}` });
+    return;
+  }
+  res.json(jobs.cancel(job.id));
+});
+
+// Same event stream as /api/enrich/:progressId/events, keyed by job id
+app.get('/api/jobs/:id/events', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: `Job ${req.params.id} not found` });
+    return;
+  }
+  // A job that finished before this process started, or long enough ago, has no events left to replay
+  if (isFinished(job.status) && !progressBus.has(job.id)) {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    res.end('event: end\ndata: {}\n\n');
+    return;
+  }
+  streamProgress(job.id, req, res);
+});
+
+// Stored profiles - served from the local database, no new enrichment or Claude call
+app.get('/api/companies', (req, res) => {
+  // ?hiringCountry=DE or ?hiringCountry=Germany - companies whose latest profile has open roles there
+  let hiringCountry: string | undefined;
+  if (req.query.hiringCountry) {
+    hiringCountry = findCountry(String(req.query.hiringCountry))?.code;
+    if (!hiringCountry) {
+      res.status(400).json({ error: `Unknown country: ${req.query.hiringCountry}` });
+      return;
+    }
+  }
+  res.json({ companies: store.listCompanies({ hiringCountry }) });
+});
+
+app.get('/api/companies/:domain', (req, res) => {
+  const run = store.getLatest(req.params.domain);
+  if (!run) {
+    res.status(404).json({ error: `No stored profile for ${req.params.domain}` });
+    return;
+  }
+  res.json(run);
+});
+
+app.get('/api/companies/:domain/history', (req, res) => {
+  const limit = parseInt(String(req.query.limit || '50'), 10);
+  const runs = store.getHistory(req.params.domain, limit).map(({ data, ...run }) => ({ ...run, name: data?.name }));
+  res.json({ domain: req.params.domain, runs });
+});
+
+app.get('/api/companies/:domain/hiring', (req, res) => {
+  // Open postings per department at every run where postings were found, oldest first
+  const snapshots = store.getJobSnapshots(req.params.domain).map(({ id, observedAt, postings }) => ({
+    id,
+    observedAt,
+    openPositions: postings.length,
+    byDepartment: postings.reduce<Record<string, number>>((counts, p) => {
+      counts[p.department] = (counts[p.department] || 0) + 1;
+      return counts;
+    }, {}),
+  }));
+  const trends = store.getLatest(req.params.domain)?.data?.hiring?.trends;
+  res.json({ domain: req.params.domain, snapshots, trends });
+});
+
+app.get('/api/companies/:domain/markdown', (req, res) => {
+  const run = store.getLatest(req.params.domain);
+  if (!run?.data) {
+    res.status(404).json({ error: `No stored profile for ${req.params.domain}` });
+    return;
+  }
+  res.type('text/markdown').send(new MarkdownExporter().formatCompany(run.data));
+});
+
+app.get('/api/runs/:id', (req, res) => {
+  const run = store.getRun(parseInt(req.params.id, 10));
+  if (!run) {
+    res.status(404).json({ error: `Run ${req.params.id} not found` });
+    return;
+  }
+  res.json(run);
+});
+
 // Setup Sentry error handler (only if configured)
 if (process.env.SENTRY_DSN) {
   Sentry.setupExpressErrorHandler(app);
 }
 
 app.listen(PORT, () => {
-  const hasKey = !!process.env.ANTHROPIC_API_KEY && process.env.ANTHROPIC_API_KEY !== 'your_anthropic_api_key_here';
+  const configErrors = new ModelProvider().missingCredentials();
+  const resumed = jobs.resumeUnfinished();
 
   if (!IS_ELECTRON) {
     console.log('');
     console.log('  Local Enrichment Tool');
     console.log(`  http://localhost:${PORT}`);
-    if (!hasKey) console.log('  \u26a0 Add ANTHROPIC_API_KEY to .env');
+    for (const error of configErrors) console.log(`  \u26a0 ${error} Add it to .env`);
+    if (resumed > 0) console.log(`  Resumed ${resumed} unfinished job${resumed > 1 ? 's' : ''}`);
     console.log('');
   } else {
     console.log(`[Server] Running on port ${PORT} (Electron mode)`);
-    if (!hasKey) console.log('[Server] \u26a0 Add ANTHROPIC_API_KEY to .env');
+    for (const error of configErrors) console.log(`[Server] \u26a0 ${error} Add it to .env`);
   }
 });
 
@@ -229,6 +473,21 @@ textarea::placeholder{color:var(--text3)}
 .progress-bar-fill{height:100%;width:0%;background:linear-gradient(90deg,var(--accent),var(--purple));border-radius:1px;transition:width .4s ease;animation:progressPulse 2s ease-in-out infinite}
 @keyframes progressPulse{0%,100%{opacity:1}50%{opacity:.6}}
 
+/* Live per-domain, per-step timeline */
+.timeline{margin-top:16px;display:none}
+.tl-row{display:flex;align-items:center;gap:12px;padding:8px 0;border-bottom:1px solid var(--border);font-size:12px}
+.tl-row:last-child{border-bottom:none}
+.tl-domain{width:160px;flex-shrink:0;font-weight:600;font-family:'SF Mono','Fira Code',ui-monospace,monospace;color:var(--text);overflow:hidden;text-overflow:ellipsis;white-space:nowrap}
+.tl-steps{display:flex;flex-wrap:wrap;gap:4px;flex:1}
+.tl-step{padding:1px 6px;border-radius:4px;background:var(--surface-raised);color:var(--text3);transition:background .15s,color .15s}
+.tl-step.running{color:var(--accent);animation:progressPulse 2s ease-in-out infinite}
+.tl-step.completed{background:var(--success-subtle);color:var(--success)}
+.tl-step.failed{background:var(--err-subtle);color:var(--err)}
+.tl-step.skipped{opacity:.5;text-decoration:line-through}
+.tl-state{flex-shrink:0;color:var(--text3)}
+.tl-state.ok{color:var(--success)}
+.tl-state.err{color:var(--err)}
+
 /* Results section */
 .results{margin-top:32px}
 .results-hdr{display:flex;align-items:center;justify-content:space-between;margin-bottom:12px;padding-bottom:12px;border-bottom:1px solid var(--border)}
@@ -268,6 +527,8 @@ textarea::placeholder{color:var(--text3)}
 .md th{font-weight:600;color:var(--text);background:var(--surface-raised);font-size:12px;text-transform:uppercase;letter-spacing:.04em}
 .md td{color:var(--text2)}
 .md tr:last-child td{border-bottom:none}
+.md sup{font-size:10px;color:var(--purple);margin-left:1px}
+.md .fn{font-size:12px;margin:0 0 6px;word-break:break-all}
 .md ul,.md ol{margin:0 0 12px;padding-left:20px}
 .md li{margin-bottom:4px;color:var(--text2)}
 .md li::marker{color:var(--text3)}
@@ -321,7 +582,7 @@ textarea::placeholder{color:var(--text3)}
   </div>
   <div id="warn" class="warn-banner" style="display:none">
     <svg width="16" height="16" fill="none" viewBox="0 0 24 24"><path d="M12 9v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/></svg>
-    <span>API key not configured. Add <code>ANTHROPIC_API_KEY</code> to <code>.env</code> and restart.</span>
+    <span id="warn-msg">API key not configured. Add <code>ANTHROPIC_API_KEY</code> to <code>.env</code> and restart.</span>
   </div>
   <div class="card"><div class="card-body">
     <div class="input-group">
@@ -333,16 +594,34 @@ textarea::placeholder{color:var(--text3)}
       <div class="status" id="st"></div>
     </div>
     <div class="progress-bar" id="pb"><div class="progress-bar-fill" id="pbf"></div></div>
+    <div class="timeline" id="tl"></div>
   </div></div>
   <div id="res" class="results" style="display:none"></div>
   <div id="pre" class="preview" style="display:none"></div>
 </div>
 <script>
-fetch('/api/health').then(r=>r.json()).then(d=>{if(!d.apiKeyConfigured){document.getElementById('warn').style.display='flex';document.getElementById('go').disabled=true}});
-
-var progressTimer=null;
-function startProgress(){var pb=document.getElementById('pb'),pbf=document.getElementById('pbf');pb.style.display='block';pbf.style.width='0%';var w=0;progressTimer=setInterval(function(){w+=Math.random()*8;if(w>90)w=90;pbf.style.width=w+'%'},800)}
-function stopProgress(success){var pbf=document.getElementById('pbf');pbf.style.width='100%';pbf.style.animation='none';if(progressTimer)clearInterval(progressTimer);setTimeout(function(){document.getElementById('pb').style.display='none';pbf.style.width='0%';pbf.style.animation=''},500)}
+fetch('/api/health').then(r=>r.json()).then(d=>{if(!d.apiKeyConfigured){if(d.configErrors&&d.configErrors.length)document.getElementById('warn-msg').textContent=d.configErrors.join(' ')+' Update .env and restart.';document.getElementById('warn').style.display='flex';document.getElementById('go').disabled=true}});
+
+var progress=null;
+function startProgress(n){var pb=document.getElementById('pb'),pbf=document.getElementById('pbf'),tl=document.getElementById('tl');pb.style.display='block';pbf.style.width='0%';tl.innerHTML='';tl.style.display='block';progress={total:n,done:0,rows:{}}}
+function stopProgress(success){var pbf=document.getElementById('pbf');pbf.style.width='100%';pbf.style.animation='none';setTimeout(function(){document.getElementById('pb').style.display='none';pbf.style.width='0%';pbf.style.animation=''},500)}
+function tlRow(e){var r=progress.rows[e.index];if(!r){r=document.createElement('div');r.className='tl-row';r.innerHTML='<div class="tl-domain"></div><div class="tl-steps"></div><div class="tl-state">queued</div>';r.children[0].textContent=e.company;document.getElementById('tl').appendChild(r);progress.rows[e.index]=r;r.steps={}}return r}
+function onProgress(e){
+  if(!progress||e.index===undefined)return;
+  var r=tlRow(e),state=r.children[2];
+  if(e.type==='company_started')state.textContent='running';
+  else if(e.type==='step_started'||e.type==='step_finished'){
+    var s=r.steps[e.step];
+    if(!s){s=document.createElement('span');s.textContent=e.step.replace(/_/g,' ');r.children[1].appendChild(s);r.steps[e.step]=s}
+    s.className='tl-step '+(e.type==='step_started'?'running':e.status);
+    if(e.type==='step_finished')s.title=e.status+' in '+(e.durationMs/1000).toFixed(1)+'s'+(e.error?' \u2014 '+e.error:'');
+  }else if(e.type==='company_finished'||e.type==='company_skipped'){
+    progress.done++;document.getElementById('pbf').style.width=Math.round(progress.done/progress.total*100)+'%';
+    var ok=e.type==='company_finished'&&e.success;
+    state.textContent=e.type==='company_skipped'?'skipped':ok?(e.processingTimeMs/1000).toFixed(1)+'s':'failed';
+    state.className='tl-state '+(ok?'ok':'err');
+  }
+}
 
 async function run(){
   var inp=document.getElementById('inp'),btn=document.getElementById('go'),st=document.getElementById('st'),res=document.getElementById('res'),pre=document.getElementById('pre');
@@ -351,18 +630,22 @@ async function run(){
   btn.disabled=true;btn.innerHTML='<span class="spinner"></span> Enriching\\u2026';
   st.textContent='Processing '+domains.length+' domain'+(domains.length>1?'s':'')+'\\u2026';
   res.style.display='none';pre.style.display='none';
-  startProgress();
+  var pid=Math.random().toString(36).slice(2)+Date.now().toString(36);
+  startProgress(domains.length);
+  var es=new EventSource('/api/enrich/'+pid+'/events');
+  es.onmessage=function(m){onProgress(JSON.parse(m.data))};
+  es.addEventListener('end',function(){es.close()});
   try{
-    var r=await fetch('/api/enrich',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({domains:domains})});
+    var r=await fetch('/api/enrich',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({domains:domains,progressId:pid})});
     var d=await r.json();
     stopProgress(r.ok);
     if(!r.ok){st.textContent=d.error||'Something went wrong';return}
     var ok=d.results.filter(function(x){return x.success}).length;
-    var h='<div class="results-hdr"><h3>Results</h3><span class="badge '+(ok===domains.length?'badge-ok':'badge-warn')+'">'+ok+'/'+domains.length+' enriched</span></div>';
+    var h='<div class="results-hdr"><h3>Results</h3><span class="badge '+(ok===domains.length?'badge-ok':'badge-warn')+'">'+ok+'/'+domains.length+' enriched'+(d.usage&&d.usage.calls?' \u00b7 $'+d.usage.costUSD.toFixed(4):'')+'</span></div>';
     d.results.forEach(function(x){
       var b=x.success?'<span class="badge badge-ok">'+x.confidence+'%</span>':'<span class="badge badge-err">failed</span>';
       h+='<div class="ri"><div><div class="ri-domain">'+esc(x.domain)+'</div>';
-      if(x.success&&x.data)h+='<div class="ri-meta">'+esc(x.data.name)+'<span class="ri-meta-dot"></span>'+(x.processingTimeMs/1000).toFixed(1)+'s</div>';
+      if(x.success&&x.data)h+='<div class="ri-meta">'+esc(x.data.name)+'<span class="ri-meta-dot"></span>'+(x.processingTimeMs/1000).toFixed(1)+'s'+(x.usage?'<span class="ri-meta-dot"></span>$'+x.usage.costUSD.toFixed(4):'')+'</div>';
       else if(x.error)h+='<div class="ri-meta" style="color:var(--err)">'+esc(x.error)+'</div>';
       h+='</div>'+b+'</div>';
     });
@@ -374,7 +657,7 @@ async function run(){
     }
     st.textContent='';
   }catch(e){stopProgress(false);st.textContent='Network error \\u2014 is the server running?'}
-  finally{btn.disabled=false;btn.innerHTML='Enrich'}
+  finally{es.close();btn.disabled=false;btn.innerHTML='Enrich'}
 }
 
 function md2html(s){
@@ -386,6 +669,8 @@ function md2html(s){
     .replace(/^&gt; (.+)$/gm,'<blockquote><p>$1</p></blockquote>')
     .replace(/\\*\\*(.+?)\\*\\*/g,'<strong>$1</strong>')
     .replace(/_([^_]+)_/g,'<em>$1</em>')
+    .replace(/^\\[\\^[\\w-]+?-(\\d+)\\]: (.+)$/gm,'<p class="fn"><sup>$1</sup> $2</p>')
+    .replace(/\\[\\^[\\w-]+?-(\\d+)\\]/g,'<sup class="fnref">$1</sup>')
     .replace(/\\[([^\\]]+)\\]\\(([^)]+)\\)/g,'<a href="$2" target="_blank" rel="noopener">$1</a>')
     .replace(/^\\|(.+)\\|$/gm,function(m){var c=m.split('|').filter(function(x){return x.trim()}).map(function(x){return x.trim()});if(c.every(function(x){return/^[-:]+$/.test(x)}))return'';return'<tr>'+c.map(function(x){return'<td>'+x+'</td>'}).join('')+'</tr>'})
     .replace(/((?:<tr>[\\s\\S]*?<\\/tr>\\s*)+)/g,'<table>$1</table>')
@@ -0,0 +1,116 @@
+/**
+ * ATS Discovery
+ * Finds the applicant tracking system boards a careers page links to or embeds
+ */
+
+export type AtsProvider =
+  | 'greenhouse'
+  | 'lever'
+  | 'ashby'
+  | 'workable'
+  | 'smartrecruiters'
+  | 'recruitee'
+  | 'bamboohr'
+  | 'personio'
+  | 'workday';
+
+export interface AtsBoard {
+  provider: AtsProvider;
+  boardId: string;  // Board token, company slug or Workday site
+  host?: string;    // Board host, for providers whose host varies by tenant or region (Personio, Workday)
+  url: string;      // Where the board was found referenced
+}
+
+interface AtsPattern {
+  provider: AtsProvider;
+  pattern: RegExp;
+  toBoard(match: RegExpMatchArray): Omit<AtsBoard, 'provider' | 'url'> | null;
+}
+
+// Path segments and subdomains that are part of the ATS itself, not a company's board
+const RESERVED = new Set([
+  'www', 'api', 'app', 'apply', 'assets', 'static', 'cdn', 'embed', 'jobs', 'careers', 'v0', 'v1',
+  'js', 'css', 'images', 'widget', 'widgets', 'help', 'support', 'blog', 'login', 'signup',
+]);
+
+const slug = (match: RegExpMatchArray, group = 1) => {
+  const id = match[group];
+  return id && !RESERVED.has(id.toLowerCase()) ? { boardId: id } : null;
+};
+
+const PATTERNS: AtsPattern[] = [
+  // boards.greenhouse.io/embed/job_board?for=acme, job-boards.greenhouse.io/acme, boards-api.greenhouse.io/v1/boards/acme
+  { provider: 'greenhouse', pattern: /(?:job-)?boards(?:\.eu)?\.greenhouse\.io\/embed\/job_board(?:\/js)?\?(?:[^"'\s<>]*?&(?:amp;)?)?for=([a-z0-9_-]+)/gi, toBoard: m => slug(m) },
+  { provider: 'greenhouse', pattern: /boards-api\.greenhouse\.io\/v1\/boards\/([a-z0-9_-]+)/gi, toBoard: m => slug(m) },
+  { provider: 'greenhouse', pattern: /(?:job-)?boards(?:\.eu)?\.greenhouse\.io\/([a-z0-9_-]+)/gi, toBoard: m => slug(m) },
+  // jobs.lever.co/acme, jobs.eu.lever.co/acme, api.lever.co/v0/postings/acme
+  { provider: 'lever', pattern: /jobs(?:\.eu)?\.lever\.co\/([a-z0-9_.-]+)/gi, toBoard: m => slug(m) },
+  { provider: 'lever', pattern: /api(?:\.eu)?\.lever\.co\/v0\/postings\/([a-z0-9_.-]+)/gi, toBoard: m => slug(m) },
+  // jobs.ashbyhq.com/acme (also /acme/embed), api.ashbyhq.com/posting-api/job-board/acme
+  { provider: 'ashby', pattern: /jobs\.ashbyhq\.com\/([a-z0-9_.%-]+)/gi, toBoard: m => slug(m) },
+  { provider: 'ashby', pattern: /api\.ashbyhq\.com\/posting-api\/job-board\/([a-z0-9_.%-]+)/gi, toBoard: m => slug(m) },
+  // apply.workable.com/acme, acme.workable.com
+  { provider: 'workable', pattern: /apply\.workable\.com\/(?:api\/v\d+\/(?:widget\/)?accounts\/)?([a-z0-9_-]+)/gi, toBoard: m => slug(m) },
+  { provider: 'workable', pattern: /\/\/([a-z0-9-]+)\.workable\.com/gi, toBoard: m => slug(m) },
+  // careers.smartrecruiters.com/Acme, jobs.smartrecruiters.com/Acme/123, api.smartrecruiters.com/v1/companies/Acme
+  { provider: 'smartrecruiters', pattern: /(?:careers|jobs)\.smartrecruiters\.com\/([a-z0-9_-]+)/gi, toBoard: m => slug(m) },
+  { provider: 'smartrecruiters', pattern: /api\.smartrecruiters\.com\/v1\/companies\/([a-z0-9_-]+)/gi, toBoard: m => slug(m) },
+  // acme.recruitee.com
+  { provider: 'recruitee', pattern: /\/\/([a-z0-9-]+)\.recruitee\.com/gi, toBoard: m => slug(m) },
+  // acme.bamboohr.com/careers, acme.bamboohr.com/jobs/embed2.php
+  { provider: 'bamboohr', pattern: /\/\/([a-z0-9-]+)\.bamboohr\.com/gi, toBoard: m => slug(m) },
+  // acme.jobs.personio.de, acme.jobs.personio.com
+  {
+    provider: 'personio',
+    pattern: /\/\/([a-z0-9-]+)\.jobs\.personio\.(de|com)/gi,
+    toBoard: m => (RESERVED.has(m[1].toLowerCase()) ? null : { boardId: m[1], host: `${m[1]}.jobs.personio.${m[2]}` }),
+  },
+  // acme.wd5.myworkdayjobs.com/en-US/External, acme.wd1.myworkdayjobs.com/Careers, .../wday/cxs/acme/External/jobs
+  {
+    provider: 'workday',
+    pattern: /\/\/([a-z0-9-]+)\.(wd\d+)\.myworkdayjobs\.com\/(?:wday\/cxs\/[a-z0-9_-]+\/)?(?:[a-z]{2}-[A-Z]{2}\/)?([A-Za-z0-9_-]+)/g,
+    toBoard: m => (m[3] === 'wday' ? null : { boardId: m[3], host: `${m[1]}.${m[2]}.myworkdayjobs.com` }),
+  },
+];
+
+/**
+ * Every ATS board referenced in a page's links, iframes or embed scripts, in order of first appearance
+ */
+export function discoverAtsBoards(html: string, pageUrl: string): AtsBoard[] {
+  const found: Array<AtsBoard & { position: number }> = [];
+  const seen = new Set<string>();
+
+  for (const { provider, pattern, toBoard } of PATTERNS) {
+    for (const match of html.matchAll(pattern)) {
+      const board = toBoard(match);
+      if (!board) continue;
+
+      // Slugs are case-insensitive, except Workday sites and SmartRecruiters company ids
+      const boardId = provider === 'workday' || provider === 'smartrecruiters' ? board.boardId : board.boardId.toLowerCase();
+      const key = `${provider}:${board.host || ''}:${boardId.toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      found.push({ provider, ...board, boardId, url: pageUrl, position: match.index ?? 0 });
+    }
+  }
+
+  return found
+    .sort((a, b) => a.position - b.position)
+    .map(({ position, ...board }) => board);
+}
+
+/**
+ * Absolute URLs of a page's iframes, which careers pages often use to embed their job board
+ */
+export function iframeSources(html: string, pageUrl: string): string[] {
+  const sources = new Set<string>();
+  for (const match of html.matchAll(/<iframe\b[^>]*?\bsrc=["']([^"']+)["']/gi)) {
+    try {
+      const url = new URL(match[1].replace(/&amp;/g, '&'), pageUrl);
+      if (url.protocol === 'https:' || url.protocol === 'http:') sources.add(url.toString());
+    } catch (error) {
+      // Not a URL
+    }
+  }
+  return [...sources];
+}
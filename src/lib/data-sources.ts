@@ -0,0 +1,160 @@
+/**
+ * Data Source Registry
+ * Declares the pluggable sources the enrichment engine pulls data from
+ */
+
+import { CompanyEnrichmentInput } from '../types/enrichment.js';
+import { GitHubData } from './github-fetcher.js';
+import { HiringData } from './job-scraper.js';
+import { TechnographicData } from './tech-detector.js';
+import { DnsRecords } from './dns-resolver.js';
+import { ProbedEndpoint } from './endpoint-prober.js';
+import { MobileAppData } from './mobile-app-detector.js';
+import { HeadcountEstimate } from './linkedin-headcount.js';
+
+export interface SocialLinks {
+  twitter?: string;
+  linkedin?: string;
+  github?: string;
+}
+
+/**
+ * Shared state passed between data sources during a single enrichment.
+ * Built-in sources read and write the typed keys; custom sources may add their own.
+ */
+export interface EnrichmentContext {
+  domain?: string;
+  companyName?: string;
+  linkedinUrl?: string;
+
+  websiteUrl?: string;
+  websiteContent?: string;
+  websiteHTML?: string;
+  websiteHeaders?: Record<string, string>; // Homepage response headers, lower-cased names
+  websiteCookies?: Record<string, string>;
+  linkedinContent?: string;
+  crunchbaseUrl?: string;
+  crunchbaseData?: string;
+  githubData?: GitHubData | null;
+  hiringData?: HiringData;
+  dnsRecords?: DnsRecords;
+  probedEndpoints?: ProbedEndpoint[];
+  techStack?: TechnographicData;
+  mobileAppData?: MobileAppData;
+  socialLinks?: SocialLinks;
+  headcountData?: HeadcountEstimate;
+
+  [key: string]: unknown;
+}
+
+export interface DataSourceResult {
+  outputs: Partial<EnrichmentContext>;
+  found: boolean; // Whether the source contributed data (recorded in `sources`)
+}
+
+export interface DataSource {
+  name: string;        // Source id, e.g. "company_website"
+  inputs: string[];    // Context keys this source reads
+  outputs: string[];   // Context keys this source writes
+  enabled: boolean;
+
+  /**
+   * Whether the source can run against the current context.
+   * Defaults to requiring every declared input to be present.
+   */
+  isApplicable?(context: EnrichmentContext): boolean;
+
+  run(context: EnrichmentContext): Promise<DataSourceResult>;
+}
+
+/**
+ * Names of the sources every engine registers, in the order they're registered
+ */
+export const BUILT_IN_SOURCES = [
+  'company_website',
+  'linkedin',
+  'crunchbase',
+  'github',
+  'job_boards',
+  'dns_records',
+  'endpoint_probes',
+  'tech_detection',
+  'mobile_app_detection',
+  'social_links',
+  'linkedin_headcount',
+] as const;
+
+export type BuiltInSourceName = typeof BUILT_IN_SOURCES[number];
+
+export function isBuiltInSource(name: string): name is BuiltInSourceName {
+  return (BUILT_IN_SOURCES as readonly string[]).includes(name);
+}
+
+/**
+ * Per-run overrides, keyed by source name (true = enabled, false = disabled)
+ */
+export type SourceToggles = Record<string, boolean>;
+
+export class DataSourceRegistry {
+  private sources: DataSource[] = [];
+
+  /**
+   * Register a data source. Replaces any existing source with the same name.
+   */
+  register(source: DataSource): void {
+    const index = this.sources.findIndex(s => s.name === source.name);
+    if (index >= 0) {
+      this.sources[index] = source;
+    } else {
+      this.sources.push(source);
+    }
+  }
+
+  unregister(name: string): boolean {
+    const before = this.sources.length;
+    this.sources = this.sources.filter(s => s.name !== name);
+    return this.sources.length < before;
+  }
+
+  get(name: string): DataSource | undefined {
+    return this.sources.find(s => s.name === name);
+  }
+
+  setEnabled(name: string, enabled: boolean): void {
+    const source = this.get(name);
+    if (!source) {
+      throw new Error(`Unknown data source: ${name}`);
+    }
+    source.enabled = enabled;
+  }
+
+  /**
+   * All registered sources, in registration order
+   */
+  list(): DataSource[] {
+    return [...this.sources];
+  }
+
+  /**
+   * Sources enabled for a run, applying optional per-run toggles on top of each source's flag
+   */
+  resolve(toggles: SourceToggles = {}): DataSource[] {
+    for (const name of Object.keys(toggles)) {
+      if (!this.get(name)) {
+        throw new Error(`Unknown data source: ${name}`);
+      }
+    }
+    return this.sources.filter(s => toggles[s.name] ?? s.enabled);
+  }
+
+  /**
+   * Check whether a source's inputs are satisfied by the context
+   */
+  static isApplicable(source: DataSource, context: EnrichmentContext): boolean {
+    if (source.isApplicable) return source.isApplicable(context);
+    return source.inputs.every(key => {
+      const value = context[key];
+      return value !== undefined && value !== null && value !== '';
+    });
+  }
+}
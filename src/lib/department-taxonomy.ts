@@ -0,0 +1,195 @@
+/**
+ * Department Taxonomy
+ * Classifies job postings into departments (and sub-departments, e.g. Engineering > Infrastructure)
+ * from the board's department label and the job title. The built-in taxonomy can be replaced with
+ * a JSON file of the same shape via DEPARTMENT_TAXONOMY_PATH.
+ */
+
+import fs from 'fs';
+
+export interface DepartmentRule {
+  name: string;
+  departments?: string[];      // Case-insensitive regexes matched against the board's department label
+  titles?: string[];           // Case-insensitive regexes matched against the job title
+  overrides?: string[];        // Title regexes that win over the board's department label, e.g. "account manager" under Sales
+  children?: DepartmentRule[]; // Sub-departments, matched on either the department label or the title
+}
+
+export interface DepartmentTaxonomyConfig {
+  departments: DepartmentRule[];
+  fallback?: string; // Department for postings no rule matches (default "Other")
+}
+
+// The department whose open roles feed the engineering headcount estimate
+export const ENGINEERING_DEPARTMENT = 'Engineering';
+
+// Separates levels in department paths and breakdown keys, e.g. "Engineering > Infrastructure"
+export const PATH_SEPARATOR = ' > ';
+
+// Rules are tried in order, so specific departments come before broad ones like Engineering
+export const DEFAULT_TAXONOMY: DepartmentTaxonomyConfig = {
+  departments: [
+    {
+      name: 'Security',
+      departments: ['security', '\\btrust\\b'],
+      titles: ['security', '\\bsoc\\b', 'penetration', 'appsec', 'infosec'],
+    },
+    {
+      name: 'Data',
+      departments: ['\\bdata\\b', 'analytics', 'business intelligence', '\\bbi\\b'],
+      titles: ['data scien', 'data analy', 'data engineer', 'analytics', 'business intelligence'],
+      children: [
+        { name: 'Data Science', titles: ['data scien', 'machine learning', '\\bml\\b'] },
+        { name: 'Data Engineering', titles: ['data engineer', 'analytics engineer', 'data platform'] },
+        { name: 'Analytics', titles: ['analyst', 'analytics', 'business intelligence'] },
+      ],
+    },
+    {
+      name: 'Design',
+      departments: ['design', '\\bux\\b', '\\bui\\b', 'user research'],
+      titles: ['designer', '\\bux\\b', 'user research', 'design (?:lead|manager|director)', 'head of design'],
+      overrides: ['designer'],
+    },
+    {
+      name: 'Product',
+      departments: ['^product(?!.*engineer)', 'product management'],
+      titles: ['product manager', 'product owner', 'product lead', 'head of product', 'vp,? (?:of )?product', 'chief product', 'product operations'],
+      overrides: ['product manager', 'product owner'],
+    },
+    {
+      name: 'Sales',
+      departments: ['sales', 'business development', 'revenue', 'partnerships?'],
+      titles: ['account executive', 'sales', 'business development', '\\bsdr\\b', '\\bbdr\\b', 'partnerships?', 'solutions? (?:engineer|consultant|architect)', 'pre-?sales'],
+      children: [
+        { name: 'Sales Engineering', titles: ['sales engineer', 'solutions? (?:engineer|consultant|architect)', 'pre-?sales'] },
+        { name: 'Business Development', titles: ['business development', '\\bsdr\\b', '\\bbdr\\b', 'partnerships?'] },
+      ],
+    },
+    {
+      name: 'Customer Success',
+      departments: ['customer', 'support', 'success', 'account management', 'client services', 'professional services', 'implementation', 'onboarding'],
+      titles: ['customer', 'support', 'account manager', 'success', 'implementation', 'onboarding'],
+      overrides: ['account manager', 'customer success'],
+      children: [
+        { name: 'Support', departments: ['support'], titles: ['support'] },
+        { name: 'Account Management', departments: ['account management'], titles: ['account manager'] },
+      ],
+    },
+    {
+      name: 'Marketing',
+      departments: ['marketing', 'growth', 'brand', 'communications', 'content', '\\bpr\\b', 'demand gen'],
+      titles: ['marketing', 'growth', 'brand', 'content', 'communications', '\\bseo\\b', 'demand gen', 'copywriter'],
+    },
+    {
+      name: 'People',
+      departments: ['people', '\\bhr\\b', 'human resources', 'talent', 'recruit'],
+      titles: ['recruit', 'talent', 'people', '\\bhr\\b', 'human resources'],
+    },
+    {
+      name: 'Finance',
+      departments: ['financ', 'accounting', 'fp&a', '\\btax\\b', 'treasury'],
+      titles: ['accountant', 'financ', 'controller', 'fp&a', '\\btax\\b', 'payroll', 'treasury'],
+    },
+    {
+      name: 'Legal',
+      departments: ['legal', 'counsel', 'compliance'],
+      titles: ['counsel', 'legal', 'paralegal', 'attorney', 'lawyer', 'compliance'],
+    },
+    {
+      name: 'Operations',
+      departments: ['operations', '\\bops\\b', 'strategy', '^it$', 'information technology', 'workplace', 'facilities', 'administration'],
+      titles: ['operations', 'chief of staff', 'office manager', 'it support', 'administrator', 'executive assistant', 'strategy'],
+    },
+    {
+      name: ENGINEERING_DEPARTMENT,
+      departments: ['engineer', 'developer', 'technical', 'technology', 'r&d', 'research and development', 'software', 'platform', 'infrastructure', 'devops', '\\bsre\\b', '\\bqa\\b'],
+      titles: ['engineer', 'developer', 'programmer', 'devops', '\\bsre\\b', 'architect', '\\bcto\\b'],
+      children: [
+        { name: 'Infrastructure', departments: ['infra', 'platform', 'devops', '\\bsre\\b', 'reliability', 'cloud'], titles: ['infra', 'platform', 'devops', '\\bsre\\b', 'reliability', 'cloud'] },
+        { name: 'Machine Learning', departments: ['machine learning', '\\bml\\b', '\\bai\\b'], titles: ['machine learning', '\\bml\\b', '\\bai\\b', '\\bllm\\b'] },
+        { name: 'Mobile', departments: ['mobile'], titles: ['mobile', '\\bios\\b', 'android'] },
+        { name: 'Frontend', departments: ['front[- ]?end', '\\bweb\\b'], titles: ['front[- ]?end', '\\bweb\\b', '\\bui engineer'] },
+        { name: 'Backend', departments: ['back[- ]?end'], titles: ['back[- ]?end', '\\bapi\\b'] },
+        { name: 'QA', departments: ['\\bqa\\b', 'quality', 'test'], titles: ['\\bqa\\b', 'quality', 'test'] },
+      ],
+    },
+  ],
+};
+
+interface CompiledRule {
+  name: string;
+  departments: RegExp[];
+  titles: RegExp[];
+  overrides: RegExp[];
+  children: CompiledRule[];
+}
+
+function compile(rule: DepartmentRule, where: string): CompiledRule {
+  if (!rule || typeof rule.name !== 'string' || !rule.name.trim()) {
+    throw new Error(`Every department in ${where} needs a name`);
+  }
+  const patterns = (sources: string[] | undefined) => (sources || []).map(source => {
+    try {
+      return new RegExp(source, 'i');
+    } catch (error) {
+      throw new Error(`Invalid pattern for ${rule.name} in ${where}: ${source}`);
+    }
+  });
+  return {
+    name: rule.name.trim(),
+    departments: patterns(rule.departments),
+    titles: patterns(rule.titles),
+    overrides: patterns(rule.overrides),
+    children: (rule.children || []).map(child => compile(child, where)),
+  };
+}
+
+export class DepartmentTaxonomy {
+  private rules: CompiledRule[];
+  readonly fallback: string;
+
+  constructor(config: DepartmentTaxonomyConfig = DEFAULT_TAXONOMY, where = 'the department taxonomy') {
+    if (!Array.isArray(config?.departments)) {
+      throw new Error(`${where} must have a "departments" array`);
+    }
+    this.rules = config.departments.map(rule => compile(rule, where));
+    this.fallback = config.fallback || 'Other';
+  }
+
+  /**
+   * The taxonomy at DEPARTMENT_TAXONOMY_PATH, or the built-in one when it isn't set
+   */
+  static load(filePath: string | undefined = process.env.DEPARTMENT_TAXONOMY_PATH): DepartmentTaxonomy {
+    if (!filePath) return new DepartmentTaxonomy();
+
+    let config: DepartmentTaxonomyConfig;
+    try {
+      config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Could not read department taxonomy ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    return new DepartmentTaxonomy(config, filePath);
+  }
+
+  /**
+   * Department path for a posting, e.g. ["Engineering", "Infrastructure"].
+   * An override title decides first, then the board's department label, then the title.
+   */
+  classify(department: string, title: string): string[] {
+    const rule = this.rules.find(r => r.overrides.some(p => p.test(title)))
+      || this.rules.find(r => r.departments.some(p => p.test(department)))
+      || this.rules.find(r => r.titles.some(p => p.test(title)));
+    if (!rule) return [this.fallback];
+
+    const path = [rule.name];
+    let current = rule;
+    for (;;) {
+      const child = current.children.find(c => c.titles.some(p => p.test(title)))
+        || current.children.find(c => c.departments.some(p => p.test(department)));
+      if (!child) break;
+      path.push(child.name);
+      current = child;
+    }
+    return path;
+  }
+}
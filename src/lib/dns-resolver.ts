@@ -0,0 +1,88 @@
+/**
+ * DNS Records
+ * Looks up the MX, TXT, NS and CNAME records that reveal a company's email, SaaS and hosting
+ * providers. Resolvers are pluggable so lookups can be served from fixture zones.
+ */
+
+import { Resolver } from 'dns/promises';
+
+export type DnsRecordType = 'MX' | 'TXT' | 'NS' | 'CNAME';
+
+// Record values by type: mail exchanges, TXT strings, name servers and CNAME targets
+export type DnsRecords = Partial<Record<DnsRecordType, string[]>>;
+
+export interface DnsResolver {
+  /**
+   * Records of one type for a hostname; empty when there are none
+   */
+  resolve(hostname: string, type: DnsRecordType): Promise<string[]>;
+}
+
+// Lookups that mean "no such record" rather than a failure
+const NO_DATA = new Set(['ENODATA', 'ENOTFOUND', 'ENONAME', 'NXDOMAIN']);
+
+/**
+ * Resolves through the system's DNS servers, or DNS_SERVERS when set
+ */
+export class SystemDnsResolver implements DnsResolver {
+  private resolver: Resolver;
+
+  constructor(servers: string[] = (process.env.DNS_SERVERS || '').split(',').map(s => s.trim()).filter(Boolean), timeoutMs = 3000) {
+    this.resolver = new Resolver({ timeout: timeoutMs, tries: 2 });
+    if (servers.length > 0) this.resolver.setServers(servers);
+  }
+
+  async resolve(hostname: string, type: DnsRecordType): Promise<string[]> {
+    try {
+      switch (type) {
+        case 'MX':
+          return (await this.resolver.resolveMx(hostname)).sort((a, b) => a.priority - b.priority).map(mx => mx.exchange);
+        case 'TXT':
+          return (await this.resolver.resolveTxt(hostname)).map(chunks => chunks.join(''));
+        case 'NS':
+          return await this.resolver.resolveNs(hostname);
+        case 'CNAME':
+          return await this.resolver.resolveCname(hostname);
+      }
+    } catch (error) {
+      if (NO_DATA.has((error as NodeJS.ErrnoException).code || '')) return [];
+      throw error;
+    }
+  }
+}
+
+/**
+ * Serves records from fixed zones, e.g. { "acme.com": { MX: ["aspmx.l.google.com"] } }
+ */
+export class StaticDnsResolver implements DnsResolver {
+  constructor(private zones: Record<string, DnsRecords>) {}
+
+  async resolve(hostname: string, type: DnsRecordType): Promise<string[]> {
+    return this.zones[hostname.toLowerCase()]?.[type] || [];
+  }
+}
+
+/**
+ * The records worth fingerprinting for a domain: MX, TXT and NS on the apex, TXT on _dmarc,
+ * and the CNAME of www (the apex can't have one). Lookups that fail are left out.
+ */
+export async function lookupDnsRecords(domain: string, resolver: DnsResolver): Promise<DnsRecords> {
+  const apex = domain.toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '').replace(/^www\./, '');
+  const lookup = (hostname: string, type: DnsRecordType) => resolver.resolve(hostname, type).catch(() => [] as string[]);
+
+  const [mx, txt, dmarc, ns, cname] = await Promise.all([
+    lookup(apex, 'MX'),
+    lookup(apex, 'TXT'),
+    lookup(`_dmarc.${apex}`, 'TXT'),
+    lookup(apex, 'NS'),
+    lookup(`www.${apex}`, 'CNAME'),
+  ]);
+
+  const normalize = (names: string[]) => names.map(name => name.toLowerCase().replace(/\.$/, ''));
+  const records: DnsRecords = {};
+  if (mx.length > 0) records.MX = normalize(mx);
+  if (txt.length + dmarc.length > 0) records.TXT = [...txt, ...dmarc];
+  if (ns.length > 0) records.NS = normalize(ns);
+  if (cname.length > 0) records.CNAME = normalize(cname);
+  return records;
+}
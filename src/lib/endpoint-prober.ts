@@ -0,0 +1,108 @@
+/**
+ * Endpoint Prober
+ * Fetches a fixed set of subdomains (status., docs., help., app.) and well-known files (security.txt,
+ * robots.txt, sitemap.xml, humans.txt) whose content reveals the vendors behind them
+ */
+
+import { httpFetch } from './http-client.js';
+import { responseCache } from './response-cache.js';
+import { responseSignals } from './fingerprints.js';
+
+export type EndpointKind = 'status' | 'docs' | 'help' | 'app' | 'security.txt' | 'robots.txt' | 'sitemap.xml' | 'humans.txt';
+
+export interface ProbedEndpoint {
+  kind: EndpointKind;
+  url: string;       // What was requested
+  finalUrl: string;  // Where redirects ended, e.g. a vendor-hosted help center
+  path?: string;     // For well-known files, e.g. "/robots.txt"
+  headers: Record<string, string>; // Lower-cased names
+  cookies: Record<string, string>;
+  body: string;
+}
+
+const SUBDOMAINS: Array<{ kind: EndpointKind; prefix: string }> = [
+  { kind: 'status', prefix: 'status' },
+  { kind: 'docs', prefix: 'docs' },
+  { kind: 'help', prefix: 'help' },
+  { kind: 'app', prefix: 'app' },
+];
+
+const WELL_KNOWN_FILES: Array<{ kind: EndpointKind; path: string }> = [
+  { kind: 'security.txt', path: '/.well-known/security.txt' },
+  { kind: 'robots.txt', path: '/robots.txt' },
+  { kind: 'sitemap.xml', path: '/sitemap.xml' },
+  { kind: 'humans.txt', path: '/humans.txt' },
+];
+
+const PROBE_TIMEOUT_MS = 5000;
+const MAX_BODY_CHARS = 200000;
+
+interface ProbeResponse {
+  status: number;
+  finalUrl: string;
+  headers: Record<string, string>;
+  cookies: Record<string, string>;
+  body: string;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+export class EndpointProber {
+  /**
+   * Every probed endpoint that answered with its own content. Subdomains that redirect back to
+   * the main site, and "files" a single-page app answers with its HTML shell, are left out.
+   */
+  async probe(domain: string): Promise<ProbedEndpoint[]> {
+    const apex = hostOf(domain.startsWith('http') ? domain : `https://${domain}`);
+    if (!apex) return [];
+
+    const probes = [
+      ...SUBDOMAINS.map(({ kind, prefix }) => ({ kind, url: `https://${prefix}.${apex}/`, path: undefined })),
+      ...WELL_KNOWN_FILES.map(({ kind, path }) => ({ kind, url: `https://${apex}${path}`, path })),
+    ];
+
+    const results = await Promise.all(probes.map(async ({ kind, url, path }) => {
+      const response = await this.fetchEndpoint(url);
+      if (!response || response.status !== 200 || !response.body.trim()) return undefined;
+
+      if (path) {
+        const html = /text\/html/i.test(response.headers['content-type'] || '') || /^\s*<(?:!doctype|html)/i.test(response.body);
+        if (html) return undefined;
+      } else if (hostOf(response.finalUrl) === apex) {
+        return undefined;
+      }
+      const endpoint: ProbedEndpoint = { kind, url, finalUrl: response.finalUrl, headers: response.headers, cookies: response.cookies, body: response.body };
+      if (path) endpoint.path = path;
+      return endpoint;
+    }));
+
+    const found = results.filter((endpoint): endpoint is ProbedEndpoint => !!endpoint);
+    console.log(`    ✓ Probed ${probes.length} endpoints, ${found.length} answered${found.length > 0 ? `: ${found.map(e => e.kind).join(', ')}` : ''}`);
+    return found;
+  }
+
+  private async fetchEndpoint(url: string): Promise<ProbeResponse | undefined> {
+    try {
+      // Cached as a whole so the final URL after redirects survives a cache hit
+      return await responseCache.wrap('website', ['probe', url], async () => {
+        const response = await httpFetch(url, {
+          headers: { 'User-Agent': 'Mozilla/5.0 (compatible; CompanyEnrichment/1.0)' },
+        }, { timeoutMs: PROBE_TIMEOUT_MS });
+
+        const { headers, cookies } = responseSignals(response);
+        const body = response.ok ? (await response.text()).slice(0, MAX_BODY_CHARS) : '';
+        if (!response.ok) await response.body?.cancel();
+
+        return { status: response.status, finalUrl: response.url || url, headers, cookies, body };
+      });
+    } catch (error) {
+      return undefined; // Subdomain doesn't resolve, refused or timed out
+    }
+  }
+}
@@ -1,6 +1,5 @@
 import * as Sentry from '@sentry/node';
-import { anthropic } from '@ai-sdk/anthropic';
-import { generateObject } from 'ai';
+import { generateObject, zodSchema } from 'ai';
 import { z } from 'zod';
 import {
   CompanyEnrichmentInput,
@@ -9,44 +8,211 @@ import {
   FundingRound,
   LeadershipChange,
   JobPosting,
+  StepTiming,
+  EnrichmentEvent,
+  FieldProvenance,
+  VerificationStrictness,
 } from '../types/enrichment.js';
 import { GitHubFetcher } from './github-fetcher.js';
-import { JobScraper } from './job-scraper.js';
+import { HiringData, JobScraper } from './job-scraper.js';
+import { ENGINEERING_DEPARTMENT } from './department-taxonomy.js';
+import { computeHiringTrends, estimateHiringVelocity, toSnapshotPostings } from './hiring-trends.js';
 import { TechDetector } from './tech-detector.js';
+import { responseSignals } from './fingerprints.js';
+import { DnsResolver, SystemDnsResolver, lookupDnsRecords } from './dns-resolver.js';
+import { EndpointProber } from './endpoint-prober.js';
 import { MobileAppDetector } from './mobile-app-detector.js';
-import { LinkedInHeadcountFetcher } from './linkedin-headcount.js';
+import { LinkedInHeadcountFetcher, HeadcountEstimate } from './linkedin-headcount.js';
+import { BuiltInSourceName, DataSource, DataSourceRegistry, EnrichmentContext, SourceToggles } from './data-sources.js';
+import { runSourceGraph } from './source-graph.js';
+import { ResultStore } from './result-store.js';
+import { ProvenanceTracker } from './provenance.js';
+import { FactVerifier } from './fact-verifier.js';
+import { ModelConfig, ModelProvider, ModelTask } from './model-provider.js';
+import { UsageTracker, formatUSD } from './usage-tracker.js';
+import { httpFetch, withRateLimit, withAbortSignal, currentAbortSignal } from './http-client.js';
+import { responseCache } from './response-cache.js';
 
 /**
  * Company Enrichment Engine
  * Fetches and enriches company data from multiple sources
  */
+export interface EngineOptions {
+  registry?: DataSourceRegistry;
+  store?: ResultStore; // When set, every run is saved as a snapshot
+  verification?: VerificationStrictness; // Fact check strictness (default VERIFY_STRICTNESS or "flag")
+  models?: ModelConfig; // "provider:model" per LLM task (default MODEL_* env vars, then Claude Sonnet)
+  deepJobs?: boolean; // Fetch every job posting's own page for descriptions, skills and pay (default JOBS_DEEP_FETCH)
+  dnsResolver?: DnsResolver; // Where DNS records come from (default the system resolver, or DNS_SERVERS)
+}
+
+export interface EnrichOptions {
+  sources?: SourceToggles; // Per-run on/off overrides keyed by data source name
+  onEvent?: (event: EnrichmentEvent) => void; // Progress events: per-company steps, results and errors
+  signal?: AbortSignal; // Cancels in-flight fetches and LLM calls; cancelled runs are not saved
+}
+
+export interface BatchOptions extends EnrichOptions {
+  concurrency?: number; // Companies enriched at once (default ENRICH_CONCURRENCY or 4)
+  budgetUSD?: number;   // Stop starting companies once the projected LLM spend would exceed this (default BUDGET_USD)
+}
+
+const DEFAULT_BATCH_CONCURRENCY = 4;
+
+// A finished enrichment, with what the engine records once it is known to have succeeded
+interface CompanyRun {
+  result: EnrichmentResult;
+  domain?: string;          // The domain the sources ran against, requested or discovered
+  hiringData?: HiringData;  // Postings to record as this run's job snapshot
+}
+
+const CANCELLED = 'Cancelled';
+
+// Extraction schema fields that land somewhere else in CompanyEnrichmentData
+const LLM_FIELD_PATHS: Record<string, string> = {
+  ceoName: 'ceo.name',
+  latestRoundType: 'latestFundingRound',
+  latestRoundAmount: 'latestFundingRound',
+  latestRoundDate: 'latestFundingRound',
+  growthStage: 'aiInsights.growthStage',
+  recentNews: 'aiInsights.recentNews',
+  productDescription: 'aiInsights.keyDifferentiators',
+  recentProductLaunches: 'aiInsights.recentProductLaunches',
+  recentAcquisitions: 'aiInsights.recentAcquisitions',
+  competitorMoves: 'aiInsights.competitorMoves',
+};
+
+function getFieldValue(data: object, field: string): unknown {
+  return field.split('.').reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), data);
+}
+
+function isPopulated(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') return Object.values(value).some(isPopulated);
+  return true;
+}
+
 export class CompanyEnrichmentEngine {
-  private model = anthropic('claude-sonnet-4-5-20250929');
+  private models: ModelProvider;
   private githubFetcher: GitHubFetcher;
   private jobScraper: JobScraper;
   private techDetector: TechDetector;
+  private dnsResolver: DnsResolver;
+  private endpointProber: EndpointProber;
   private mobileAppDetector: MobileAppDetector;
   private linkedinHeadcountFetcher: LinkedInHeadcountFetcher;
+  private factVerifier: FactVerifier;
+  private store?: ResultStore;
+  readonly registry: DataSourceRegistry;
 
-  constructor() {
+  constructor(options: EngineOptions = {}) {
     this.githubFetcher = new GitHubFetcher();
-    this.jobScraper = new JobScraper();
+    this.jobScraper = new JobScraper({ deepFetch: options.deepJobs });
     this.techDetector = new TechDetector();
+    this.dnsResolver = options.dnsResolver || new SystemDnsResolver();
+    this.endpointProber = new EndpointProber();
     this.mobileAppDetector = new MobileAppDetector();
     this.linkedinHeadcountFetcher = new LinkedInHeadcountFetcher();
+    this.registry = options.registry || new DataSourceRegistry();
+    this.store = options.store;
+    this.factVerifier = new FactVerifier(options.verification);
+    this.models = new ModelProvider(options.models);
+
+    for (const source of this.createBuiltInSources()) {
+      if (!this.registry.get(source.name)) this.registry.register(source);
+    }
+  }
+
+  /**
+   * Register a custom data source (e.g. an internal CRM export)
+   */
+  registerSource(source: DataSource): void {
+    this.registry.register(source);
   }
 
   /**
    * Main enrichment function - takes company identifier and returns enriched data
    */
-  async enrichCompany(input: CompanyEnrichmentInput): Promise<EnrichmentResult> {
+  async enrichCompany(input: CompanyEnrichmentInput, options: EnrichOptions = {}): Promise<EnrichmentResult> {
+    return this.runCompany(input, options, 0, 0);
+  }
+
+  private async runCompany(input: CompanyEnrichmentInput, options: EnrichOptions, index: number, queued: number): Promise<EnrichmentResult> {
     const identifier = input.companyName || input.domain || input.linkedinUrl || 'unknown';
-    return Sentry.startSpan({ name: 'enrichCompany', op: 'enrichment.company', attributes: { domain: input.domain || '', company: identifier } }, () => this._enrichCompany(input));
+    const rawInput = { ...input };
+    this.emit(options, { type: 'company_started', timestamp: Date.now(), index, company: identifier, queued });
+
+    const { result, domain, hiringData } = await Sentry.startSpan({ name: 'enrichCompany', op: 'enrichment.company', attributes: { domain: input.domain || '', company: identifier } }, () => withAbortSignal(options.signal, () => this._enrichCompany(input, options, index)));
+
+    if (this.store && !options.signal?.aborted) {
+      try {
+        result.runId = this.store.saveRun(rawInput, result, domain) ?? undefined;
+      } catch (error) {
+        console.log(`    ✗ Could not save result: ${error instanceof Error ? error.message : 'Unknown'}`);
+        Sentry.captureException(error);
+      }
+      // Only completed runs count toward hiring trends; a cancelled or failed one would read as closed postings
+      if (result.success && domain && hiringData) this.saveJobSnapshot(domain, hiringData);
+    }
+
+    this.emit(options, {
+      type: 'company_finished',
+      timestamp: Date.now(),
+      index,
+      company: identifier,
+      success: result.success,
+      confidence: result.confidence,
+      sources: result.data?.sources || [],
+      processingTimeMs: result.processingTimeMs,
+      costUSD: result.usage?.costUSD,
+      runId: result.runId,
+      error: result.error,
+    });
+
+    return result;
   }
 
-  private async _enrichCompany(input: CompanyEnrichmentInput): Promise<EnrichmentResult> {
+  /**
+   * Deliver a progress event; a failing listener must not fail the enrichment
+   */
+  private emit(options: EnrichOptions, event: EnrichmentEvent): void {
+    try {
+      options.onEvent?.(event);
+    } catch (error) {
+      console.log(`    ✗ Progress listener failed: ${error instanceof Error ? error.message : 'Unknown'}`);
+    }
+  }
+
+  private async _enrichCompany(input: CompanyEnrichmentInput, options: EnrichOptions, index: number): Promise<CompanyRun> {
     const startTime = Date.now();
     const identifier = input.companyName || input.domain || input.linkedinUrl || 'unknown';
+    const usage = new UsageTracker();
+    const steps: StepTiming[] = [];
+
+    const stepStarted = (step: string) => {
+      this.emit(options, { type: 'step_started', timestamp: Date.now(), index, company: identifier, step });
+    };
+    const stepFinished = (timing: StepTiming) => {
+      const { step, status, durationMs, found, error } = timing;
+      this.emit(options, { type: 'step_finished', timestamp: Date.now(), index, company: identifier, step, status, durationMs, found, error });
+    };
+
+    // Time a pipeline step, reporting it as failed if it throws
+    const runStep = async <T>(step: string, task: () => Promise<T>, found: (value: T) => boolean): Promise<T> => {
+      const stepStart = Date.now();
+      stepStarted(step);
+      try {
+        const value = await task();
+        const timing: StepTiming = { step, status: 'completed', startOffsetMs: stepStart - startTime, durationMs: Date.now() - stepStart, found: found(value) };
+        steps.push(timing);
+        stepFinished(timing);
+        return value;
+      } catch (error) {
+        stepFinished({ step, status: 'failed', startOffsetMs: stepStart - startTime, durationMs: Date.now() - stepStart, error: error instanceof Error ? error.message : 'Unknown error' });
+        throw error;
+      }
+    };
 
     try {
       Sentry.logger.info('Enriching company: %s', [identifier], { domain: input.domain || '' });
@@ -55,7 +221,7 @@ export class CompanyEnrichmentEngine {
       // Step 0: If only company name provided, find domain
       if (!input.domain && input.companyName) {
         console.log(`  → Finding domain for: ${input.companyName}`);
-        input.domain = await this.findDomainFromName(input.companyName) ?? undefined;
+        input.domain = await runStep('domain_discovery', () => this.findDomainFromName(input.companyName!, usage), domain => !!domain) ?? undefined;
         if (input.domain) {
           console.log(`    ✓ Found domain: ${input.domain}`);
         } else {
@@ -63,191 +229,343 @@ export class CompanyEnrichmentEngine {
         }
       }
 
-      // Step 1: Fetch data from multiple sources
-      const sources: string[] = [];
-      let websiteContent = '';
-      let websiteHTML = '';
-      let linkedinContent = '';
-      let crunchbaseData = '';
-
-      // Fetch company website
-      if (input.domain) {
-        console.log(`  → Fetching website: ${input.domain}`);
-        const websiteData = await Sentry.startSpan({ name: 'fetchWebsite', op: 'http.fetch', attributes: { domain: input.domain } }, () => this.fetchWebsite(input.domain!));
-        websiteContent = websiteData.text;
-        websiteHTML = websiteData.html;
-        if (websiteContent) sources.push('company_website');
-      }
+      // Step 1: Run enabled data sources as a dependency graph - independent sources run in parallel
+      const context: EnrichmentContext = {
+        domain: input.domain,
+        companyName: input.companyName,
+        linkedinUrl: input.linkedinUrl,
+      };
+      const graphStart = Date.now() - startTime;
+      const { found: sources, steps: sourceSteps } = await runSourceGraph(this.registry.resolve(options.sources), context, {
+        onStepStart: stepStarted,
+        onStepFinish: stepFinished,
+      });
+      steps.push(...sourceSteps.map(s => ({ ...s, startOffsetMs: s.startOffsetMs + graphStart })));
 
-      // Search for company on LinkedIn (scraping requires auth, so we'll simulate)
-      if (input.linkedinUrl || input.companyName) {
-        console.log(`  → Fetching LinkedIn data...`);
-        linkedinContent = await this.fetchLinkedInData(input.linkedinUrl || input.companyName || '');
-        if (linkedinContent) sources.push('linkedin');
+      // Step 2: Use AI to extract and structure all the data
+      options.signal?.throwIfAborted();
+      console.log(`  → Analyzing data with AI...`);
+      const enrichedData = await runStep(
+        'ai_extraction',
+        () => Sentry.startSpan({ name: 'extractWithAI', op: 'ai.generate', attributes: { sourceCount: sources.length } }, () => this.extractWithAI(input, context, sources, usage)),
+        () => true
+      );
+
+      // Step 3: Check model-extracted facts against the text we actually fetched
+      if (this.factVerifier.strictness !== 'off') {
+        enrichedData.verification = await runStep('fact_verification', async () => this.factVerifier.verify(enrichedData, {
+          website: context.websiteContent,
+          crunchbase: context.crunchbaseData,
+          linkedin: context.linkedinContent,
+          jobs: context.hiringData?.jobListings.map(j => `${j.title}\n${j.description}`).join('\n'),
+        }), verification => !verification?.unsupported.length);
       }
-
-      // Search Crunchbase (requires API key, we'll use web search as proxy)
-      if (input.companyName || input.domain) {
-        console.log(`  → Searching Crunchbase...`);
-        crunchbaseData = await this.searchCrunchbase(input.companyName || input.domain || '');
-        if (crunchbaseData) sources.push('crunchbase');
+      if (enrichedData.verification) {
+        const { unsupported, strictness } = enrichedData.verification;
+        if (unsupported.length > 0) {
+          console.log(`    ⚠ ${unsupported.length} unsupported fact${unsupported.length > 1 ? 's' : ''} ${strictness === 'drop' ? 'dropped' : 'flagged'}: ${[...new Set(unsupported.map(c => c.field))].join(', ')}`);
+        }
       }
 
-      // Step 2: Fetch GitHub data
-      let githubData = null;
-      if (input.domain) {
-        const companyName = input.companyName || input.domain.split('.')[0];
-        githubData = await Sentry.startSpan({ name: 'fetchGitHub', op: 'enrichment.github', attributes: { domain: input.domain } }, async () => {
-          const githubOrg = await this.githubFetcher.findOrgFromDomain(input.domain!, companyName);
-          if (githubOrg) {
-            const data = await this.githubFetcher.fetchOrgData(githubOrg);
-            if (data) sources.push('github');
-            return data;
-          }
-          return null;
-        });
-      }
+      const processingTimeMs = Date.now() - startTime;
+      const confidence = this.calculateConfidence(enrichedData, sources);
+      enrichedData.usage = usage.summary();
 
-      // Step 3: Fetch job postings and calculate hiring data
-      let hiringData = null;
-      let htmlForTech = '';
-      if (input.domain) {
-        const companyName = input.companyName || input.domain.split('.')[0];
-        hiringData = await Sentry.startSpan({ name: 'scrapeJobs', op: 'enrichment.jobs', attributes: { domain: input.domain } }, () => this.jobScraper.scrapeJobs(input.domain!, companyName));
-        if (hiringData.openPositions > 0) sources.push('job_boards');
+      Sentry.logger.info('Enrichment completed for %s', [identifier], { confidence, processingTimeMs, sourceCount: sources.length, costUSD: enrichedData.usage.costUSD });
 
-        // Store HTML for tech detection - use raw HTML, not cleaned text!
-        htmlForTech = websiteHTML;
+      return {
+        result: {
+          success: true,
+          data: enrichedData,
+          confidence,
+          processingTimeMs,
+          steps,
+          usage: enrichedData.usage,
+        },
+        domain: context.domain,
+        hiringData: context.hiringData,
+      };
+    } catch (error) {
+      const processingTimeMs = Date.now() - startTime;
+      if (options.signal?.aborted) {
+        console.log(`  ✗ Cancelled: ${identifier}`);
+        return { result: { success: false, error: CANCELLED, confidence: 0, processingTimeMs, steps, usage: usage.summary() } };
       }
 
-      // Step 4: Detect tech stack
-      let techStack = null;
-      if (htmlForTech) {
-        const url = input.domain?.startsWith('http') ? input.domain : `https://${input.domain}`;
-        techStack = await Sentry.startSpan({ name: 'detectTechStack', op: 'enrichment.tech' }, () => this.techDetector.detectTechStack(htmlForTech, url));
-
-        // Enhance with job posting tech mentions
-        if (hiringData && hiringData.jobListings.length > 0) {
-          const jobDescriptions = hiringData.jobListings.map(j => j.title + ' ' + j.description);
-          const techFromJobs = this.techDetector.detectFromJobPostings(jobDescriptions);
-          hiringData.topSkillsHiring = techFromJobs;
-        }
-
-        if (techStack.allTechnologies.length > 0) sources.push('tech_detection');
-      }
+      console.error('Enrichment error:', error);
+      Sentry.captureException(error);
+      Sentry.logger.error('Enrichment failed for %s', [identifier], { error: error instanceof Error ? error.message : 'Unknown', processingTimeMs });
 
-      // Step 4.5: Detect mobile apps
-      let mobileAppData = null;
-      if (websiteHTML && input.domain) {
-        console.log('  → Detecting mobile apps...');
-        mobileAppData = await Sentry.startSpan({ name: 'detectMobileApps', op: 'enrichment.mobile' }, () => this.mobileAppDetector.detectMobileApps(websiteHTML, input.domain!));
-        if (mobileAppData.allApps.length > 0) {
-          console.log(`    ✓ Found ${mobileAppData.allApps.length} mobile app(s)`);
-          if (mobileAppData.hasIosApp) console.log(`      • iOS app detected`);
-          if (mobileAppData.hasAndroidApp) console.log(`      • Android app detected`);
-          sources.push('mobile_app_detection');
-        } else {
-          console.log(`    ✗ No mobile apps detected`);
-        }
-      }
+      return {
+        result: {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          confidence: 0,
+          processingTimeMs,
+          steps,
+          usage: usage.summary(),
+        },
+        domain: input.domain, // Discovered, if discovery got that far
+      };
+    }
+  }
 
-      // Step 5: Extract social media links from HTML
-      const socialLinks = await this.extractSocialLinks(websiteHTML, input.domain || '');
-
-      // Step 5.5: Fetch engineering headcount from LinkedIn
-      let headcountData = null;
-      if (input.companyName) {
-        headcountData = await this.linkedinHeadcountFetcher.estimateEngineeringCount(
-          input.companyName,
-          socialLinks.linkedin
-        );
-
-        // Enhance with estimates from other sources
-        if (hiringData && githubData) {
-          const estimates = [];
-
-          // Add LinkedIn estimate if available
-          if (headcountData.engineeringCount) {
-            estimates.push({
-              value: headcountData.engineeringCount,
-              confidence: headcountData.confidence === 'high' ? 0.8 : headcountData.confidence === 'medium' ? 0.5 : 0.3,
-            });
+  /**
+   * Built-in data sources. Dependencies come from declared inputs/outputs: everything
+   * keyed only on the domain runs in parallel, tech and mobile detection wait for the
+   * website HTML, and headcount waits for jobs, GitHub and social links.
+   */
+  private createBuiltInSources(): Array<DataSource & { name: BuiltInSourceName }> {
+    return [
+      {
+        name: 'company_website',
+        inputs: ['domain'],
+        outputs: ['websiteContent', 'websiteHTML', 'websiteUrl', 'websiteHeaders', 'websiteCookies'],
+        enabled: true,
+        run: async (ctx) => {
+          console.log(`  → Fetching website: ${ctx.domain}`);
+          const websiteData = await Sentry.startSpan({ name: 'fetchWebsite', op: 'http.fetch', attributes: { domain: ctx.domain! } }, () => this.fetchWebsite(ctx.domain!));
+          const websiteUrl = ctx.domain!.startsWith('http') ? ctx.domain! : `https://${ctx.domain}`;
+          return {
+            outputs: {
+              websiteContent: websiteData.text,
+              websiteHTML: websiteData.html,
+              websiteUrl,
+              websiteHeaders: websiteData.headers,
+              websiteCookies: websiteData.cookies,
+            },
+            found: !!websiteData.text,
+          };
+        },
+      },
+      {
+        // Scraping LinkedIn requires auth, so this is simulated for now
+        name: 'linkedin',
+        inputs: ['linkedinUrl', 'companyName'],
+        outputs: ['linkedinContent'],
+        enabled: true,
+        isApplicable: (ctx) => !!(ctx.linkedinUrl || ctx.companyName),
+        run: async (ctx) => {
+          console.log(`  → Fetching LinkedIn data...`);
+          const linkedinContent = await this.fetchLinkedInData(ctx.linkedinUrl || ctx.companyName || '');
+          return { outputs: { linkedinContent }, found: !!linkedinContent };
+        },
+      },
+      {
+        // Crunchbase requires an API key, so we use the public pages as a proxy
+        name: 'crunchbase',
+        inputs: ['companyName', 'domain'],
+        outputs: ['crunchbaseData', 'crunchbaseUrl'],
+        enabled: true,
+        isApplicable: (ctx) => !!(ctx.companyName || ctx.domain),
+        run: async (ctx) => {
+          console.log(`  → Searching Crunchbase...`);
+          const { html: crunchbaseData, url: crunchbaseUrl } = await this.searchCrunchbase(ctx.companyName || ctx.domain || '');
+          return { outputs: { crunchbaseData, crunchbaseUrl }, found: !!crunchbaseData };
+        },
+      },
+      {
+        name: 'github',
+        inputs: ['domain'],
+        outputs: ['githubData'],
+        enabled: true,
+        run: async (ctx) => {
+          const companyName = ctx.companyName || ctx.domain!.split('.')[0];
+          const githubData = await Sentry.startSpan({ name: 'fetchGitHub', op: 'enrichment.github', attributes: { domain: ctx.domain! } }, async () => {
+            const githubOrg = await this.githubFetcher.findOrgFromDomain(ctx.domain!, companyName);
+            return githubOrg ? this.githubFetcher.fetchOrgData(githubOrg) : null;
+          });
+          return { outputs: { githubData }, found: !!githubData };
+        },
+      },
+      {
+        name: 'job_boards',
+        inputs: ['domain'],
+        outputs: ['hiringData'],
+        enabled: true,
+        run: async (ctx) => {
+          const companyName = ctx.companyName || ctx.domain!.split('.')[0];
+          const hiringData = await Sentry.startSpan({ name: 'scrapeJobs', op: 'enrichment.jobs', attributes: { domain: ctx.domain! } }, () => this.jobScraper.scrapeJobs(ctx.domain!, companyName));
+
+          // Tech mentions across the postings, a broader list than the scraper's own skill matching
+          if (hiringData.jobListings.length > 0) {
+            hiringData.topSkillsHiring = this.techDetector.detectFromJobPostings(hiringData.jobListings.map(j => j.title + ' ' + j.description));
           }
 
-          // Add job posting estimate
-          const jobEstimate = this.linkedinHeadcountFetcher.estimateFromJobPostings(
-            hiringData.departmentHiring.engineering
-          );
-          if (jobEstimate > 0) {
-            estimates.push({ value: jobEstimate, confidence: 0.4 });
+          this.applyHiringTrends(ctx.domain!, hiringData);
+          return { outputs: { hiringData }, found: hiringData.openPositions > 0 };
+        },
+      },
+      {
+        name: 'dns_records',
+        inputs: ['domain'],
+        outputs: ['dnsRecords'],
+        enabled: true,
+        run: async (ctx) => {
+          const dnsRecords = await Sentry.startSpan({ name: 'lookupDnsRecords', op: 'enrichment.dns', attributes: { domain: ctx.domain! } }, () => lookupDnsRecords(ctx.domain!, this.dnsResolver));
+          return { outputs: { dnsRecords }, found: Object.keys(dnsRecords).length > 0 };
+        },
+      },
+      {
+        name: 'endpoint_probes',
+        inputs: ['domain'],
+        outputs: ['probedEndpoints'],
+        enabled: true,
+        run: async (ctx) => {
+          const probedEndpoints = await Sentry.startSpan({ name: 'probeEndpoints', op: 'enrichment.probe', attributes: { domain: ctx.domain! } }, () => this.endpointProber.probe(ctx.domain!));
+          return { outputs: { probedEndpoints }, found: probedEndpoints.length > 0 };
+        },
+      },
+      {
+        name: 'tech_detection',
+        inputs: ['domain', 'websiteHTML', 'websiteHeaders', 'websiteCookies', 'dnsRecords', 'probedEndpoints'],
+        outputs: ['techStack'],
+        enabled: true,
+        // Uses raw HTML, not cleaned text; headers, DNS records and probed endpoints are optional
+        isApplicable: (ctx) => !!(ctx.domain && (ctx.websiteHTML || ctx.websiteHeaders || ctx.dnsRecords || ctx.probedEndpoints?.length)),
+        run: async (ctx) => {
+          const url = ctx.domain!.startsWith('http') ? ctx.domain! : `https://${ctx.domain}`;
+          const techStack = await Sentry.startSpan({ name: 'detectTechStack', op: 'enrichment.tech' }, () => this.techDetector.detectTechStack(ctx.websiteHTML || '', url, {
+            headers: ctx.websiteHeaders,
+            cookies: ctx.websiteCookies,
+            dns: ctx.dnsRecords,
+            endpoints: ctx.probedEndpoints,
+          }));
+
+          return { outputs: { techStack }, found: techStack.allTechnologies.length > 0 };
+        },
+      },
+      {
+        name: 'mobile_app_detection',
+        inputs: ['domain', 'websiteHTML'],
+        outputs: ['mobileAppData'],
+        enabled: true,
+        run: async (ctx) => {
+          console.log('  → Detecting mobile apps...');
+          const mobileAppData = await Sentry.startSpan({ name: 'detectMobileApps', op: 'enrichment.mobile' }, () => this.mobileAppDetector.detectMobileApps(ctx.websiteHTML!, ctx.domain!));
+          if (mobileAppData.allApps.length > 0) {
+            console.log(`    ✓ Found ${mobileAppData.allApps.length} mobile app(s)`);
+            if (mobileAppData.hasIosApp) console.log(`      • iOS app detected`);
+            if (mobileAppData.hasAndroidApp) console.log(`      • Android app detected`);
+          } else {
+            console.log(`    ✗ No mobile apps detected`);
           }
+          return { outputs: { mobileAppData }, found: mobileAppData.allApps.length > 0 };
+        },
+      },
+      {
+        // Verified links feed other sources and fields; not counted as a source on their own
+        name: 'social_links',
+        inputs: ['websiteHTML', 'domain'],
+        outputs: ['socialLinks'],
+        enabled: true,
+        isApplicable: () => true,
+        run: async (ctx) => {
+          const socialLinks = await this.extractSocialLinks(ctx.websiteHTML || '', ctx.domain || '');
+          return { outputs: { socialLinks }, found: false };
+        },
+      },
+      {
+        name: 'linkedin_headcount',
+        inputs: ['companyName', 'socialLinks', 'hiringData', 'githubData'],
+        outputs: ['headcountData'],
+        enabled: true,
+        isApplicable: (ctx) => !!ctx.companyName,
+        run: async (ctx) => {
+          const headcountData = await this.estimateHeadcount(ctx);
+          return {
+            outputs: { headcountData },
+            found: !!(headcountData.engineeringCount || headcountData.totalEmployees),
+          };
+        },
+      },
+    ];
+  }
 
-          // Add GitHub estimate
-          const githubContributors = githubData.recentActivity?.contributorsLast30Days || 0;
-          if (githubContributors > 0) {
-            const githubEstimate = this.linkedinHeadcountFetcher.estimateFromGitHub(githubContributors);
-            estimates.push({ value: githubEstimate, confidence: 0.5 });
-          }
+  /**
+   * Estimate engineering headcount from LinkedIn, combined with job and GitHub signals
+   */
+  private async estimateHeadcount(ctx: EnrichmentContext): Promise<HeadcountEstimate> {
+    const { hiringData, githubData } = ctx;
+    const headcountData = await this.linkedinHeadcountFetcher.estimateEngineeringCount(
+      ctx.companyName!,
+      ctx.socialLinks?.linkedin
+    );
 
-          // Combine estimates if we have multiple sources
-          if (estimates.length > 1) {
-            const combined = this.linkedinHeadcountFetcher.combineEstimates(estimates);
-            headcountData.engineeringCount = combined;
-            console.log(`    ✓ Combined estimate: ${combined} engineers (from ${estimates.length} sources)`);
-          }
-        }
+    // Enhance with estimates from other sources
+    if (hiringData && githubData) {
+      const estimates = [];
 
-        if (headcountData.engineeringCount || headcountData.totalEmployees) {
-          sources.push('linkedin_headcount');
-        }
+      // Add LinkedIn estimate if available
+      if (headcountData.engineeringCount) {
+        estimates.push({
+          value: headcountData.engineeringCount,
+          confidence: headcountData.confidence === 'high' ? 0.8 : headcountData.confidence === 'medium' ? 0.5 : 0.3,
+        });
       }
 
-      // Step 6: Use AI to extract and structure all the data
-      console.log(`  → Analyzing data with AI...`);
-      const enrichedData = await Sentry.startSpan({ name: 'extractWithAI', op: 'ai.generate', attributes: { sourceCount: sources.length } }, () => this.extractWithAI(
-        input,
-        websiteContent,
-        linkedinContent,
-        crunchbaseData,
-        sources,
-        githubData,
-        hiringData,
-        techStack,
-        socialLinks,
-        mobileAppData,
-        headcountData
-      ));
+      // Add job posting estimate
+      const jobEstimate = this.linkedinHeadcountFetcher.estimateFromJobPostings(
+        hiringData.departmentHiring[ENGINEERING_DEPARTMENT] || 0
+      );
+      if (jobEstimate > 0) {
+        estimates.push({ value: jobEstimate, confidence: 0.4 });
+      }
 
-      const processingTimeMs = Date.now() - startTime;
-      const confidence = this.calculateConfidence(enrichedData, sources);
+      // Add GitHub estimate
+      const githubContributors = githubData.recentActivity?.contributorsLast30Days || 0;
+      if (githubContributors > 0) {
+        const githubEstimate = this.linkedinHeadcountFetcher.estimateFromGitHub(githubContributors);
+        estimates.push({ value: githubEstimate, confidence: 0.5 });
+      }
+
+      // Combine estimates if we have multiple sources
+      if (estimates.length > 1) {
+        const combined = this.linkedinHeadcountFetcher.combineEstimates(estimates);
+        headcountData.engineeringCount = combined;
+        console.log(`    ✓ Combined estimate: ${combined} engineers (from ${estimates.length} sources)`);
+      }
+    }
 
-      Sentry.logger.info('Enrichment completed for %s', [identifier], { confidence, processingTimeMs, sourceCount: sources.length });
+    return headcountData;
+  }
 
-      return {
-        success: true,
-        data: enrichedData,
-        confidence,
-        processingTimeMs,
-      };
+  /**
+   * Compare the postings found now with earlier runs for the domain. The postings are recorded for
+   * the next run by saveJobSnapshot once this run has succeeded.
+   */
+  private applyHiringTrends(domain: string, hiringData: HiringData): void {
+    const now = new Date();
+    const postings = toSnapshotPostings(hiringData.jobListings);
+    try {
+      const snapshots = this.store?.getJobSnapshots(domain) || [];
+      hiringData.hiringVelocity = estimateHiringVelocity(postings, snapshots, now);
+      if (hiringData.openPositions === 0) return;
+      hiringData.trends = computeHiringTrends(postings, snapshots, now);
     } catch (error) {
-      const processingTimeMs = Date.now() - startTime;
-      console.error('Enrichment error:', error);
+      console.log(`    ✗ Could not track hiring trends: ${error instanceof Error ? error.message : 'Unknown'}`);
       Sentry.captureException(error);
-      Sentry.logger.error('Enrichment failed for %s', [identifier], { error: error instanceof Error ? error.message : 'Unknown', processingTimeMs });
+    }
+  }
 
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        confidence: 0,
-        processingTimeMs,
-      };
+  /**
+   * Record a run's postings for later trend comparisons. Runs where no postings were found aren't
+   * recorded, so a failed scrape doesn't read as a hiring freeze.
+   */
+  private saveJobSnapshot(domain: string, hiringData: HiringData): void {
+    if (hiringData.openPositions === 0) return;
+    try {
+      this.store?.saveJobSnapshot(domain, new Date(), toSnapshotPostings(hiringData.jobListings));
+    } catch (error) {
+      console.log(`    ✗ Could not record job snapshot: ${error instanceof Error ? error.message : 'Unknown'}`);
+      Sentry.captureException(error);
     }
   }
 
   /**
    * Find company domain from just the name using AI and web search
    */
-  private async findDomainFromName(companyName: string): Promise<string | null> {
+  private async findDomainFromName(companyName: string, usage: UsageTracker): Promise<string | null> {
     try {
       // First, use AI to get the domain (AI has knowledge of most companies)
       const schema = z.object({
@@ -255,10 +573,7 @@ export class CompanyEnrichmentEngine {
         confidence: z.number().optional(),
       });
 
-      const { object } = await generateObject({
-        model: this.model,
-        schema,
-        prompt: `What is the primary website domain for the company "${companyName}"?
+      const object = await this.generate('domainDiscovery', schema, usage, `What is the primary website domain for the company "${companyName}"?
 
 Return just the domain (e.g., "stripe.com", "linear.app", "anthropic.com"), not the full URL.
 Be sure to include the correct TLD (.com, .io, .ai, .app, etc.).
@@ -269,17 +584,15 @@ Examples:
 - Company: "Anthropic" → domain: "anthropic.com"
 - Company: "Perplexity" → domain: "perplexity.ai"
 
-If you're not confident about the domain, return null.`,
-      });
+If you're not confident about the domain, return null.`);
 
       if (object.domain) {
         // Verify the domain actually works
         try {
-          const response = await fetch(`https://${object.domain}`, {
+          const response = await httpFetch(`https://${object.domain}`, {
             method: 'HEAD',
             headers: { 'User-Agent': 'Mozilla/5.0' },
-            signal: AbortSignal.timeout(8000),
-          });
+          }, { timeoutMs: 8000 });
 
           if (response.ok) {
             return object.domain;
@@ -287,11 +600,10 @@ If you're not confident about the domain, return null.`,
         } catch (error) {
           // Domain might exist but blocks HEAD requests, try GET as fallback
           try {
-            const getResponse = await fetch(`https://${object.domain}`, {
+            const getResponse = await httpFetch(`https://${object.domain}`, {
               method: 'GET',
               headers: { 'User-Agent': 'Mozilla/5.0' },
-              signal: AbortSignal.timeout(8000),
-            });
+            }, { timeoutMs: 8000 });
 
             if (getResponse.ok || getResponse.status === 403) {
               // 403 means site exists but blocks us, still use it
@@ -314,11 +626,10 @@ If you're not confident about the domain, return null.`,
 
       for (const domain of commonPatterns) {
         try {
-          const response = await fetch(`https://${domain}`, {
+          const response = await httpFetch(`https://${domain}`, {
             method: 'HEAD',
             headers: { 'User-Agent': 'Mozilla/5.0' },
-            signal: AbortSignal.timeout(5000),
-          });
+          }, { timeoutMs: 5000 });
 
           if (response.ok) {
             return domain;
@@ -439,20 +750,15 @@ If you're not confident about the domain, return null.`,
     // Verify links actually exist before returning them
     const verifiedLinks: { twitter?: string; linkedin?: string; github?: string } = {};
 
-    if (links.twitter) {
-      const exists = await this.verifyUrlExists(links.twitter);
-      if (exists) verifiedLinks.twitter = links.twitter;
-    }
+    const [twitterExists, linkedinExists, githubExists] = await Promise.all([
+      links.twitter ? this.verifyUrlExists(links.twitter) : false,
+      links.linkedin ? this.verifyUrlExists(links.linkedin) : false,
+      links.github ? this.verifyUrlExists(links.github) : false,
+    ]);
 
-    if (links.linkedin) {
-      const exists = await this.verifyUrlExists(links.linkedin);
-      if (exists) verifiedLinks.linkedin = links.linkedin;
-    }
-
-    if (links.github) {
-      const exists = await this.verifyUrlExists(links.github);
-      if (exists) verifiedLinks.github = links.github;
-    }
+    if (twitterExists) verifiedLinks.twitter = links.twitter;
+    if (linkedinExists) verifiedLinks.linkedin = links.linkedin;
+    if (githubExists) verifiedLinks.github = links.github;
 
     if (verifiedLinks.twitter || verifiedLinks.linkedin || verifiedLinks.github) {
       console.log(`    ✓ Verified social links: ${Object.keys(verifiedLinks).join(', ')}`);
@@ -467,12 +773,11 @@ If you're not confident about the domain, return null.`,
   private async verifyUrlExists(url: string): Promise<boolean> {
     try {
       // Try HEAD first (faster)
-      const headResponse = await fetch(url, {
+      const headResponse = await httpFetch(url, {
         method: 'HEAD',
         headers: { 'User-Agent': 'Mozilla/5.0' },
-        signal: AbortSignal.timeout(5000),
         redirect: 'follow',
-      });
+      }, { timeoutMs: 5000 });
 
       // Accept 200 OK or 999 (LinkedIn's rate limit response which means page exists)
       if (headResponse.ok || headResponse.status === 999) {
@@ -481,12 +786,11 @@ If you're not confident about the domain, return null.`,
 
       // If HEAD fails, try GET (some sites block HEAD)
       if (headResponse.status === 405 || headResponse.status === 403) {
-        const getResponse = await fetch(url, {
+        const getResponse = await httpFetch(url, {
           method: 'GET',
           headers: { 'User-Agent': 'Mozilla/5.0' },
-          signal: AbortSignal.timeout(5000),
           redirect: 'follow',
-        });
+        }, { timeoutMs: 5000 });
 
         return getResponse.ok;
       }
@@ -499,23 +803,23 @@ If you're not confident about the domain, return null.`,
   }
 
   /**
-   * Fetch and parse company website
+   * Fetch and parse company website, keeping the response headers and cookies for tech detection
    */
-  private async fetchWebsite(domain: string): Promise<{ text: string; html: string }> {
+  private async fetchWebsite(domain: string): Promise<{ text: string; html: string; headers?: Record<string, string>; cookies?: Record<string, string> }> {
     try {
       const url = domain.startsWith('http') ? domain : `https://${domain}`;
-      const response = await fetch(url, {
+      const response = await httpFetch(url, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (compatible; CompanyEnrichment/1.0)',
         },
-        signal: AbortSignal.timeout(10000), // 10 second timeout
-      });
+      }, { timeoutMs: 10000, cache: 'website' });
 
       if (!response.ok) {
         console.log(`    ✗ Website fetch failed: ${response.status}`);
         return { text: '', html: '' };
       }
 
+      const { headers, cookies } = responseSignals(response);
       const html = await response.text();
 
       // Extract text content from HTML (simple version)
@@ -530,6 +834,8 @@ If you're not confident about the domain, return null.`,
       return {
         text: text.substring(0, 10000), // Limit to 10k chars
         html: html.substring(0, 50000), // Keep more HTML for link extraction
+        headers,
+        cookies,
       };
     } catch (error) {
       console.log(`    ✗ Website fetch error: ${error instanceof Error ? error.message : 'Unknown'}`);
@@ -554,31 +860,30 @@ If you're not confident about the domain, return null.`,
   /**
    * Search Crunchbase for company data
    */
-  private async searchCrunchbase(companyName: string): Promise<string> {
+  private async searchCrunchbase(companyName: string): Promise<{ html: string; url: string }> {
     // In production, you'd use Crunchbase API
     // For now, we'll try to fetch from their public pages
     try {
       const slug = companyName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
       const url = `https://www.crunchbase.com/organization/${slug}`;
 
-      const response = await fetch(url, {
+      const response = await httpFetch(url, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (compatible; CompanyEnrichment/1.0)',
         },
-        signal: AbortSignal.timeout(10000),
-      });
+      }, { timeoutMs: 10000, cache: 'crunchbase' });
 
       if (response.ok) {
         const html = await response.text();
         console.log(`    ✓ Crunchbase data fetched`);
-        return html.substring(0, 15000);
+        return { html: html.substring(0, 15000), url };
       } else {
         console.log(`    ✗ Crunchbase not found`);
-        return '';
+        return { html: '', url };
       }
     } catch (error) {
       console.log(`    ✗ Crunchbase error`);
-      return '';
+      return { html: '', url: '' };
     }
   }
 
@@ -587,18 +892,29 @@ If you're not confident about the domain, return null.`,
    */
   private async extractWithAI(
     input: CompanyEnrichmentInput,
-    websiteContent: string,
-    linkedinContent: string,
-    crunchbaseData: string,
+    context: EnrichmentContext,
     sources: string[],
-    githubData: any = null,
-    hiringData: any = null,
-    techStack: any = null,
-    socialLinks: { twitter?: string; linkedin?: string; github?: string } = {},
-    mobileAppData: any = null,
-    headcountData: any = null
+    usage: UsageTracker
   ): Promise<CompanyEnrichmentData> {
-    const schema = z.object({
+    const {
+      websiteContent = '',
+      linkedinContent = '',
+      crunchbaseData = '',
+      githubData,
+      hiringData,
+      techStack,
+      socialLinks = {},
+      mobileAppData,
+      headcountData,
+    } = context;
+
+    const citationsSchema = z.array(z.object({
+      field: z.string(),
+      source: z.enum(['website', 'linkedin', 'crunchbase', 'model_knowledge']),
+      quote: z.string().optional(),
+    })).optional();
+
+    const extractionSchema = z.object({
       name: z.string(),
       domain: z.string(),
       description: z.string(),
@@ -624,6 +940,10 @@ If you're not confident about the domain, return null.`,
       linkedinUrl: z.string().optional(),
       twitterUrl: z.string().optional(),
       twitterHandle: z.string().optional(),
+      citations: citationsSchema,
+    });
+
+    const insightsSchema = z.object({
       growthStage: z.string().optional(),
       recentNews: z.array(z.string()).optional(),
       productDescription: z.string().optional(),
@@ -640,11 +960,10 @@ If you're not confident about the domain, return null.`,
         date: z.string().optional(),
         impact: z.string().optional(),
       })).optional(),
+      citations: citationsSchema,
     });
 
-    const prompt = `
-You are a company data enrichment AI. Extract as much accurate information as possible about this company.
-
+    const sourceContent = `
 INPUT:
 ${input.companyName ? `Company Name: ${input.companyName}` : ''}
 ${input.domain ? `Domain: ${input.domain}` : ''}
@@ -658,7 +977,16 @@ ${linkedinContent || 'Not available'}
 
 CRUNCHBASE DATA:
 ${crunchbaseData || 'Not available'}
+`.trim();
+
+    const citationRules = `
+CITATIONS - For every field you populate, add an entry to citations:
+- field: the field name exactly as above (e.g. "founded", "ceoName", "totalFundingRaised")
+- source: "website", "linkedin" or "crunchbase" for the section it came from, or "model_knowledge" if it came from your own knowledge rather than the content provided
+- quote: a short verbatim excerpt (under 200 characters) from that section supporting the value; omit for model_knowledge
+`.trim();
 
+    const extractionInstructions = `
 Extract all relevant company information including:
 - Company name, description, founding year
 - Employee count (look for "team of X" or similar phrases)
@@ -668,9 +996,18 @@ Extract all relevant company information including:
 - Leadership (CEO, founders)
 - Social media links (LinkedIn, Twitter/X - extract the handle like "@company")
 - Open positions (look for "we're hiring" or careers page mentions)
-- Recent news or product updates
 
-SALES INTELLIGENCE - Extract the following if available:
+IMPORTANT for Twitter/X:
+- If you find a Twitter/X link, extract it as twitterUrl
+- Also extract just the handle (without @) as twitterHandle
+- Look for links like twitter.com/company or x.com/company
+`.trim();
+
+    const insightsInstructions = `
+Extract the following if available:
+- growthStage: "Early Stage", "Growth", "Late Stage" or "Public"
+- recentNews: Recent news or product updates
+- productDescription: What the product does and how it differs from alternatives
 - recentProductLaunches: Recent product launches or feature announcements (last 6 months)
 - recentAcquisitions: Companies they've acquired (include date, amount if known, and description)
 - competitorMoves: Recent moves by their competitors that might create sales opportunities
@@ -679,21 +1016,36 @@ SALES INTELLIGENCE - Extract the following if available:
     - event: What happened (e.g., "raised $50M Series B", "launched new AI product", "acquired DataCorp")
     - date: When it happened (if available)
     - impact: Why this matters for sales (e.g., "competitor momentum may pressure prospect to evaluate alternatives")
+`.trim();
 
-IMPORTANT for Twitter/X:
-- If you find a Twitter/X link, extract it as twitterUrl
-- Also extract just the handle (without @) as twitterHandle
-- Look for links like twitter.com/company or x.com/company
-
+    const accuracyRules = `
 Be accurate - only include information you can verify from the content provided.
 If information is not available, omit the field.
 `.trim();
 
-    const { object } = await generateObject({
-      model: this.model,
-      schema,
-      prompt,
-    });
+    const extractionIntro = 'You are a company data enrichment AI. Extract as much accurate information as possible about this company.';
+    const insightsIntro = "You are a sales intelligence analyst. Summarize this company's momentum for a sales team.";
+
+    // Firmographics and sales insights can run on different models, so they're separate calls then;
+    // on the same model one call covers both and the source content is only sent once
+    const combinedSchema = extractionSchema.merge(insightsSchema);
+    const extractionModel = this.models.spec('extraction');
+    const insightsModel = this.models.spec('insights');
+    let object: z.infer<typeof combinedSchema>;
+    if (extractionModel.provider === insightsModel.provider && extractionModel.modelId === insightsModel.modelId) {
+      const prompt = [extractionIntro, sourceContent, extractionInstructions, `SALES INTELLIGENCE - ${insightsInstructions}`, citationRules, accuracyRules].join('\n\n');
+      object = await this.generate('extraction', combinedSchema, usage, prompt);
+    } else {
+      const [extracted, insights] = await Promise.all([
+        this.generate('extraction', extractionSchema, usage, [extractionIntro, sourceContent, extractionInstructions, citationRules, accuracyRules].join('\n\n')),
+        this.generate('insights', insightsSchema, usage, [insightsIntro, sourceContent, insightsInstructions, citationRules, accuracyRules].join('\n\n')),
+      ]);
+      object = {
+        ...extracted,
+        ...insights,
+        citations: [...(extracted.citations || []), ...(insights.citations || [])],
+      };
+    }
 
     // Build the enriched data structure
     const enrichedData: CompanyEnrichmentData = {
@@ -781,6 +1133,11 @@ If information is not available, omit the field.
         jobListings: hiringData.jobListings.slice(0, 10), // Top 10 jobs
         departmentHiring: hiringData.departmentHiring,
         topSkillsHiring: hiringData.topSkillsHiring,
+        salaryBands: hiringData.salaryBands,
+        seniorityMix: hiringData.seniorityMix,
+        geography: hiringData.geography,
+        hiringVelocity: hiringData.hiringVelocity,
+        trends: hiringData.trends,
       };
     }
 
@@ -798,11 +1155,27 @@ If information is not available, omit the field.
         customerSupport: techStack.customerSupport.map((t: any) => t.name),
         cdnProviders: techStack.cdnProviders.map((t: any) => t.name),
         authProviders: techStack.authProviders.map((t: any) => t.name),
-        allTechnologies: techStack.allTechnologies.slice(0, 30).map((t: any) => ({
+        emailProviders: techStack.emailProviders.map(t => t.name),
+        emailDelivery: techStack.emailDelivery.map(t => t.name),
+        dnsProviders: techStack.dnsProviders.map(t => t.name),
+        statusPages: techStack.statusPages.map(t => t.name),
+        docsPlatforms: techStack.docsPlatforms.map(t => t.name),
+        allTechnologies: techStack.allTechnologies.slice(0, 30).map(t => ({
           name: t.name,
           category: t.category,
           confidence: t.confidence,
+          version: t.version,
+          evidence: t.evidence,
+        })),
+        outdatedTechnologies: techStack.outdated.map(t => ({
+          name: t.name,
+          version: t.version,
+          cycle: t.endOfLife.cycle,
+          eol: t.endOfLife.eol,
         })),
+        endpoints: techStack.endpoints,
+        securityHeaders: techStack.securityHeaders,
+        thirdPartyHosts: techStack.thirdPartyHosts,
       };
     }
 
@@ -826,38 +1199,223 @@ If information is not available, omit the field.
       };
     }
 
+    enrichedData.provenance = this.buildProvenance(enrichedData, object.citations || [], input, context);
+
     return enrichedData;
   }
 
+  /**
+   * Attach provenance to each populated field: deterministic sources first,
+   * then the model's own citations for fields only the model filled in
+   */
+  private buildProvenance(
+    data: CompanyEnrichmentData,
+    citations: Array<{ field: string; source: 'website' | 'linkedin' | 'crunchbase' | 'model_knowledge'; quote?: string }>,
+    input: CompanyEnrichmentInput,
+    context: EnrichmentContext
+  ): Record<string, FieldProvenance[]> {
+    const tracker = new ProvenanceTracker();
+    const { websiteUrl, socialLinks = {}, headcountData, githubData, hiringData } = context;
+
+    if (headcountData?.totalEmployees && data.employeeCount === headcountData.totalEmployees) {
+      tracker.add('employeeCount', { sourceId: 'linkedin_headcount', url: socialLinks.linkedin, snippet: `${headcountData.totalEmployees} employees`, method: 'regex' });
+    }
+    if (headcountData?.engineeringCount) {
+      tracker.add('engineeringCount', { sourceId: 'linkedin_headcount', url: socialLinks.linkedin, snippet: `~${headcountData.engineeringCount} engineers (${headcountData.confidence} confidence)`, method: 'regex' });
+    }
+
+    const socialFields = { linkedinUrl: socialLinks.linkedin, twitterUrl: socialLinks.twitter, githubUrl: socialLinks.github };
+    for (const [field, link] of Object.entries(socialFields)) {
+      if (link) tracker.add(field, { sourceId: 'company_website', url: websiteUrl, snippet: link, method: 'regex' });
+    }
+
+    if (githubData?.organization) {
+      const apiUrl = `https://api.github.com/orgs/${githubData.organization.login}`;
+      tracker.add('githubUrl', { sourceId: 'github', url: apiUrl, method: 'api' });
+      tracker.add('githubActivity', { sourceId: 'github', url: apiUrl, snippet: `${githubData.repositories.length} repos, ${githubData.totalStars} stars`, method: 'api' });
+    }
+
+    if (hiringData && hiringData.openPositions > 0) {
+      const boardUrls = [...new Set(hiringData.jobListings.map(j => j.url))].slice(0, 3);
+      for (const url of boardUrls) {
+        tracker.add('hiring', { sourceId: 'job_boards', url, method: 'regex' });
+        tracker.add('openPositions', { sourceId: 'job_boards', url, snippet: `${hiringData.openPositions} open positions`, method: 'regex' });
+      }
+    }
+
+    if (data.technographic) tracker.add('technographic', { sourceId: 'tech_detection', url: websiteUrl, method: 'regex' });
+    if (data.mobileApps) tracker.add('mobileApps', { sourceId: 'mobile_app_detection', url: websiteUrl, method: 'regex' });
+
+    const citationSources = {
+      website: { sourceId: 'company_website', url: websiteUrl },
+      linkedin: { sourceId: 'linkedin', url: input.linkedinUrl || socialLinks.linkedin },
+      crunchbase: { sourceId: 'crunchbase', url: context.crunchbaseUrl },
+      model_knowledge: { sourceId: 'model_knowledge', url: undefined },
+    };
+
+    const deterministicFields = new Set(['employeeCount', 'engineeringCount', 'linkedinUrl', 'twitterUrl', 'githubUrl', 'githubActivity', 'hiring', 'openPositions']);
+    for (const citation of citations) {
+      const field = LLM_FIELD_PATHS[citation.field] || citation.field;
+      if (deterministicFields.has(field) && tracker.has(field)) continue;
+      const { sourceId, url } = citationSources[citation.source];
+      tracker.add(field, {
+        sourceId,
+        url,
+        snippet: citation.source === 'model_knowledge' ? undefined : citation.quote,
+        method: 'llm',
+      });
+    }
+
+    tracker.retain(field => isPopulated(getFieldValue(data, field)));
+    return tracker.toJSON();
+  }
+
+  /**
+   * Structured generation through the rate limiter and the LLM response cache
+   */
+  private async generate<T>(task: ModelTask, schema: z.ZodType<T, z.ZodTypeDef, unknown>, usage: UsageTracker, prompt: string): Promise<T> {
+    const model = this.models.model(task);
+    const { provider } = this.models.spec(task);
+    const rateLimitKey = this.models.rateLimitKey(task);
+    const startedAt = Date.now();
+    const spent = { called: false, inputTokens: 0, outputTokens: 0 };
+    // Captured here: the call itself may run from the rate limiter's queue, outside the caller's abort scope
+    const abortSignal = currentAbortSignal();
+
+    const call = async () => {
+      const result = await generateObject({ model, schema, prompt, abortSignal });
+      spent.called = true;
+      spent.inputTokens = result.usage.promptTokens || 0;
+      spent.outputTokens = result.usage.completionTokens || 0;
+      return result.object;
+    };
+
+    // Mock responses are deterministic and free, so they skip the rate limiter and cache
+    const keyParts = ['generateObject', `${model.provider}:${model.modelId}`, prompt, zodSchema(schema).jsonSchema];
+    const object = rateLimitKey
+      ? await responseCache.wrap('llm', keyParts, () => withRateLimit(rateLimitKey, call))
+      : await call();
+
+    usage.record({
+      task,
+      provider,
+      model: model.modelId,
+      inputTokens: spent.inputTokens,
+      outputTokens: spent.outputTokens,
+      latencyMs: Date.now() - startedAt,
+      cached: !spent.called,
+    });
+    return object;
+  }
+
   /**
    * Calculate confidence score based on data sources and completeness
    */
   private calculateConfidence(data: CompanyEnrichmentData, sources: string[]): number {
     let score = 0;
+    const unsupported = data.verification?.unsupported || [];
+    const verified = (field: string) => !unsupported.some(c => c.field === field || c.field.startsWith(`${field}.`));
 
     // Base score from number of sources
     score += sources.length * 20; // 20 points per source
 
-    // Points for key fields
-    if (data.employeeCount) score += 10;
-    if (data.totalFundingRaised) score += 10;
-    if (data.headquarters.city) score += 5;
-    if (data.founded) score += 5;
-    if (data.latestFundingRound) score += 10;
-    if (data.ceo) score += 5;
+    // Points for key fields, only when they weren't flagged as unsupported
+    if (data.employeeCount && verified('employeeCount')) score += 10;
+    if (data.totalFundingRaised && verified('totalFundingRaised')) score += 10;
+    if (data.headquarters.city && verified('headquarters')) score += 5;
+    if (data.founded && verified('founded')) score += 5;
+    if (data.latestFundingRound && verified('latestFundingRound')) score += 10;
+    if (data.ceo && verified('ceo')) score += 5;
 
-    return Math.min(score, 100);
+    // Penalty for each unsupported fact the model produced
+    score -= unsupported.length * 5;
+
+    return Math.max(0, Math.min(score, 100));
   }
 
   /**
-   * Batch enrich multiple companies
+   * Batch enrich multiple companies through a bounded worker pool.
+   * Outbound calls are additionally throttled per host/provider by the shared rate limiter.
    */
-  async enrichBatch(inputs: CompanyEnrichmentInput[]): Promise<EnrichmentResult[]> {
-    Sentry.logger.info('Batch enriching %s companies', [inputs.length]);
-    console.log(`Batch enriching ${inputs.length} companies...`);
-    const results = await Promise.all(
-      inputs.map(input => this.enrichCompany(input))
-    );
+  async enrichBatch(inputs: CompanyEnrichmentInput[], options: BatchOptions = {}): Promise<EnrichmentResult[]> {
+    const concurrency = Math.max(1, options.concurrency || parseInt(process.env.ENRICH_CONCURRENCY || '', 10) || DEFAULT_BATCH_CONCURRENCY);
+    Sentry.logger.info('Batch enriching %s companies', [inputs.length], { concurrency });
+    console.log(`Batch enriching ${inputs.length} companies (${concurrency} at a time)...`);
+
+    const results: EnrichmentResult[] = new Array(inputs.length);
+    let nextIndex = 0;
+
+    // Budget check projects the average cost so far onto every company in flight plus the next one.
+    // Until one company has finished there is no average to project, so with a budget the first runs alone.
+    const budgetUSD = options.budgetUSD ?? (parseFloat(process.env.BUDGET_USD || '') || undefined);
+    let spentUSD = 0;
+    let finished = 0;
+    let running = 0;
+    let skipped = 0;
+    let budgetReached = false;
+    const overBudget = () => {
+      if (budgetUSD === undefined) return false;
+      const average = finished > 0 ? spentUSD / finished : 0;
+      return spentUSD + average * (running + 1) > budgetUSD;
+    };
+    let firstSettled!: () => void;
+    const first = new Promise<void>(resolve => { firstSettled = resolve; });
+
+    const companyOf = (input: CompanyEnrichmentInput) => input.companyName || input.domain || input.linkedinUrl || 'unknown';
+
+    this.emit(options, { type: 'batch_started', timestamp: Date.now(), total: inputs.length, concurrency });
+    inputs.forEach((input, index) => this.emit(options, { type: 'company_queued', timestamp: Date.now(), index, company: companyOf(input) }));
+
+    const runOne = async (index: number) => {
+      if (options.signal?.aborted) {
+        results[index] = { success: false, error: CANCELLED, confidence: 0, processingTimeMs: 0 };
+        skipped++;
+        this.emit(options, { type: 'company_skipped', timestamp: Date.now(), index, company: companyOf(inputs[index]), reason: CANCELLED });
+        return;
+      }
+      if (overBudget()) {
+        if (!budgetReached) {
+          budgetReached = true;
+          console.log(`  ⓘ Budget of ${formatUSD(budgetUSD!)} reached (${formatUSD(spentUSD)} spent), skipping remaining companies`);
+        }
+        const reason = `Skipped: batch budget of ${formatUSD(budgetUSD!)} reached`;
+        results[index] = { success: false, error: reason, confidence: 0, processingTimeMs: 0 };
+        skipped++;
+        this.emit(options, { type: 'company_skipped', timestamp: Date.now(), index, company: companyOf(inputs[index]), reason });
+        return;
+      }
+
+      running++;
+      results[index] = await this.runCompany(inputs[index], options, index, inputs.length - nextIndex);
+      running--;
+      finished++;
+      spentUSD += results[index].usage?.costUSD || 0;
+    };
+
+    const worker = async () => {
+      while (nextIndex < inputs.length) {
+        const index = nextIndex++;
+        if (budgetUSD !== undefined && index > 0) await first;
+        try {
+          await runOne(index);
+        } finally {
+          if (index === 0) firstSettled();
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, inputs.length) }, worker));
+
+    const succeeded = results.filter(r => r.success).length;
+    this.emit(options, {
+      type: 'batch_finished',
+      timestamp: Date.now(),
+      total: inputs.length,
+      succeeded,
+      failed: inputs.length - succeeded - skipped,
+      skipped,
+      costUSD: spentUSD,
+    });
     return results;
   }
 }
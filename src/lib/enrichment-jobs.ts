@@ -0,0 +1,153 @@
+/**
+ * Enrichment Jobs
+ * Runs batches in the background so the HTTP request that submits them can return immediately.
+ * Progress is written to the job store as each company finishes and published on the progress
+ * bus under the job id; unfinished jobs pick up where they left off on the next start.
+ */
+
+import * as Sentry from '@sentry/node';
+import { randomUUID } from 'crypto';
+import { CompanyEnrichmentInput, EnrichmentEvent } from '../types/enrichment.js';
+import { CompanyEnrichmentEngine } from './enrichment-engine.js';
+import { ResultStore } from './result-store.js';
+import { EnrichmentJob, JobItem, JobOptions, JobStore, isFinished } from './job-store.js';
+import { progressBus } from './progress-bus.js';
+import { formatUSD } from './usage-tracker.js';
+
+export class EnrichmentJobManager {
+  private running = new Map<string, AbortController>();
+
+  constructor(private jobs: JobStore, private store: ResultStore) {}
+
+  /**
+   * Persist a job and start it in the background. Returns the queued job.
+   */
+  submit(inputs: CompanyEnrichmentInput[], options: JobOptions = {}): EnrichmentJob {
+    const job = this.jobs.createJob(randomUUID(), inputs, options);
+    void this.run(job);
+    return job;
+  }
+
+  get(id: string): EnrichmentJob | null {
+    return this.jobs.getJob(id);
+  }
+
+  list(limit?: number): EnrichmentJob[] {
+    return this.jobs.listJobs(limit);
+  }
+
+  items(id: string): JobItem[] {
+    return this.jobs.listItems(id);
+  }
+
+  /**
+   * Stop a job: companies not started yet are cancelled and in-flight fetches and LLM calls are aborted.
+   * Returns null if there is no such job; finished jobs are returned unchanged.
+   */
+  cancel(id: string): EnrichmentJob | null {
+    const job = this.jobs.getJob(id);
+    if (!job || isFinished(job.status)) return job;
+
+    const controller = this.running.get(id);
+    if (controller) {
+      // The run settles the remaining items and the job status once in-flight companies wind down
+      controller.abort();
+    } else {
+      this.jobs.settlePendingItems(id, 'cancelled', 'Cancelled');
+      this.jobs.setJobStatus(id, 'cancelled');
+    }
+
+    console.log(`Job ${id} cancelled`);
+    return this.jobs.getJob(id);
+  }
+
+  /**
+   * Restart jobs left queued or running by a previous process. Finished companies are not redone.
+   */
+  resumeUnfinished(): number {
+    const unfinished = this.jobs.listUnfinishedJobs();
+    for (const job of unfinished) {
+      console.log(`Resuming job ${job.id} (${job.progress.total - job.progress.queued - job.progress.running}/${job.progress.total} done)`);
+      void this.run(job);
+    }
+    return unfinished.length;
+  }
+
+  private async run(job: EnrichmentJob): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+
+    // Companies interrupted mid-run by a restart are enriched again from scratch
+    const pending = this.jobs.listItems(job.id).filter(item => item.status === 'queued' || item.status === 'running');
+    const { sources, verify, concurrency, budgetUSD, deepJobs } = job.options;
+
+    // A resumed job only has what's left of its budget
+    const remainingUSD = budgetUSD !== undefined ? budgetUSD - job.costUSD : undefined;
+
+    this.jobs.setJobStatus(job.id, 'running');
+    try {
+      if (remainingUSD !== undefined && remainingUSD <= 0) {
+        this.jobs.settlePendingItems(job.id, 'skipped', `Skipped: batch budget of ${formatUSD(budgetUSD!)} reached`);
+        this.jobs.setJobStatus(job.id, 'completed');
+        return;
+      }
+
+      const engine = new CompanyEnrichmentEngine({ store: this.store, verification: verify, deepJobs });
+      await engine.enrichBatch(pending.map(item => item.input), {
+        sources,
+        concurrency,
+        budgetUSD: remainingUSD,
+        signal: controller.signal,
+        onEvent: event => {
+          // Report positions within the whole job, not the resumed remainder
+          const mapped = 'index' in event ? { ...event, index: pending[event.index].index } : event;
+          this.record(job.id, mapped, controller.signal);
+          progressBus.publish(job.id, mapped);
+        },
+      });
+
+      if (controller.signal.aborted) {
+        this.jobs.settlePendingItems(job.id, 'cancelled', 'Cancelled');
+        this.jobs.setJobStatus(job.id, 'cancelled');
+      } else {
+        this.jobs.setJobStatus(job.id, 'completed');
+      }
+    } catch (error) {
+      console.error(`Job ${job.id} failed:`, error);
+      Sentry.captureException(error);
+      this.jobs.setJobStatus(job.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      this.running.delete(job.id);
+      progressBus.close(job.id);
+    }
+  }
+
+  /**
+   * Persist a company's state as its events arrive, so polling and resuming see it right away
+   */
+  private record(jobId: string, event: EnrichmentEvent, signal: AbortSignal): void {
+    try {
+      switch (event.type) {
+        case 'company_started':
+          this.jobs.updateItem(jobId, event.index, { status: 'running' });
+          break;
+        case 'company_finished':
+          this.jobs.updateItem(jobId, event.index, {
+            status: event.success ? 'completed' : signal.aborted ? 'cancelled' : 'failed',
+            runId: event.runId,
+            confidence: event.confidence,
+            processingTimeMs: event.processingTimeMs,
+            costUSD: event.costUSD,
+            error: event.error,
+          });
+          break;
+        case 'company_skipped':
+          this.jobs.updateItem(jobId, event.index, { status: signal.aborted ? 'cancelled' : 'skipped', error: event.reason });
+          break;
+      }
+    } catch (error) {
+      console.log(`    ✗ Could not save job progress: ${error instanceof Error ? error.message : 'Unknown'}`);
+      Sentry.captureException(error);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * End-of-Life Catalog
+ * Release lines of common technologies and when each stopped getting security fixes, from
+ * fingerprints/eol.json, for flagging detected versions that are past end of life
+ */
+
+import fs from 'fs';
+
+// A release line such as "7.4" (every 7.4.x) or "1" (every 1.x)
+export interface ReleaseCycle {
+  cycle: string;
+  eol: string | boolean; // ISO date support ended or ends, true when ended on an unknown date, false while supported
+}
+
+export interface EolCatalogFile {
+  version?: number;
+  technologies: Record<string, ReleaseCycle[]>; // Keyed by fingerprint technology name
+}
+
+export interface EndOfLife {
+  cycle: string; // The matching release line, or "<oldest" for versions older than any listed
+  eol?: string;  // When support ended, when known
+}
+
+const BUILT_IN_PATH = new URL('../../fingerprints/eol.json', import.meta.url);
+
+function parts(version: string): number[] {
+  return version.split('.').map(part => parseInt(part, 10));
+}
+
+// Whether a version is in a release line: "7.4.33" is in "7.4" and "7", not in "7.40"
+function inCycle(version: string, cycle: string): boolean {
+  const v = parts(version);
+  return parts(cycle).every((part, i) => v[i] === part);
+}
+
+function compareVersions(a: string, b: string): number {
+  const [x, y] = [parts(a), parts(b)];
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    const diff = (x[i] || 0) - (y[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export class EolCatalog {
+  private technologies = new Map<string, ReleaseCycle[]>();
+
+  constructor(file: EolCatalogFile) {
+    if (!file || typeof file.technologies !== 'object' || Array.isArray(file.technologies)) {
+      throw new Error('EOL catalog must have a "technologies" object');
+    }
+    for (const [name, cycles] of Object.entries(file.technologies)) {
+      if (!Array.isArray(cycles) || cycles.some(c => !/^\d+(?:\.\d+)*$/.test(c?.cycle) || (typeof c.eol !== 'string' && typeof c.eol !== 'boolean'))) {
+        throw new Error(`EOL catalog entry for ${name} must be a list of { "cycle": "1.2", "eol": "2024-01-31" | true | false }`);
+      }
+      this.technologies.set(name, cycles);
+    }
+  }
+
+  static load(): EolCatalog {
+    try {
+      return new EolCatalog(JSON.parse(fs.readFileSync(BUILT_IN_PATH, 'utf-8')));
+    } catch (error) {
+      throw new Error(`Could not read fingerprints/eol.json: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * The end of life a version has reached by `now`, or undefined while it is supported or not in
+   * the catalog. The most specific matching release line decides; a version older than every
+   * listed line is past end of life once the oldest of them is.
+   */
+  check(name: string, version: string, now = new Date()): EndOfLife | undefined {
+    const cycles = this.technologies.get(name);
+    if (!cycles || cycles.length === 0 || !/^\d/.test(version)) return undefined;
+
+    const matching = cycles
+      .filter(c => inCycle(version, c.cycle))
+      .sort((a, b) => b.cycle.split('.').length - a.cycle.split('.').length)[0];
+    const oldest = [...cycles].sort((a, b) => compareVersions(a.cycle, b.cycle))[0];
+    if (!matching && compareVersions(version, oldest.cycle) >= 0) return undefined;
+
+    const release = matching || oldest;
+    const cycle = matching ? matching.cycle : `<${oldest.cycle}`;
+    if (release.eol === false) return undefined;
+    if (release.eol === true) return { cycle };
+    return new Date(release.eol) <= now ? { cycle, eol: release.eol } : undefined;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Fact Verifier
+ * Checks LLM-extracted values against the source text that was actually fetched,
+ * so facts Claude filled in from memory can be flagged or dropped
+ */
+
+import { CompanyEnrichmentData, FactCheck, FactVerification, VerificationStrictness } from '../types/enrichment.js';
+
+export type SourceText = Partial<Record<NonNullable<FactCheck['source']>, string>>;
+
+const STRICTNESS_LEVELS: VerificationStrictness[] = ['off', 'flag', 'drop'];
+
+const MONEY_UNITS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mm: 1e6, mn: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+};
+
+const MONEY_PATTERN = /([$€£]\s?)?(\d+(?:[.,]\d+)*)\s?(k|mm|mn|m|bn|b|thousand|million|billion)?\b/gi;
+
+export function parseStrictness(value: string | undefined): VerificationStrictness | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return STRICTNESS_LEVELS.find(level => level === normalized);
+}
+
+/**
+ * Parse an amount like "$8.7B", "€120 million" or "$1,500,000" into a number.
+ * Bare numbers without a currency symbol or unit are ignored.
+ */
+export function parseMoney(value: string): number | undefined {
+  MONEY_PATTERN.lastIndex = 0;
+  const match = MONEY_PATTERN.exec(value);
+  if (!match || (!match[1] && !match[3])) return undefined;
+  const amount = parseFloat(match[2].replace(/,/g, ''));
+  if (isNaN(amount)) return undefined;
+  return amount * (match[3] ? MONEY_UNITS[match[3].toLowerCase()] : 1);
+}
+
+function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9$€£.,\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export class FactVerifier {
+  readonly strictness: VerificationStrictness;
+
+  constructor(strictness?: VerificationStrictness) {
+    this.strictness = strictness ?? parseStrictness(process.env.VERIFY_STRICTNESS) ?? 'flag';
+  }
+
+  /**
+   * Verify the model-extracted fields of a profile. With "drop", unsupported values
+   * are removed from the profile (and its provenance) in place.
+   */
+  verify(data: CompanyEnrichmentData, text: SourceText): FactVerification | undefined {
+    if (this.strictness === 'off') return undefined;
+
+    const sources = Object.entries(text)
+      .filter(([, content]) => content)
+      .map(([source, content]) => ({ source: source as FactCheck['source'], raw: content!, normalized: normalizeText(content!) }));
+
+    const checks: FactCheck[] = [];
+    const check = (field: string, value: string, matcher: (raw: string, normalized: string) => boolean): boolean => {
+      const found = sources.find(s => matcher(s.raw, s.normalized));
+      const result: FactCheck = { field, value, supported: !!found, source: found?.source };
+      checks.push(result);
+      return result.supported;
+    };
+    const phrase = (field: string, value: string) => check(field, value, (_, normalized) => this.containsPhrase(normalized, value));
+    const money = (field: string, value: string) => check(field, value, (raw, normalized) => this.containsMoney(raw, value) || this.containsPhrase(normalized, value));
+    const number = (field: string, value: number) => check(field, String(value), raw => this.containsNumber(raw, value));
+
+    const drop = this.strictness === 'drop';
+
+    if (data.founded && this.isModelExtracted(data, 'founded') && !number('founded', data.founded) && drop) {
+      data.founded = undefined;
+    }
+    if (data.employeeCount && this.isModelExtracted(data, 'employeeCount') && !number('employeeCount', data.employeeCount) && drop) {
+      data.employeeCount = undefined;
+      data.employeeCountRange = undefined;
+    }
+    if (data.headquarters.city && this.isModelExtracted(data, 'headquarters') && !phrase('headquarters.city', data.headquarters.city) && drop) {
+      data.headquarters = {};
+    }
+    if (data.totalFundingRaised && this.isModelExtracted(data, 'totalFundingRaised') && !money('totalFundingRaised', data.totalFundingRaised) && drop) {
+      data.totalFundingRaised = undefined;
+    }
+    if (data.currentValuation && this.isModelExtracted(data, 'currentValuation') && !money('currentValuation', data.currentValuation) && drop) {
+      data.currentValuation = undefined;
+    }
+    if (data.latestFundingRound && this.isModelExtracted(data, 'latestFundingRound')) {
+      const round = data.latestFundingRound;
+      const typeOk = phrase('latestFundingRound.roundType', round.roundType);
+      const amountOk = round.amount === 'Unknown' || money('latestFundingRound.amount', round.amount);
+      if ((!typeOk || !amountOk) && drop) data.latestFundingRound = undefined;
+    }
+    if (data.ceo && this.isModelExtracted(data, 'ceo') && !phrase('ceo.name', data.ceo.name) && drop) {
+      data.ceo = undefined;
+    }
+    if (data.founders && this.isModelExtracted(data, 'founders')) {
+      const kept = data.founders.filter(f => phrase('founders', f.name) || !drop);
+      data.founders = kept.length > 0 ? kept : undefined;
+    }
+
+    const insights = data.aiInsights;
+    if (insights?.recentAcquisitions && this.isModelExtracted(data, 'aiInsights.recentAcquisitions')) {
+      insights.recentAcquisitions = insights.recentAcquisitions.filter(a => phrase('aiInsights.recentAcquisitions', a.companyAcquired) || !drop);
+    }
+    if (insights?.competitorMoves && this.isModelExtracted(data, 'aiInsights.competitorMoves')) {
+      insights.competitorMoves = insights.competitorMoves.filter(m => phrase('aiInsights.competitorMoves', m.competitor) || !drop);
+    }
+
+    const unsupported = checks.filter(c => !c.supported);
+    if (drop && data.provenance) {
+      for (const field of Object.keys(data.provenance)) {
+        if (!this.isPopulated(data, field)) delete data.provenance[field];
+      }
+    }
+
+    return {
+      strictness: this.strictness,
+      checked: checks.length,
+      supported: checks.length - unsupported.length,
+      unsupported,
+    };
+  }
+
+  /**
+   * Fields backed by a regex or API source were read from fetched data directly and need no check
+   */
+  private isModelExtracted(data: CompanyEnrichmentData, field: string): boolean {
+    const entries = Object.entries(data.provenance || {})
+      .filter(([path]) => path === field || path.startsWith(`${field}.`))
+      .flatMap(([, list]) => list);
+    return entries.every(entry => entry.method === 'llm');
+  }
+
+  private isPopulated(data: CompanyEnrichmentData, field: string): boolean {
+    const value = field.split('.').reduce<unknown>((current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined), data);
+    return value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0);
+  }
+
+  private containsPhrase(normalizedText: string, value: string): boolean {
+    const needle = normalizeText(value);
+    if (!needle) return false;
+    const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(normalizedText);
+  }
+
+  private containsNumber(rawText: string, value: number): boolean {
+    const variants = new Set([String(value), value.toLocaleString('en-US')]);
+    return [...variants].some(variant => new RegExp(`(^|[^\\d.,])${variant.replace(/[.,]/g, '\\$&')}($|[^\\d])`).test(rawText));
+  }
+
+  /**
+   * Money matches when any amount in the text is within 1% of the claimed amount,
+   * so "$8.7B", "$8.7 billion" and "$8,700,000,000" all support each other
+   */
+  private containsMoney(rawText: string, value: string): boolean {
+    const target = parseMoney(value);
+    if (!target) return false;
+
+    for (const match of rawText.matchAll(MONEY_PATTERN)) {
+      const amount = parseMoney(match[0]);
+      if (amount && Math.abs(amount - target) / target < 0.01) return true;
+    }
+    return false;
+  }
+}
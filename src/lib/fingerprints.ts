@@ -0,0 +1,335 @@
+/**
+ * Technology Fingerprints
+ * Declarative, Wappalyzer-style rules for recognising technologies from a page's script sources,
+ * HTML, meta tags, response headers, cookies, inline JavaScript globals and URL, from the domain's
+ * DNS records, and from well-known files such as robots.txt, along with any versions they expose.
+ * Rules also list the domains a vendor serves from, to name the owners of third-party hosts.
+ * The built-in rules live in fingerprints/technologies.json; FINGERPRINTS_PATH adds rule files of
+ * the same shape.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { DnsRecords } from './dns-resolver.js';
+
+// Patterns are case-insensitive regexes with optional Wappalyzer tags, e.g. "js\\.stripe\\.com/\\;confidence:50"
+// or "/jquery-(\\d+(?:\\.\\d+)+)\\.js\\;version:\\1"
+export interface TechnologyRule {
+  category: string;
+  website?: string;
+  scriptSrc?: string[];              // Matched against each <script src>
+  html?: string[];                   // Matched against the raw HTML
+  meta?: Record<string, string>;     // <meta name|property> → pattern for its content
+  headers?: Record<string, string>;  // Response header → pattern for its value ("" means present)
+  cookies?: Record<string, string>;  // Cookie name (a pattern itself) → pattern for its value
+  js?: string[] | Record<string, string>; // Globals such as "Stripe.version", looked for in inline scripts
+  url?: string[];                    // Matched against the page URL
+  dns?: Record<string, string | string[]>; // Record type (MX, TXT, NS, CNAME) → patterns for its values
+  files?: Record<string, string[]>;  // Well-known file, e.g. "/robots.txt" → patterns for its lines
+  domains?: string[];                // Hosts the vendor serves from, e.g. "stripe.com" (subdomains included)
+  implies?: string[];                // Technologies this one brings with it, e.g. Next.js → React
+  excludes?: string[];               // Technologies this one rules out, e.g. Angular → AngularJS
+}
+
+export interface FingerprintFile {
+  version?: number;
+  technologies: Record<string, TechnologyRule>;
+}
+
+// What a page offers to match against
+export interface PageSignals {
+  url: string;
+  html: string;
+  headers?: Record<string, string>; // Lower-cased names
+  cookies?: Record<string, string>;
+  dns?: DnsRecords;
+  files?: Record<string, string>;   // Well-known file path → content
+}
+
+export interface FingerprintMatch {
+  name: string;
+  category: string;
+  confidence: number; // 0-100, the sum of every matching pattern's confidence
+  version?: string;   // From patterns with a version tag, e.g. "3.4.1"
+}
+
+const BUILT_IN_PATH = new URL('../../fingerprints/technologies.json', import.meta.url);
+
+interface Pattern {
+  regex: RegExp;
+  confidence: number;
+  version?: string; // Template with \\1-style references to capture groups
+}
+
+interface CompiledRule {
+  name: string;
+  category: string;
+  scriptSrc: Pattern[];
+  html: Pattern[];
+  meta: Array<[string, Pattern]>;
+  headers: Array<[string, Pattern]>;
+  cookies: Array<[RegExp, Pattern]>;
+  js: Pattern[];
+  url: Pattern[];
+  dns: Array<[string, Pattern]>;
+  files: Array<[string, Pattern]>;
+  domains: string[];
+  implies: Array<{ name: string; confidence: number }>;
+  excludes: string[];
+}
+
+// "pattern\;confidence:50\;version:\1" → the pattern and its tags
+function splitTags(source: string): { pattern: string; confidence: number; version?: string } {
+  const [pattern, ...tags] = source.split('\\;');
+  let confidence = 100;
+  let version: string | undefined;
+  for (const tag of tags) {
+    const match = tag.match(/^confidence:(\d+)$/);
+    if (match) confidence = parseInt(match[1], 10);
+    if (tag.startsWith('version:')) version = tag.slice('version:'.length);
+  }
+  return { pattern, confidence, version };
+}
+
+function compilePattern(source: string, name: string, where: string, flags = 'i'): Pattern {
+  if (typeof source !== 'string') throw new Error(`Patterns for ${name} in ${where} must be strings`);
+  const { pattern, confidence, version } = splitTags(source);
+  try {
+    return { regex: new RegExp(pattern, flags), confidence, version };
+  } catch (error) {
+    throw new Error(`Invalid pattern for ${name} in ${where}: ${source}`);
+  }
+}
+
+// A global such as "Stripe.version" or "$crisp", as it would appear in script text
+function compileGlobal(source: string, name: string, where: string): Pattern {
+  const { pattern, confidence } = splitTags(source);
+  if (!pattern.trim()) throw new Error(`Empty JavaScript global for ${name} in ${where}`);
+  const escaped = pattern.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return { regex: new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`), confidence };
+}
+
+function compileRule(name: string, rule: TechnologyRule, where: string): CompiledRule {
+  if (!rule || typeof rule.category !== 'string' || !rule.category.trim()) {
+    throw new Error(`${name} in ${where} needs a category`);
+  }
+  const list = (sources: string[] | undefined) => (sources || []).map(source => compilePattern(source, name, where));
+  const entries = (sources: Record<string, string> | undefined) =>
+    Object.entries(sources || {}).map(([key, source]) => [key.toLowerCase(), compilePattern(source, name, where)] as [string, Pattern]);
+  const globals = Array.isArray(rule.js) ? rule.js : Object.keys(rule.js || {});
+
+  return {
+    name,
+    category: rule.category.trim(),
+    scriptSrc: list(rule.scriptSrc),
+    html: list(rule.html),
+    meta: entries(rule.meta),
+    headers: entries(rule.headers),
+    cookies: Object.entries(rule.cookies || {}).map(([cookie, source]) => [
+      compilePattern(`^(?:${cookie})$`, name, where).regex,
+      compilePattern(source, name, where),
+    ]),
+    js: globals.map(source => compileGlobal(source, name, where)),
+    url: list(rule.url),
+    dns: Object.entries(rule.dns || {}).flatMap(([type, sources]) =>
+      (Array.isArray(sources) ? sources : [sources]).map(source => [type.toUpperCase(), compilePattern(source, name, where)] as [string, Pattern])),
+    files: Object.entries(rule.files || {}).flatMap(([file, sources]) =>
+      // Line-oriented files, so ^ and $ match at each line
+      (sources || []).map(source => [file, compilePattern(source, name, where, 'im')] as [string, Pattern])),
+    domains: (rule.domains || []).map(domain => {
+      if (typeof domain !== 'string' || !/^[a-z0-9-]+(?:\.[a-z0-9-]+)+$/i.test(domain)) {
+        throw new Error(`Invalid domain for ${name} in ${where}: ${domain}`);
+      }
+      return domain.toLowerCase();
+    }),
+    implies: (rule.implies || []).map(source => {
+      const { pattern, confidence } = splitTags(source);
+      return { name: pattern, confidence };
+    }),
+    excludes: rule.excludes || [],
+  };
+}
+
+/**
+ * Whether a pattern matches: undefined when it doesn't, otherwise the version it captured ("" for none)
+ */
+function matchPattern(pattern: Pattern, subject: string): string | undefined {
+  const match = pattern.regex.exec(subject);
+  if (!match) return undefined;
+  if (!pattern.version) return '';
+  return pattern.version.replace(/\\(\d)/g, (_, group) => match[parseInt(group, 10)] || '').trim();
+}
+
+// The most specific of the versions found, e.g. "3.4.1" over "3.4"; the first on a tie
+function pickVersion(versions: string[]): string {
+  return versions.reduce((best, version) => (version.split('.').length > best.split('.').length ? version : best));
+}
+
+function readFingerprintFile(file: string | URL): FingerprintFile {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read fingerprints ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// A rule file, or every .json file in a directory in name order
+function userFiles(filePath: string): string[] {
+  if (!fs.existsSync(filePath)) throw new Error(`Fingerprints path not found: ${filePath}`);
+  if (!fs.statSync(filePath).isDirectory()) return [filePath];
+  return fs.readdirSync(filePath)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => path.join(filePath, file));
+}
+
+function extractScriptSources(html: string): string[] {
+  return [...html.matchAll(/<script[^>]*\ssrc=["']([^"']+)["']/gi)].map(match => match[1]);
+}
+
+function extractInlineScripts(html: string): string {
+  return [...html.matchAll(/<script(?![^>]*\ssrc=)[^>]*>([\s\S]*?)<\/script>/gi)].map(match => match[1]).join('\n');
+}
+
+function extractMeta(html: string): Array<[string, string]> {
+  const meta: Array<[string, string]> = [];
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const key = tag.match(/\s(?:name|property|http-equiv)=["']([^"']+)["']/i)?.[1];
+    const content = tag.match(/\scontent=["']([^"']*)["']/i)?.[1];
+    if (key && content !== undefined) meta.push([key.toLowerCase(), content]);
+  }
+  return meta;
+}
+
+/**
+ * Headers (lower-cased) and cookies of a response, as header and cookie rules see them
+ */
+export function responseSignals(response: Response): { headers: Record<string, string>; cookies: Record<string, string> } {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name.toLowerCase()] = value;
+  });
+  const cookies: Record<string, string> = {};
+  for (const cookie of response.headers.getSetCookie()) {
+    const [pair] = cookie.split(';');
+    const index = pair.indexOf('=');
+    if (index > 0) cookies[pair.slice(0, index).trim()] = pair.slice(index + 1).trim();
+  }
+  return { headers, cookies };
+}
+
+export class FingerprintDatabase {
+  private rules = new Map<string, CompiledRule>();
+  private vendorsByDomain = new Map<string, string>();
+
+  constructor(files: Array<{ file: FingerprintFile; where: string }>) {
+    // Later files override earlier ones technology by technology
+    for (const { file, where } of files) {
+      if (!file || typeof file.technologies !== 'object' || Array.isArray(file.technologies)) {
+        throw new Error(`${where} must have a "technologies" object`);
+      }
+      for (const [name, rule] of Object.entries(file.technologies)) {
+        this.rules.set(name, compileRule(name, rule, where));
+      }
+    }
+    for (const rule of this.rules.values()) {
+      for (const domain of rule.domains) this.vendorsByDomain.set(domain, rule.name);
+    }
+  }
+
+  /**
+   * The built-in rules plus any at FINGERPRINTS_PATH (a JSON file or a directory of them)
+   */
+  static load(filePath: string | undefined = process.env.FINGERPRINTS_PATH): FingerprintDatabase {
+    const files = [{ file: readFingerprintFile(BUILT_IN_PATH), where: 'fingerprints/technologies.json' }];
+    if (filePath) {
+      for (const file of userFiles(filePath)) files.push({ file: readFingerprintFile(file), where: file });
+    }
+    return new FingerprintDatabase(files);
+  }
+
+  get size(): number {
+    return this.rules.size;
+  }
+
+  /**
+   * The technology whose domains include a host, most specific domain first: "js.stripe.com" is
+   * Stripe by "stripe.com", and "fonts.gstatic.com" can belong elsewhere than "gstatic.com"
+   */
+  vendorOf(host: string): { name: string; category: string } | undefined {
+    const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      const name = this.vendorsByDomain.get(labels.slice(i).join('.'));
+      if (name) return { name, category: this.rules.get(name)!.category };
+    }
+    return undefined;
+  }
+
+  /**
+   * Technologies the page matches, after implied technologies are added and excluded ones removed
+   */
+  analyze(page: PageSignals): FingerprintMatch[] {
+    const scriptSrcs = extractScriptSources(page.html);
+    const inlineScripts = extractInlineScripts(page.html);
+    const meta = extractMeta(page.html);
+    const headers = Object.entries(page.headers || {});
+    const cookies = Object.entries(page.cookies || {});
+    const dns = (page.dns || {}) as Record<string, string[] | undefined>;
+
+    const confidence = new Map<string, number>();
+    const versions = new Map<string, string>();
+    const add = (name: string, value: number) => confidence.set(name, Math.min(100, (confidence.get(name) || 0) + value));
+
+    for (const rule of this.rules.values()) {
+      const found: string[] = [];
+      // A pattern counts once toward confidence, but every value it matches may carry a version
+      const check = (pattern: Pattern, subjects: string[]) => {
+        let matched = false;
+        for (const subject of subjects) {
+          const version = matchPattern(pattern, subject);
+          if (version === undefined) continue;
+          matched = true;
+          if (version) found.push(version);
+        }
+        if (matched) add(rule.name, pattern.confidence);
+      };
+      const valuesOf = (entries: Array<[string, string]>, key: string) => entries.filter(([name]) => name === key).map(([, value]) => value);
+
+      for (const p of rule.scriptSrc) check(p, scriptSrcs);
+      for (const p of rule.html) check(p, [page.html]);
+      for (const [key, p] of rule.meta) check(p, valuesOf(meta, key));
+      for (const [key, p] of rule.headers) check(p, valuesOf(headers, key));
+      for (const [key, p] of rule.cookies) check(p, cookies.filter(([name]) => key.test(name)).map(([, value]) => value));
+      for (const p of rule.js) check(p, [inlineScripts]);
+      for (const p of rule.url) check(p, [page.url]);
+      for (const [type, p] of rule.dns) check(p, dns[type] || []);
+      for (const [file, p] of rule.files) check(p, page.files?.[file] !== undefined ? [page.files[file]] : []);
+      if (found.length > 0) versions.set(rule.name, pickVersion(found));
+    }
+
+    // Implied technologies inherit the confidence of whatever implies them, scaled by the implication's own
+    const queue = [...confidence.keys()];
+    const implied = new Set<string>();
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      for (const implication of this.rules.get(name)?.implies || []) {
+        if (!this.rules.has(implication.name) || implied.has(`${name}>${implication.name}`)) continue;
+        implied.add(`${name}>${implication.name}`);
+        const known = confidence.has(implication.name);
+        add(implication.name, Math.round((confidence.get(name)! * implication.confidence) / 100));
+        if (!known) queue.push(implication.name);
+      }
+    }
+
+    const excluded = new Set([...confidence.keys()].flatMap(name => this.rules.get(name)?.excludes || []));
+
+    return [...confidence.entries()]
+      .filter(([name, value]) => value > 0 && !excluded.has(name))
+      .map(([name, value]) => {
+        const match: FingerprintMatch = { name, category: this.rules.get(name)!.category, confidence: value };
+        if (versions.has(name)) match.version = versions.get(name);
+        return match;
+      })
+      .sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name));
+  }
+}
@@ -0,0 +1,397 @@
+/**
+ * Gazetteer
+ * Offline lookup of the countries, states and provinces, cities and metro areas that job postings
+ * name. Covers the places tech companies hire in, not every place on earth.
+ */
+
+export interface Country {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+}
+
+export interface Region {
+  code: string; // Postal abbreviation, e.g. "CA" or "ON"
+  name: string;
+  country: string;
+}
+
+export interface City {
+  name: string;
+  region?: string;
+  country: string;
+  metro: string; // Metro area the city rolls up to, its own name when it is the core city
+}
+
+export interface Metro {
+  name: string;
+  region?: string;
+  country: string;
+}
+
+// [code, name, ...aliases]
+const COUNTRIES: string[][] = [
+  ['US', 'United States', 'USA', 'U.S.', 'U.S.A.', 'United States of America', 'America'],
+  ['CA', 'Canada'],
+  ['MX', 'Mexico', 'México'],
+  ['BR', 'Brazil', 'Brasil'],
+  ['AR', 'Argentina'],
+  ['CL', 'Chile'],
+  ['CO', 'Colombia'],
+  ['PE', 'Peru'],
+  ['UY', 'Uruguay'],
+  ['CR', 'Costa Rica'],
+  ['GB', 'United Kingdom', 'UK', 'U.K.', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+  ['IE', 'Ireland'],
+  ['DE', 'Germany', 'Deutschland'],
+  ['FR', 'France'],
+  ['ES', 'Spain', 'España'],
+  ['PT', 'Portugal'],
+  ['IT', 'Italy', 'Italia'],
+  ['NL', 'Netherlands', 'The Netherlands', 'Holland'],
+  ['BE', 'Belgium'],
+  ['LU', 'Luxembourg'],
+  ['CH', 'Switzerland', 'Schweiz'],
+  ['AT', 'Austria', 'Österreich'],
+  ['DK', 'Denmark'],
+  ['SE', 'Sweden'],
+  ['NO', 'Norway'],
+  ['FI', 'Finland'],
+  ['IS', 'Iceland'],
+  ['PL', 'Poland', 'Polska'],
+  ['CZ', 'Czech Republic', 'Czechia'],
+  ['SK', 'Slovakia'],
+  ['HU', 'Hungary'],
+  ['RO', 'Romania'],
+  ['BG', 'Bulgaria'],
+  ['GR', 'Greece'],
+  ['HR', 'Croatia'],
+  ['RS', 'Serbia'],
+  ['SI', 'Slovenia'],
+  ['UA', 'Ukraine'],
+  ['EE', 'Estonia'],
+  ['LV', 'Latvia'],
+  ['LT', 'Lithuania'],
+  ['CY', 'Cyprus'],
+  ['MT', 'Malta'],
+  ['TR', 'Turkey', 'Türkiye'],
+  ['IL', 'Israel'],
+  ['AE', 'United Arab Emirates', 'UAE'],
+  ['SA', 'Saudi Arabia'],
+  ['QA', 'Qatar'],
+  ['EG', 'Egypt'],
+  ['MA', 'Morocco'],
+  ['NG', 'Nigeria'],
+  ['KE', 'Kenya'],
+  ['ZA', 'South Africa'],
+  ['IN', 'India'],
+  ['PK', 'Pakistan'],
+  ['BD', 'Bangladesh'],
+  ['LK', 'Sri Lanka'],
+  ['SG', 'Singapore'],
+  ['MY', 'Malaysia'],
+  ['ID', 'Indonesia'],
+  ['TH', 'Thailand'],
+  ['VN', 'Vietnam', 'Viet Nam'],
+  ['PH', 'Philippines'],
+  ['CN', 'China'],
+  ['HK', 'Hong Kong'],
+  ['TW', 'Taiwan'],
+  ['JP', 'Japan'],
+  ['KR', 'South Korea', 'Korea', 'Republic of Korea'],
+  ['AU', 'Australia'],
+  ['NZ', 'New Zealand'],
+];
+
+// [country, code, name]
+const REGIONS: string[][] = [
+  ['US', 'AL', 'Alabama'], ['US', 'AK', 'Alaska'], ['US', 'AZ', 'Arizona'], ['US', 'AR', 'Arkansas'],
+  ['US', 'CA', 'California'], ['US', 'CO', 'Colorado'], ['US', 'CT', 'Connecticut'], ['US', 'DE', 'Delaware'],
+  ['US', 'DC', 'District of Columbia'], ['US', 'FL', 'Florida'], ['US', 'GA', 'Georgia'], ['US', 'HI', 'Hawaii'],
+  ['US', 'ID', 'Idaho'], ['US', 'IL', 'Illinois'], ['US', 'IN', 'Indiana'], ['US', 'IA', 'Iowa'],
+  ['US', 'KS', 'Kansas'], ['US', 'KY', 'Kentucky'], ['US', 'LA', 'Louisiana'], ['US', 'ME', 'Maine'],
+  ['US', 'MD', 'Maryland'], ['US', 'MA', 'Massachusetts'], ['US', 'MI', 'Michigan'], ['US', 'MN', 'Minnesota'],
+  ['US', 'MS', 'Mississippi'], ['US', 'MO', 'Missouri'], ['US', 'MT', 'Montana'], ['US', 'NE', 'Nebraska'],
+  ['US', 'NV', 'Nevada'], ['US', 'NH', 'New Hampshire'], ['US', 'NJ', 'New Jersey'], ['US', 'NM', 'New Mexico'],
+  ['US', 'NY', 'New York State'], ['US', 'NC', 'North Carolina'], ['US', 'ND', 'North Dakota'], ['US', 'OH', 'Ohio'],
+  ['US', 'OK', 'Oklahoma'], ['US', 'OR', 'Oregon'], ['US', 'PA', 'Pennsylvania'], ['US', 'RI', 'Rhode Island'],
+  ['US', 'SC', 'South Carolina'], ['US', 'SD', 'South Dakota'], ['US', 'TN', 'Tennessee'], ['US', 'TX', 'Texas'],
+  ['US', 'UT', 'Utah'], ['US', 'VT', 'Vermont'], ['US', 'VA', 'Virginia'], ['US', 'WA', 'Washington State'],
+  ['US', 'WV', 'West Virginia'], ['US', 'WI', 'Wisconsin'], ['US', 'WY', 'Wyoming'],
+  ['CA', 'ON', 'Ontario'], ['CA', 'QC', 'Quebec'], ['CA', 'BC', 'British Columbia'], ['CA', 'AB', 'Alberta'],
+  ['CA', 'MB', 'Manitoba'], ['CA', 'SK', 'Saskatchewan'], ['CA', 'NS', 'Nova Scotia'], ['CA', 'NB', 'New Brunswick'],
+  ['CA', 'NL', 'Newfoundland and Labrador'], ['CA', 'PE', 'Prince Edward Island'],
+  ['AU', 'NSW', 'New South Wales'], ['AU', 'VIC', 'Victoria'], ['AU', 'QLD', 'Queensland'],
+  ['AU', 'WA', 'Western Australia'], ['AU', 'SA', 'South Australia'], ['AU', 'TAS', 'Tasmania'],
+  ['AU', 'ACT', 'Australian Capital Territory'],
+];
+
+// [name, region, country, metro, ...aliases]; an empty metro means the city is its own metro
+const CITIES: string[][] = [
+  ['San Francisco', 'CA', 'US', 'San Francisco Bay Area', 'SF', 'San Fran'],
+  ['Oakland', 'CA', 'US', 'San Francisco Bay Area'],
+  ['Berkeley', 'CA', 'US', 'San Francisco Bay Area'],
+  ['San Jose', 'CA', 'US', 'San Francisco Bay Area'],
+  ['Palo Alto', 'CA', 'US', 'San Francisco Bay Area'],
+  ['Mountain View', 'CA', 'US', 'San Francisco Bay Area'],
+  ['Menlo Park', 'CA', 'US', 'San Francisco Bay Area'],
+  ['Sunnyvale', 'CA', 'US', 'San Francisco Bay Area'],
+  ['Santa Clara', 'CA', 'US', 'San Francisco Bay Area'],
+  ['Cupertino', 'CA', 'US', 'San Francisco Bay Area'],
+  ['Redwood City', 'CA', 'US', 'San Francisco Bay Area'],
+  ['San Mateo', 'CA', 'US', 'San Francisco Bay Area'],
+  ['South San Francisco', 'CA', 'US', 'San Francisco Bay Area'],
+  ['Los Angeles', 'CA', 'US', '', 'LA'],
+  ['Santa Monica', 'CA', 'US', 'Los Angeles'],
+  ['Irvine', 'CA', 'US', 'Los Angeles'],
+  ['San Diego', 'CA', 'US', ''],
+  ['Seattle', 'WA', 'US', ''],
+  ['Bellevue', 'WA', 'US', 'Seattle'],
+  ['Redmond', 'WA', 'US', 'Seattle'],
+  ['Kirkland', 'WA', 'US', 'Seattle'],
+  ['Portland', 'OR', 'US', ''],
+  ['New York', 'NY', 'US', 'New York City', 'NYC', 'New York City', 'Manhattan'],
+  ['Brooklyn', 'NY', 'US', 'New York City'],
+  ['Jersey City', 'NJ', 'US', 'New York City'],
+  ['Hoboken', 'NJ', 'US', 'New York City'],
+  ['Boston', 'MA', 'US', ''],
+  ['Cambridge', 'MA', 'US', 'Boston'],
+  ['Somerville', 'MA', 'US', 'Boston'],
+  ['Chicago', 'IL', 'US', ''],
+  ['Austin', 'TX', 'US', ''],
+  ['Dallas', 'TX', 'US', ''],
+  ['Houston', 'TX', 'US', ''],
+  ['San Antonio', 'TX', 'US', ''],
+  ['Denver', 'CO', 'US', ''],
+  ['Boulder', 'CO', 'US', 'Denver'],
+  ['Atlanta', 'GA', 'US', ''],
+  ['Miami', 'FL', 'US', ''],
+  ['Tampa', 'FL', 'US', ''],
+  ['Orlando', 'FL', 'US', ''],
+  ['Washington', 'DC', 'US', '', 'Washington DC', 'Washington D.C.', 'DC'],
+  ['Arlington', 'VA', 'US', 'Washington'],
+  ['Reston', 'VA', 'US', 'Washington'],
+  ['Baltimore', 'MD', 'US', ''],
+  ['Philadelphia', 'PA', 'US', ''],
+  ['Pittsburgh', 'PA', 'US', ''],
+  ['Phoenix', 'AZ', 'US', ''],
+  ['Salt Lake City', 'UT', 'US', '', 'SLC'],
+  ['Lehi', 'UT', 'US', 'Salt Lake City'],
+  ['Minneapolis', 'MN', 'US', ''],
+  ['Detroit', 'MI', 'US', ''],
+  ['Ann Arbor', 'MI', 'US', ''],
+  ['Raleigh', 'NC', 'US', ''],
+  ['Durham', 'NC', 'US', 'Raleigh'],
+  ['Charlotte', 'NC', 'US', ''],
+  ['Nashville', 'TN', 'US', ''],
+  ['Columbus', 'OH', 'US', ''],
+  ['St. Louis', 'MO', 'US', '', 'Saint Louis', 'St Louis'],
+  ['Kansas City', 'MO', 'US', ''],
+  ['Indianapolis', 'IN', 'US', ''],
+  ['Madison', 'WI', 'US', ''],
+  ['Las Vegas', 'NV', 'US', ''],
+  ['Toronto', 'ON', 'CA', ''],
+  ['Waterloo', 'ON', 'CA', ''],
+  ['Ottawa', 'ON', 'CA', ''],
+  ['Montreal', 'QC', 'CA', '', 'Montréal'],
+  ['Vancouver', 'BC', 'CA', ''],
+  ['Calgary', 'AB', 'CA', ''],
+  ['Edmonton', 'AB', 'CA', ''],
+  ['Mexico City', '', 'MX', '', 'CDMX', 'Ciudad de México', 'Ciudad de Mexico'],
+  ['Guadalajara', '', 'MX', ''],
+  ['São Paulo', '', 'BR', '', 'Sao Paulo'],
+  ['Rio de Janeiro', '', 'BR', ''],
+  ['Buenos Aires', '', 'AR', ''],
+  ['Santiago', '', 'CL', ''],
+  ['Bogotá', '', 'CO', '', 'Bogota'],
+  ['Medellín', '', 'CO', '', 'Medellin'],
+  ['Lima', '', 'PE', ''],
+  ['Montevideo', '', 'UY', ''],
+  ['London', '', 'GB', ''],
+  ['Manchester', '', 'GB', ''],
+  ['Edinburgh', '', 'GB', ''],
+  ['Glasgow', '', 'GB', ''],
+  ['Cambridge', '', 'GB', ''],
+  ['Oxford', '', 'GB', ''],
+  ['Bristol', '', 'GB', ''],
+  ['Leeds', '', 'GB', ''],
+  ['Belfast', '', 'GB', ''],
+  ['Dublin', '', 'IE', ''],
+  ['Cork', '', 'IE', ''],
+  ['Berlin', '', 'DE', ''],
+  ['Munich', '', 'DE', '', 'München', 'Muenchen'],
+  ['Hamburg', '', 'DE', ''],
+  ['Frankfurt', '', 'DE', '', 'Frankfurt am Main'],
+  ['Cologne', '', 'DE', '', 'Köln', 'Koeln'],
+  ['Stuttgart', '', 'DE', ''],
+  ['Düsseldorf', '', 'DE', '', 'Dusseldorf', 'Duesseldorf'],
+  ['Paris', '', 'FR', ''],
+  ['Lyon', '', 'FR', ''],
+  ['Madrid', '', 'ES', ''],
+  ['Barcelona', '', 'ES', ''],
+  ['Valencia', '', 'ES', ''],
+  ['Lisbon', '', 'PT', '', 'Lisboa'],
+  ['Porto', '', 'PT', ''],
+  ['Milan', '', 'IT', '', 'Milano'],
+  ['Rome', '', 'IT', '', 'Roma'],
+  ['Amsterdam', '', 'NL', ''],
+  ['Rotterdam', '', 'NL', ''],
+  ['Utrecht', '', 'NL', ''],
+  ['The Hague', '', 'NL', '', 'Den Haag'],
+  ['Brussels', '', 'BE', '', 'Bruxelles'],
+  ['Zurich', '', 'CH', '', 'Zürich'],
+  ['Geneva', '', 'CH', '', 'Genève'],
+  ['Vienna', '', 'AT', '', 'Wien'],
+  ['Copenhagen', '', 'DK', '', 'København'],
+  ['Stockholm', '', 'SE', ''],
+  ['Oslo', '', 'NO', ''],
+  ['Helsinki', '', 'FI', ''],
+  ['Warsaw', '', 'PL', '', 'Warszawa'],
+  ['Krakow', '', 'PL', '', 'Kraków', 'Cracow'],
+  ['Wroclaw', '', 'PL', '', 'Wrocław'],
+  ['Prague', '', 'CZ', '', 'Praha'],
+  ['Budapest', '', 'HU', ''],
+  ['Bucharest', '', 'RO', '', 'București'],
+  ['Sofia', '', 'BG', ''],
+  ['Athens', '', 'GR', ''],
+  ['Belgrade', '', 'RS', ''],
+  ['Kyiv', '', 'UA', '', 'Kiev'],
+  ['Tallinn', '', 'EE', ''],
+  ['Riga', '', 'LV', ''],
+  ['Vilnius', '', 'LT', ''],
+  ['Istanbul', '', 'TR', ''],
+  ['Tel Aviv', '', 'IL', '', 'Tel Aviv-Yafo', 'Tel-Aviv'],
+  ['Dubai', '', 'AE', ''],
+  ['Abu Dhabi', '', 'AE', ''],
+  ['Riyadh', '', 'SA', ''],
+  ['Cairo', '', 'EG', ''],
+  ['Lagos', '', 'NG', ''],
+  ['Nairobi', '', 'KE', ''],
+  ['Cape Town', '', 'ZA', ''],
+  ['Johannesburg', '', 'ZA', ''],
+  ['Bangalore', '', 'IN', '', 'Bengaluru'],
+  ['Mumbai', '', 'IN', '', 'Bombay'],
+  ['Delhi', '', 'IN', '', 'New Delhi'],
+  ['Gurgaon', '', 'IN', 'Delhi', 'Gurugram'],
+  ['Noida', '', 'IN', 'Delhi'],
+  ['Hyderabad', '', 'IN', ''],
+  ['Pune', '', 'IN', ''],
+  ['Chennai', '', 'IN', ''],
+  ['Singapore', '', 'SG', ''],
+  ['Kuala Lumpur', '', 'MY', ''],
+  ['Jakarta', '', 'ID', ''],
+  ['Bangkok', '', 'TH', ''],
+  ['Ho Chi Minh City', '', 'VN', '', 'Saigon'],
+  ['Manila', '', 'PH', ''],
+  ['Hong Kong', '', 'HK', ''],
+  ['Shanghai', '', 'CN', ''],
+  ['Beijing', '', 'CN', ''],
+  ['Shenzhen', '', 'CN', ''],
+  ['Taipei', '', 'TW', ''],
+  ['Tokyo', '', 'JP', ''],
+  ['Osaka', '', 'JP', ''],
+  ['Seoul', '', 'KR', ''],
+  ['Sydney', 'NSW', 'AU', ''],
+  ['Melbourne', 'VIC', 'AU', ''],
+  ['Brisbane', 'QLD', 'AU', ''],
+  ['Perth', 'WA', 'AU', ''],
+  ['Auckland', '', 'NZ', ''],
+  ['Wellington', '', 'NZ', ''],
+];
+
+// Metro areas postings name instead of a city: [name, region, country, ...aliases]
+const METROS: string[][] = [
+  ['San Francisco Bay Area', 'CA', 'US', 'Bay Area', 'SF Bay Area', 'Silicon Valley', 'SF Bay'],
+  ['New York City', 'NY', 'US', 'NYC Metro', 'Greater New York', 'New York Metro', 'Tri-State Area'],
+  ['Los Angeles', 'CA', 'US', 'Greater Los Angeles', 'LA Metro', 'Southern California', 'SoCal'],
+  ['Seattle', 'WA', 'US', 'Greater Seattle', 'Puget Sound'],
+  ['Boston', 'MA', 'US', 'Greater Boston'],
+  ['Washington', 'DC', 'US', 'DMV', 'DC Metro', 'Washington DC Metro', 'Greater Washington'],
+  ['London', '', 'GB', 'Greater London'],
+  ['Toronto', 'ON', 'CA', 'GTA', 'Greater Toronto Area'],
+];
+
+// Areas remote roles are restricted to, beyond single countries
+const MACRO_REGIONS: Array<[string, RegExp]> = [
+  ['Worldwide', /^(?:worldwide|global(?:ly)?|anywhere|international|any ?where in the world)$/i],
+  ['EMEA', /^emea$/i],
+  ['Europe', /^(?:europe|eu|european union|eea|cet|cest)$/i],
+  ['APAC', /^(?:apac|asia[ -]pacific|asia|apj)$/i],
+  ['Americas', /^(?:americas|the americas|amer|amers)$/i],
+  ['North America', /^(?:north america|n\.? america|na)$/i],
+  ['Latin America', /^(?:latin america|latam|south america)$/i],
+];
+
+const key = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const countries = new Map<string, Country>();
+const countryNames = new Map<string, string>();
+for (const [code, name, ...aliases] of COUNTRIES) {
+  countryNames.set(code, name);
+  for (const alias of [name, ...aliases]) countries.set(key(alias), { code, name });
+}
+
+const regionsByName = new Map<string, Region[]>();
+for (const [country, code, name] of REGIONS) {
+  const region = { code, name: name.replace(/ State$/, ''), country };
+  for (const alias of new Set([code, name, region.name])) {
+    const found = regionsByName.get(key(alias)) || [];
+    found.push(region);
+    regionsByName.set(key(alias), found);
+  }
+}
+
+const cities = new Map<string, City[]>();
+for (const [name, region, country, metro, ...aliases] of CITIES) {
+  const city = { name, region: region || undefined, country, metro: metro || name };
+  for (const alias of [name, ...aliases]) {
+    const found = cities.get(key(alias)) || [];
+    found.push(city);
+    cities.set(key(alias), found);
+  }
+}
+
+const metros = new Map<string, Metro>();
+for (const [name, region, country, ...aliases] of METROS) {
+  for (const alias of aliases) metros.set(key(alias), { name, region: region || undefined, country });
+}
+
+/**
+ * Country by name, common alias or ISO code, e.g. "Germany", "UK" or "DE"
+ */
+export function findCountry(text: string): Country | undefined {
+  const byName = countries.get(key(text));
+  if (byName) return byName;
+  const code = text.trim().toUpperCase();
+  return /^[A-Z]{2}$/.test(code) && countryNames.has(code) ? { code, name: countryNames.get(code)! } : undefined;
+}
+
+export function countryName(code: string): string {
+  return countryNames.get(code) || code;
+}
+
+/**
+ * State or province by name or postal code, preferring the given country, then the US
+ */
+export function findRegion(text: string, country?: string): Region | undefined {
+  const found = regionsByName.get(key(text)) || [];
+  if (country) return found.find(region => region.country === country);
+  return found.find(region => region.country === 'US') || found[0];
+}
+
+/**
+ * Cities with this name or alias, the best-known first
+ */
+export function findCities(text: string): City[] {
+  return cities.get(key(text)) || [];
+}
+
+export function findMetro(text: string): Metro | undefined {
+  return metros.get(key(text));
+}
+
+/**
+ * A multi-country area such as "EMEA" or "Worldwide"
+ */
+export function findMacroRegion(text: string): string | undefined {
+  return MACRO_REGIONS.find(([, pattern]) => pattern.test(text.trim()))?.[0];
+}
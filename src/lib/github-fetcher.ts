@@ -3,6 +3,8 @@
  * Fetches public repo data, activity, contributors, tech stack
  */
 
+import { httpFetch } from './http-client.js';
+
 export interface GitHubData {
   organization?: {
     login: string;
@@ -194,6 +196,6 @@ export class GitHubFetcher {
       headers['Authorization'] = `Bearer ${this.token}`;
     }
 
-    return fetch(`${this.baseUrl}${path}`, { headers });
+    return httpFetch(`${this.baseUrl}${path}`, { headers }, { provider: 'github', cache: 'github' });
   }
 }
@@ -0,0 +1,154 @@
+/**
+ * Hiring Trends
+ * Compares the job postings open now with earlier runs for the same company: which postings
+ * are new or closed, how long roles stay open, and whether hiring is speeding up or slowing down
+ */
+
+import { HiringNetChange, HiringSignal, HiringTrends } from '../types/enrichment.js';
+import type { JobSnapshot, SnapshotPosting } from './result-store.js';
+import type { JobPosting } from './job-scraper.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VELOCITY_DAYS = 30;
+const TREND_WINDOWS = [30, 60, 90];
+const MAX_TITLES = 10; // New and closed titles listed in the report
+
+// A surge needs at least this many more postings and this much growth; a freeze this much shrinkage
+const SURGE_MIN_CHANGE = 3;
+const SURGE_MIN_RATIO = 0.2;
+const FREEZE_MIN_BASELINE = 3;
+const FREEZE_MAX_RATIO = -0.3;
+
+/**
+ * Identity of a posting across runs: the board's own id when it has one, otherwise its URL,
+ * title and location (boards without ids still give each posting a stable URL)
+ */
+export function postingKey(job: JobPosting): string {
+  if (job.source && job.externalId) return `${job.source}:${job.externalId}`;
+  return `${job.url}|${job.title.toLowerCase().trim()}|${job.location.toLowerCase().trim()}`;
+}
+
+/**
+ * The postings as they are recorded in a snapshot
+ */
+export function toSnapshotPostings(jobs: JobPosting[]): SnapshotPosting[] {
+  return jobs.map(job => ({
+    key: postingKey(job),
+    title: job.title,
+    department: job.departmentPath?.[0] || job.department || 'Other',
+    postedAt: job.postedDate,
+  }));
+}
+
+// When each posting was first seen open, across all earlier snapshots
+function firstSeen(snapshots: JobSnapshot[]): Map<string, Date> {
+  const seen = new Map<string, Date>();
+  for (const snapshot of snapshots) {
+    for (const posting of snapshot.postings) {
+      if (!seen.has(posting.key)) seen.set(posting.key, snapshot.observedAt);
+    }
+  }
+  return seen;
+}
+
+// When a posting opened: the board's date, or the first run it appeared in when that is earlier
+function openedAt(posting: SnapshotPosting, seen: Map<string, Date>): Date | undefined {
+  const first = seen.get(posting.key);
+  if (posting.postedAt && first) return posting.postedAt < first ? posting.postedAt : first;
+  return posting.postedAt || first;
+}
+
+function countByDepartment(postings: SnapshotPosting[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const posting of postings) counts[posting.department] = (counts[posting.department] || 0) + 1;
+  return counts;
+}
+
+function netChange(current: SnapshotPosting[], earlier: JobSnapshot, days: number): HiringNetChange {
+  const now = countByDepartment(current);
+  const before = countByDepartment(earlier.postings);
+  const byDepartment: Record<string, number> = {};
+  for (const department of new Set([...Object.keys(now), ...Object.keys(before)])) {
+    const change = (now[department] || 0) - (before[department] || 0);
+    if (change !== 0) byDepartment[department] = change;
+  }
+  return { days, since: earlier.observedAt, total: current.length - earlier.postings.length, byDepartment };
+}
+
+function signal(current: number, baseline: number): HiringSignal {
+  const change = current - baseline;
+  const ratio = baseline > 0 ? change / baseline : change > 0 ? 1 : 0;
+  if (change >= SURGE_MIN_CHANGE && ratio >= SURGE_MIN_RATIO) return 'surge';
+  if (baseline >= FREEZE_MIN_BASELINE && ratio <= FREEZE_MAX_RATIO) return 'freeze';
+  return 'steady';
+}
+
+/**
+ * Postings opened in the last 30 days, by the board's date or, for boards that don't publish one,
+ * the run a posting first appeared in. Undated postings already open in the first run have no
+ * known start, so a company's first run doesn't count its whole backlog as new.
+ */
+export function estimateHiringVelocity(current: SnapshotPosting[], snapshots: JobSnapshot[], now = new Date()): number | undefined {
+  const seen = firstSeen(snapshots);
+  const firstRun = snapshots[0]?.observedAt.getTime();
+  const lastRun = snapshots[snapshots.length - 1]?.observedAt.getTime();
+  const cutoff = now.getTime() - VELOCITY_DAYS * DAY_MS;
+
+  let known = 0;
+  let recent = 0;
+  for (const posting of current) {
+    const first = seen.get(posting.key)?.getTime();
+    let opened: number | undefined;
+    if (posting.postedAt) opened = Math.min(posting.postedAt.getTime(), first ?? Infinity);
+    else if (first !== undefined && first > firstRun!) opened = first;
+    else if (first === undefined && lastRun !== undefined) opened = lastRun; // New since the last run
+    if (opened === undefined) continue;
+    known++;
+    if (opened >= cutoff) recent++;
+  }
+  return known > 0 ? recent : undefined;
+}
+
+/**
+ * Trends against earlier snapshots (oldest first). Undefined for a company's first run.
+ */
+export function computeHiringTrends(current: SnapshotPosting[], snapshots: JobSnapshot[], now = new Date()): HiringTrends | undefined {
+  const previous = snapshots[snapshots.length - 1];
+  if (!previous) return undefined;
+
+  const currentKeys = new Set(current.map(posting => posting.key));
+  const previousKeys = new Set(previous.postings.map(posting => posting.key));
+  const opened = current.filter(posting => !previousKeys.has(posting.key));
+  const closed = previous.postings.filter(posting => !currentKeys.has(posting.key));
+
+  const seen = firstSeen(snapshots);
+  const ages = current
+    .map(posting => openedAt(posting, seen))
+    .filter((date): date is Date => !!date)
+    .map(date => Math.max(0, (now.getTime() - date.getTime()) / DAY_MS));
+  const averageDaysOpen = ages.length > 0 ? Math.round(ages.reduce((sum, age) => sum + age, 0) / ages.length) : undefined;
+
+  // Each window compares against the latest run at least that many days old
+  const windows = TREND_WINDOWS
+    .map(days => {
+      const cutoff = now.getTime() - days * DAY_MS;
+      const earlier = [...snapshots].reverse().find(snapshot => snapshot.observedAt.getTime() <= cutoff);
+      return earlier ? netChange(current, earlier, days) : undefined;
+    })
+    .filter((change): change is HiringNetChange => !!change);
+
+  // The shortest window gives the signal; without one, the previous run does
+  const baseline = windows.length > 0 ? current.length - windows[0].total : previous.postings.length;
+
+  return {
+    previousSnapshotAt: previous.observedAt,
+    snapshots: snapshots.length,
+    newPostings: opened.length,
+    closedPostings: closed.length,
+    newPostingTitles: opened.slice(0, MAX_TITLES).map(posting => posting.title),
+    closedPostingTitles: closed.slice(0, MAX_TITLES).map(posting => posting.title),
+    averageDaysOpen,
+    netChange: windows,
+    signal: signal(current.length, baseline),
+  };
+}
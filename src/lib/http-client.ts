@@ -0,0 +1,158 @@
+/**
+ * HTTP Client
+ * Shared fetch wrapper: every outbound request goes through the rate limiter
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { rateLimiter, rateLimitKeyForUrl, parseRetryAfter } from './rate-limiter.js';
+import { responseCache, CacheSource, CachedResponse } from './response-cache.js';
+
+export interface HttpFetchOptions {
+  provider?: string;     // Rate limit key; defaults to the provider/host of the URL
+  timeoutMs?: number;    // Per-attempt timeout, started once the request leaves the queue
+  maxRetries?: number;   // Retries after a 429 (default 3)
+  cache?: CacheSource;   // Serve from / store in the response cache under this source's TTL
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+
+// Cancellation for everything fetched inside withAbortSignal(), so fetchers don't each need a signal parameter
+const abortScope = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Run a task with every httpFetch/withRateLimit call inside it cancelled when `signal` aborts
+ */
+export function withAbortSignal<T>(signal: AbortSignal | undefined, task: () => Promise<T>): Promise<T> {
+  return signal ? abortScope.run(signal, task) : task();
+}
+
+/**
+ * The abort signal of the enclosing withAbortSignal() scope, e.g. to hand to the AI SDK
+ */
+export function currentAbortSignal(): AbortSignal | undefined {
+  return abortScope.getStore();
+}
+
+/**
+ * How long to back off after a rate-limited response, or undefined if it wasn't rate limited
+ */
+function rateLimitDelay(response: Response, attempt: number): number | undefined {
+  const exhausted = response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0';
+  if (response.status !== 429 && !exhausted) return undefined;
+
+  const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+  if (retryAfter !== undefined) return retryAfter;
+
+  // GitHub reports the reset time as a unix timestamp
+  const reset = Number(response.headers.get('x-ratelimit-reset'));
+  if (reset > 0) return Math.max(0, reset * 1000 - Date.now());
+
+  return Math.min(1000 * 2 ** attempt, 60000);
+}
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+// A Response built from a snapshot has an empty url, so the final URL after redirects is set on it
+function toResponse(cached: CachedResponse, requestUrl: string): Response {
+  const response = new Response(NULL_BODY_STATUSES.includes(cached.status) ? null : cached.body, {
+    status: cached.status,
+    statusText: cached.statusText,
+    headers: cached.headers,
+  });
+  Object.defineProperty(response, 'url', { value: cached.url || requestUrl });
+  return response;
+}
+
+/**
+ * Fetch through the shared rate limiter, backing off and retrying on 429s.
+ * With `cache` set, responses below 500 that weren't rate limited are cached on disk.
+ */
+export async function httpFetch(url: string, init: RequestInit = {}, options: HttpFetchOptions = {}): Promise<Response> {
+  if (!options.cache) {
+    return fetchWithRateLimit(url, init, options);
+  }
+
+  const cacheKey = responseCache.key(['http', init.method || 'GET', url, typeof init.body === 'string' ? init.body : null]);
+  const cached = await responseCache.get<CachedResponse>(options.cache, cacheKey);
+  if (cached) return toResponse(cached, url);
+
+  const response = await fetchWithRateLimit(url, init, options);
+  const cacheable = response.status >= 200 && response.status < 500 && rateLimitDelay(response, 0) === undefined;
+  if (!cacheable) return response;
+
+  const snapshot: CachedResponse = {
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+    body: await response.text(),
+    url: response.url || url,
+  };
+  await responseCache.set(options.cache, cacheKey, snapshot);
+  return toResponse(snapshot, url);
+}
+
+async function fetchWithRateLimit(url: string, init: RequestInit, options: HttpFetchOptions): Promise<Response> {
+  const key = options.provider || rateLimitKeyForUrl(url);
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const scope = currentAbortSignal();
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await rateLimiter.schedule(key, () => {
+      // A cancelled run may have waited in the queue; don't spend the slot on it
+      scope?.throwIfAborted();
+      const signals = [options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : init.signal, scope].filter((s): s is AbortSignal => !!s);
+      return fetch(url, { ...init, signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0] });
+    });
+
+    const delay = rateLimitDelay(response, attempt);
+    if (delay === undefined || attempt >= maxRetries || scope?.aborted) {
+      return response;
+    }
+
+    console.log(`    ⓘ Rate limited by ${key}, retrying in ${Math.ceil(delay / 1000)}s`);
+    await response.body?.cancel();
+    rateLimiter.pause(key, delay);
+  }
+}
+
+/**
+ * Run a non-HTTP provider call (e.g. an LLM request) through the rate limiter,
+ * retrying when the provider reports a 429
+ */
+export async function withRateLimit<T>(key: string, task: () => Promise<T>, maxRetries = DEFAULT_MAX_RETRIES): Promise<T> {
+  const scope = currentAbortSignal();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await rateLimiter.schedule(key, () => {
+        scope?.throwIfAborted();
+        return task();
+      });
+    } catch (error) {
+      const rateLimited = findRateLimitError(error);
+      if (!rateLimited || attempt >= maxRetries || scope?.aborted) throw error;
+
+      const delay = parseRetryAfter(rateLimited.responseHeaders?.['retry-after']) ?? Math.min(1000 * 2 ** attempt, 60000);
+      console.log(`    ⓘ Rate limited by ${key}, retrying in ${Math.ceil(delay / 1000)}s`);
+      rateLimiter.pause(key, delay);
+    }
+  }
+}
+
+interface ProviderError {
+  statusCode?: number;
+  responseHeaders?: Record<string, string>;
+  lastError?: unknown;
+}
+
+/**
+ * AI SDK errors carry statusCode/responseHeaders; retries wrap the last one in `lastError`
+ */
+function findRateLimitError(error: unknown): ProviderError | undefined {
+  let current = error as ProviderError | undefined;
+  while (current && typeof current === 'object') {
+    if (current.statusCode === 429) return current;
+    current = current.lastError as ProviderError | undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,96 @@
+/**
+ * Job Description Parser
+ * Splits a plain-text job description into responsibilities, requirements and nice-to-haves,
+ * and finds the pay range quoted in it
+ */
+
+export interface JobDescriptionSections {
+  responsibilities: string[];
+  requirements: string[];
+  niceToHaves: string[];
+}
+
+type Section = keyof JobDescriptionSections;
+
+// Checked in order: "Preferred qualifications" is a nice-to-have, not a requirement
+const SECTION_HEADINGS: Array<{ section: Section | null; pattern: RegExp }> = [
+  { section: 'niceToHaves', pattern: /nice[ -]to[ -]haves?|bonus(?: points)?|preferred|pluses|a plus|extra credit|desirable|would be great|even better|ideally/i },
+  { section: 'requirements', pattern: /requirements|qualifications|what you(?:'ll| will)? (?:need|bring)|who you are|about you|you (?:have|bring|should have)|what we(?:'re| are)? looking for|must[ -]haves?|skills|experience|your profile|is this you/i },
+  { section: 'responsibilities', pattern: /responsibilit|what you(?:'ll| will)? (?:do|be doing|work on)|your (?:role|tasks|mission|impact)|the role|day[ -]to[ -]day|in this role|you will|your day|what you'll achieve/i },
+  // Headings that end a section without starting one we keep
+  { section: null, pattern: /benefits|perks|what we offer|why (?:join|work)|about (?:us|the company|the team)|compensation|salary|\bpay\b|equal opportunity|how to apply|our (?:values|culture|mission)|interview process|location/i },
+];
+
+const MAX_HEADING_LENGTH = 80;
+const MAX_ITEMS = 30;
+
+const BULLET = /^\s*(?:[-*•·◦▪‣–—]|\d{1,2}[.)])\s*/;
+
+/**
+ * Which section a line heads, undefined if it isn't a heading.
+ * Headings are short and end with a colon, are in Title Case, or are mostly the heading phrase itself,
+ * so a requirement like "Experience with distributed systems" stays an item.
+ */
+function headingSection(line: string): Section | null | undefined {
+  const text = line.replace(BULLET, '').trim();
+  if (!text || text.length > MAX_HEADING_LENGTH) return undefined;
+  if (BULLET.test(line) && !text.endsWith(':')) return undefined;
+  if (/[.!]$/.test(text)) return undefined;
+
+  const heading = SECTION_HEADINGS.find(({ pattern }) => pattern.test(text));
+  if (!heading) return undefined;
+
+  const phraseLength = text.match(heading.pattern)![0].length;
+  const titleCase = text.split(/\s+/).every(word => word.length <= 3 || !/^[a-z]/.test(word));
+  if (!text.endsWith(':') && !titleCase && phraseLength / text.length < 0.6) return undefined;
+
+  return heading.section;
+}
+
+export function parseJobDescription(text: string): JobDescriptionSections {
+  const sections: JobDescriptionSections = { responsibilities: [], requirements: [], niceToHaves: [] };
+  let current: Section | null = null;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    // "Requirements: 5+ years of Go" - a heading with its first item on the same line
+    const inline = line.match(/^([^:]{3,60}):\s+(.+)$/);
+    const inlineSection = inline ? headingSection(`${inline[1]}:`) : undefined;
+    if (inline && inlineSection !== undefined) {
+      current = inlineSection;
+      if (current && sections[current].length < MAX_ITEMS) sections[current].push(inline[2].trim());
+      continue;
+    }
+
+    const section = headingSection(line);
+    if (section !== undefined) {
+      current = section;
+      continue;
+    }
+
+    if (current && sections[current].length < MAX_ITEMS) {
+      sections[current].push(line.replace(BULLET, '').trim());
+    }
+  }
+
+  return sections;
+}
+
+const CURRENCY = '(?:[$€£¥₹]|(?:US|CA|AU|NZ|SG|HK)\\$|USD|EUR|GBP|CAD|AUD|CHF|SEK|NOK|DKK|PLN|INR|JPY|SGD)';
+const AMOUNT = '\\d{1,3}(?:[,. ]\\d{3})*(?:[.,]\\d+)?\\s*[kK]?';
+const RANGE_SEPARATOR = '\\s*(?:-|–|—|to)\\s*';
+const PERIOD = '(?:\\s*(?:per|/|an?)\\s*(?:year|yr|annum|month|mo|hour|hr|day|week))?';
+
+// "$150K – $190K", "€60.000–€75.000 per year", "USD 120,000 - 150,000", "£45k to £55k a year"
+const SALARY_RANGE = new RegExp(
+  `${CURRENCY}\\s?${AMOUNT}(?:\\s*${CURRENCY})?${RANGE_SEPARATOR}(?:${CURRENCY}\\s?)?${AMOUNT}(?:\\s*${CURRENCY})?${PERIOD}`
+);
+
+/**
+ * The first pay range quoted in a description, as written, e.g. "$150,000 - $190,000 per year"
+ */
+export function findSalaryText(text: string): string | undefined {
+  return text.match(SALARY_RANGE)?.[0].trim();
+}
@@ -0,0 +1,118 @@
+/**
+ * Job Normalizer
+ * Turns the free text job boards publish - pay ranges, titles, employment types - into values
+ * that can be compared across postings and companies
+ */
+
+import { EmploymentType, SalaryPeriod, SalaryRange, SeniorityLevel } from '../types/enrichment.js';
+
+// "$" on its own is taken to be US dollars
+const DOLLAR_PREFIXES: Record<string, string> = {
+  US: 'USD', CA: 'CAD', C: 'CAD', AU: 'AUD', A: 'AUD', NZ: 'NZD', SG: 'SGD', S: 'SGD', HK: 'HKD',
+};
+const CURRENCY_SYMBOLS: Record<string, string> = { '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR' };
+const CURRENCY = /(?<![A-Za-z])(US|CA|C|AU|A|NZ|SG|S|HK)?\$|[€£¥₹]|\b(USD|EUR|GBP|CAD|AUD|NZD|CHF|SEK|NOK|DKK|PLN|INR|JPY|SGD|HKD)\b/i;
+
+// "150,000", "60.000", "120 000", "45.50", "150K", "1.5k", "$1.5M"
+const AMOUNT = /(\d{1,3}(?:[,.\u00a0\u202f ]\d{3})+|\d+)(?:[.,](\d{1,2}))?(?!\d)(?:\s*([kKmM])(?![a-zA-Z]))?/g;
+const SUFFIX_MULTIPLIERS: Record<string, number> = { k: 1000, m: 1000000 };
+
+const PERIODS: Array<[SalaryPeriod, RegExp]> = [
+  ['hour', /hour|\bhr\b|\/\s*h\b/i],
+  ['day', /\bday\b|daily/i],
+  ['week', /week/i],
+  ['month', /month|\bmo\b/i],
+  ['year', /year|\byr\b|annum|annual|\bp\.?a\b/i],
+];
+
+function parseCurrency(text: string): string | undefined {
+  const match = text.match(CURRENCY);
+  if (!match) return undefined;
+  if (match[2]) return match[2].toUpperCase();
+  if (match[0].endsWith('$')) return DOLLAR_PREFIXES[(match[1] || 'US').toUpperCase()];
+  return CURRENCY_SYMBOLS[match[0]];
+}
+
+/**
+ * Min, max, currency and period of a published pay range, e.g. "$150K – $190K" or
+ * "€60.000–€75.000 per year". Undefined when there is no amount or no currency.
+ */
+export function parseSalary(text: string | undefined): SalaryRange | undefined {
+  if (!text) return undefined;
+  const currency = parseCurrency(text);
+  if (!currency) return undefined;
+
+  const amounts = [...text.matchAll(AMOUNT)].slice(0, 2).map(match => ({
+    value: parseInt(match[1].replace(/\D/g, ''), 10) + (match[2] ? parseInt(match[2], 10) / 10 ** match[2].length : 0),
+    multiplier: match[3] ? SUFFIX_MULTIPLIERS[match[3].toLowerCase()] : 1,
+  }));
+  if (amounts.length === 0) return undefined;
+
+  // "150-190k": the suffix on the upper bound applies to both
+  if (amounts[1] && amounts[1].multiplier > 1 && amounts[0].multiplier === 1 && amounts[0].value < 1000) {
+    amounts[0].multiplier = amounts[1].multiplier;
+  }
+  const [min, max = min] = amounts.map(({ value, multiplier }) => value * multiplier);
+
+  // Without a stated period, small figures are hourly rates
+  const period = PERIODS.find(([, pattern]) => pattern.test(text))?.[0] ?? (max < 1000 ? 'hour' : 'year');
+
+  return { min: Math.min(min, max), max: Math.max(min, max), currency, period };
+}
+
+export function formatSalaryRange(range: SalaryRange): string {
+  const amount = (n: number) => n.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  const amounts = range.min === range.max ? amount(range.min) : `${amount(range.min)} – ${amount(range.max)}`;
+  return `${range.currency} ${amounts} / ${range.period}`;
+}
+
+// Titles with "Manager" in them that are individual contributor roles
+const IC_MANAGER = /\b(?:product|program|project|account|customer success|partner|partnerships|community|territory|relationship|case|technical account)\s+manager\b/i;
+
+// Checked in order, so "Senior Director" is a director and "Staff Engineering Manager" a manager
+const SENIORITY_PATTERNS: Array<[SeniorityLevel, RegExp]> = [
+  ['c_level', /\bchief\b|\b(?:ceo|cto|cfo|coo|cmo|cpo|cro|ciso|cio)\b|\bfounder\b/i],
+  ['vp', /\b(?:s|e|a)?vp\b|vice[ -]president/i],
+  ['director', /\bdirector\b|\bhead of\b/i],
+  ['manager', /\bmanager\b|\bmgr\b|\bteam lead\b/i],
+  ['intern', /\bintern(?:ship)?\b|working student|werkstudent|praktikum/i],
+  ['principal', /\bprincipal\b|\bdistinguished\b|\bfellow\b|\b(?:v|5)$/i],
+  ['staff', /\bstaff\b|\blead\b(?! gen)|\biv\b|\b4$/i],
+  ['senior', /\bsenior\b|\bsr\b\.?|\biii\b|\b3$/i],
+  ['junior', /\bjunior\b|\bjr\b\.?|\bentry[ -]level\b|\bgraduate\b|\bnew grad\b|\bassociate\b|\bapprentice\b|\btrainee\b|\b(?:i|1)$/i],
+];
+
+/**
+ * Seniority level from a job title; titles without a level marker are mid-level
+ */
+export function classifySeniority(title: string): SeniorityLevel {
+  // Drop parentheticals and anything after a separator, e.g. "Senior Engineer (m/f/d) - Berlin"
+  const text = title.replace(/\([^)]*\)/g, ' ').split(/\s[-–—|@]\s/)[0].replace(/chief of staff/i, ' ').trim();
+
+  for (const [level, pattern] of SENIORITY_PATTERNS) {
+    if (level === 'manager' && IC_MANAGER.test(text) && !/\bmanager,|manager of\b/i.test(text)) continue;
+    if (pattern.test(text)) return level;
+  }
+  return 'mid';
+}
+
+// Checked in order: "Part-time, permanent" is part-time and "Fixed-term full-time" is temporary
+const EMPLOYMENT_TYPES: Array<[EmploymentType, RegExp]> = [
+  ['internship', /\bintern(?:ship)?\b|working student|werkstudent|praktikum|apprentice|trainee/i],
+  ['contract', /contract|freelance|contractor|\bc2h\b/i],
+  ['temporary', /\btemp\b|temporary|fixed[ _-]?term|seasonal|(?<!un)befristet/i],
+  ['part_time', /part[ _-]?time|teilzeit/i],
+  ['full_time', /full[ _-]?time|permanent|regular|vollzeit|unbefristet/i],
+];
+
+/**
+ * Employment type from the board's own field (e.g. Lever's "commitment" or schema.org's "FULL_TIME"),
+ * falling back to hints in the title such as "Intern" or "Contract"
+ */
+export function normalizeEmploymentType(value: string | undefined, title = ''): EmploymentType | undefined {
+  if (value?.trim()) {
+    return EMPLOYMENT_TYPES.find(([, pattern]) => pattern.test(value))?.[0] ?? 'other';
+  }
+  const hinted = EMPLOYMENT_TYPES.find(([type, pattern]) => type !== 'full_time' && pattern.test(title));
+  return hinted?.[0];
+}
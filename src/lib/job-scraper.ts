@@ -1,84 +1,363 @@
 /**
  * Job Posting Scraper
- * Fetches public job listings from Greenhouse, Lever, Ashby
+ * Fetches public job listings from Greenhouse (boards API), Lever, Ashby, Workable, SmartRecruiters,
+ * Recruitee, Personio (XML feed) and Workday (CXS API)
  */
 
+import { httpFetch } from './http-client.js';
+import { AtsBoard, AtsProvider, discoverAtsBoards, iframeSources } from './ats-discovery.js';
+import { parseJobDescription, findSalaryText } from './job-description-parser.js';
+import { classifySeniority, normalizeEmploymentType, parseSalary } from './job-normalizer.js';
+import { parseLocation } from './location-parser.js';
+import { DepartmentTaxonomy, PATH_SEPARATOR } from './department-taxonomy.js';
+import { postingKey } from './hiring-trends.js';
+import { EmploymentType, HiringGeography, HiringTrends, JobLocation, SalaryBand, SalaryRange, SeniorityLevel, WorkMode } from '../types/enrichment.js';
+
 export interface JobPosting {
   title: string;
-  department: string;
+  department: string;          // As the board labels it
+  departmentPath?: string[];   // Where the taxonomy files it, e.g. ["Engineering", "Infrastructure"]
   location: string;
   remote: boolean;
   postedDate?: Date;
   url: string;
   requiredSkills: string[];
   description: string;
+  source?: string;       // Job board the posting came from, e.g. "greenhouse"
+  externalId?: string;   // The board's own id for the posting
+  office?: string;
+  updatedAt?: Date;
+  salary?: string;             // Pay range as published, e.g. "$150,000 - $190,000 per year"
+  salaryRange?: SalaryRange;   // The published range parsed into amounts, currency and period
+  seniority?: SeniorityLevel;
+  employmentType?: EmploymentType;
+  locations?: JobLocation[];   // The location string parsed against the gazetteer
+  workMode?: WorkMode;
+  remoteRegions?: string[];    // Countries (ISO codes) or areas such as "EMEA" remote hires may live in
+  responsibilities?: string[]; // Description sections, filled in by deep fetch
+  requirements?: string[];
+  niceToHaves?: string[];
+}
+
+export interface JobScraperOptions {
+  deepFetch?: boolean; // Fetch each posting's own page or JSON (default JOBS_DEEP_FETCH)
+  taxonomy?: DepartmentTaxonomy; // Department classification (default DEPARTMENT_TAXONOMY_PATH, then the built-in taxonomy)
 }
 
 export interface HiringData {
   openPositions: number;
   jobListings: JobPosting[];
-  departmentHiring: {
-    engineering: number;
-    sales: number;
-    marketing: number;
-    customerSuccess: number;
-    operations: number;
-    other: number;
-  };
-  hiringVelocity?: number; // Estimated jobs posted in last 30 days
+  departmentHiring: Record<string, number>; // Open roles per department and "Department > Sub-department"
+  hiringVelocity?: number; // Postings opened in the last 30 days, see hiring-trends.ts
+  trends?: HiringTrends;   // Set by the engine when earlier runs were recorded
   topSkillsHiring: string[];
+  salaryBands: SalaryBand[];
+  seniorityMix: Record<string, Partial<Record<SeniorityLevel, number>>>;
+  geography: HiringGeography;
+}
+
+// ATSes with a scraper; boards on other ATSes are discovered but not read
+const SCRAPABLE_PROVIDERS: AtsProvider[] = ['greenhouse', 'lever', 'ashby', 'workable', 'smartrecruiters', 'recruitee', 'personio', 'workday'];
+
+// ATSes tried with slugs guessed from the company name and domain when the careers page names none
+const GUESSED_PROVIDERS: AtsProvider[] = ['greenhouse', 'lever', 'ashby'];
+
+const MAX_IFRAMES = 3; // Iframes on the careers page followed when looking for an embedded board
+const MAX_PAGES = 10;  // Pages fetched from paginated board APIs (SmartRecruiters, Workday)
+const MAX_DETAIL_FETCHES = 100; // Postings per company fetched individually in deep-fetch mode
+const DETAIL_FETCH_CONCURRENCY = 4; // Detail fetches in flight at once, queued behind the per-host rate limit
+
+interface CareersPage {
+  url: string;
+  html: string;
+}
+
+// Greenhouse API responses (boards-api.greenhouse.io/v1/boards/{token}/jobs?content=true)
+interface GreenhouseJob {
+  id: number;
+  title: string;
+  updated_at?: string;
+  first_published?: string;
+  absolute_url: string;
+  location?: { name?: string };
+  content?: string; // HTML, entity-encoded
+  departments?: Array<{ name: string }>;
+  offices?: Array<{ name: string; location?: string | null }>;
+}
+
+// Lever postings API (api.lever.co/v0/postings/{slug}?mode=json)
+interface LeverPosting {
+  id: string;
+  text: string;
+  categories?: { team?: string; department?: string; location?: string; commitment?: string; allLocations?: string[] }; // commitment is e.g. "Full-time"
+  createdAt?: number;
+  description?: string; // HTML
+  lists?: Array<{ text: string; content: string }>; // Headed bullet lists, content is <li> HTML
+  additional?: string;  // HTML
+  hostedUrl: string;
+  workplaceType?: string;
+  salaryRange?: { currency: string; interval: string; min: number; max: number };
+}
+
+// Ashby job board API (api.ashbyhq.com/posting-api/job-board/{slug}?includeCompensation=true)
+interface AshbyJob {
+  id: string;
+  title: string;
+  department?: string;
+  team?: string;
+  employmentType?: string; // e.g. "FullTime", "Intern"
+  location?: string;
+  secondaryLocations?: Array<{ location?: string }>;
+  publishedAt?: string;
+  isListed?: boolean;
+  isRemote?: boolean;
+  workplaceType?: string; // "OnSite", "Hybrid" or "Remote"
+  jobUrl: string;
+  descriptionHtml?: string;
+  descriptionPlain?: string;
+  compensation?: { scrapeableCompensationSalarySummary?: string | null }; // e.g. "$150K – $190K"
+}
+
+// Workable widget API (apply.workable.com/api/v1/widget/accounts/{slug}?details=true)
+interface WorkableJob {
+  title: string;
+  shortcode: string;
+  department?: string;
+  telecommuting?: boolean;
+  url?: string;
+  shortlink?: string;
+  published_on?: string;
+  created_at?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  locations?: Array<{ city?: string; region?: string; country?: string }>;
+  employment_type?: string;
+  description?: string; // HTML
+}
+
+// SmartRecruiters posting API (api.smartrecruiters.com/v1/companies/{id}/postings)
+interface SmartRecruitersPosting {
+  id: string;
+  name: string;
+  releasedDate?: string;
+  location?: { city?: string; region?: string; country?: string; remote?: boolean; fullLocation?: string };
+  department?: { label?: string };
+  function?: { label?: string };
+  typeOfEmployment?: { label?: string };
+}
+
+// Recruitee careers site API ({slug}.recruitee.com/api/offers/)
+interface RecruiteeOffer {
+  id: number;
+  title: string;
+  department?: string | null;
+  location?: string;
+  remote?: boolean;
+  careers_url: string;
+  employment_type_code?: string; // e.g. "fulltime_permanent"
+  description?: string;  // HTML
+  requirements?: string; // HTML
+  published_at?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// SmartRecruiters posting detail (api.smartrecruiters.com/v1/companies/{id}/postings/{postingId})
+interface SmartRecruitersPostingDetail {
+  postingUrl?: string;
+  jobAd?: { sections?: Record<string, { title?: string; text?: string }> };
+}
+
+// Workday CXS job search ({tenant}.wdN.myworkdayjobs.com/wday/cxs/{tenant}/{site}/jobs)
+interface WorkdayPosting {
+  title: string;
+  externalPath: string;
+  locationsText?: string;
+  postedOn?: string; // Relative, e.g. "Posted 3 Days Ago"
+  bulletFields?: string[];
+}
+
+// Common tech skills to look for in postings
+const TECH_SKILLS = [
+  'React', 'Vue', 'Angular', 'Node.js', 'Python', 'Go', 'Rust', 'TypeScript',
+  'JavaScript', 'Java', 'Kubernetes', 'Docker', 'AWS', 'GCP', 'Azure',
+  'PostgreSQL', 'MongoDB', 'Redis', 'GraphQL', 'REST API', 'Microservices',
+  'Machine Learning', 'AI', 'Data Science', 'SQL', 'NoSQL', 'CI/CD',
+  'Git', 'Agile', 'Scrum', 'TensorFlow', 'PyTorch', 'Spark', 'Kafka',
+];
+
+// Whole-word matchers, so "Go" doesn't match "good" and "Java" doesn't match "JavaScript"
+const SKILL_PATTERNS = TECH_SKILLS.map(skill => ({
+  skill,
+  pattern: new RegExp(`(?<![\\w.+#])${skill.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}(?![\\w+#]|\\.\\w)`, skill.length <= 3 ? '' : 'i'),
+}));
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Plain text from an HTML fragment, keeping paragraph and list breaks
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<(br|\/p|\/li|\/h\d|\/div)[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ +([,.;:!?])/g, '$1')
+    .replace(/ *\n[\s]*/g, '\n')
+    .trim();
+}
+
+/**
+ * Tech skills mentioned in a piece of text
+ */
+function matchSkills(text: string): string[] {
+  return SKILL_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ skill }) => skill);
+}
+
+/**
+ * Text of the first <tag> element in an XML fragment, unwrapping CDATA
+ */
+function xmlText(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/${tag}>`));
+  if (!match) return '';
+  const value = match[1].trim();
+  const cdata = value.match(/^<!\[CDATA\[([\s\S]*?)\]\]>$/);
+  return cdata ? cdata[1] : decodeEntities(value);
+}
+
+function xmlElements(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/${tag}>`, 'g'))].map(m => m[1]);
+}
+
+/**
+ * Approximate date from Workday's "Posted Today" / "Posted Yesterday" / "Posted 5 Days Ago" / "Posted 30+ Days Ago"
+ */
+function parsePostedOn(text: string | undefined, now = new Date()): Date | undefined {
+  if (!text) return undefined;
+  const days = /today/i.test(text) ? 0 : /yesterday/i.test(text) ? 1 : parseInt(text.match(/(\d+)\+?\s+days?/i)?.[1] || '', 10);
+  if (isNaN(days)) return undefined;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+// schema.org JobPosting as embedded in posting pages
+interface JsonLdJobPosting {
+  '@type'?: string | string[];
+  url?: string;
+  description?: string;
+  datePosted?: string;
+  employmentType?: string | string[]; // e.g. "FULL_TIME"
+  baseSalary?: {
+    currency?: string;
+    value?: { minValue?: number; maxValue?: number; value?: number; unitText?: string } | number;
+  };
+}
+
+const SALARY_INTERVALS: Record<string, string> = {
+  'per-year-salary': 'per year',
+  'per-month-salary': 'per month',
+  'per-week-salary': 'per week',
+  'per-day-wage': 'per day',
+  'per-hour-wage': 'per hour',
+  YEAR: 'per year',
+  MONTH: 'per month',
+  WEEK: 'per week',
+  DAY: 'per day',
+  HOUR: 'per hour',
+};
+
+function formatSalary(currency: string | undefined, min: number | undefined, max: number | undefined, interval: string | undefined): string | undefined {
+  if (!min && !max) return undefined;
+  const amounts = [min, max].filter((n): n is number => !!n).map(n => n.toLocaleString('en-US'));
+  const period = interval ? SALARY_INTERVALS[interval] || interval.toLowerCase() : '';
+  return [currency, [...new Set(amounts)].join(' - '), period].filter(Boolean).join(' ');
+}
+
+function optionalDate(value: string | undefined): Date | undefined {
+  const date = value ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
 }
 
 export class JobScraper {
+  readonly deepFetch: boolean;
+  private taxonomy: DepartmentTaxonomy;
+
+  constructor(options: JobScraperOptions = {}) {
+    this.deepFetch = options.deepFetch ?? process.env.JOBS_DEEP_FETCH === 'true';
+    this.taxonomy = options.taxonomy ?? DepartmentTaxonomy.load();
+  }
+
   /**
    * Find and scrape job postings for a company
    */
   async scrapeJobs(domain: string, companyName: string): Promise<HiringData> {
     console.log(`    → Searching for job postings...`);
 
-    const jobListings: JobPosting[] = [];
+    // Boards the careers page links to or embeds; slugs guessed from the name and domain are the fallback
+    const discovered = await this.discoverBoards(domain);
+    if (discovered.length > 0) {
+      console.log(`    ✓ Careers page uses ${discovered.map(b => `${b.provider} (${b.boardId})`).join(', ')}`);
+    }
 
-    // Try common job board patterns
-    const results = await Promise.allSettled([
-      this.scrapeGreenhouse(domain, companyName),
-      this.scrapeLever(domain, companyName),
-      this.scrapeAshby(domain, companyName),
-      this.scrapeCareersPage(domain),
-    ]);
+    const boards = discovered.filter(board => SCRAPABLE_PROVIDERS.includes(board.provider));
+    const results = await Promise.allSettled(
+      boards.length > 0
+        ? boards.map(board => this.scrapeBoard(board))
+        : GUESSED_PROVIDERS.map(provider => this.scrapeGuessedBoard(provider, domain, companyName))
+    );
 
-    // Collect all successful results
+    // Collect all successful results, once per posting when several boards list the same job
+    const jobListings: JobPosting[] = [];
+    const seen = new Set<string>();
     for (const result of results) {
-      if (result.status === 'fulfilled' && result.value.length > 0) {
-        jobListings.push(...result.value);
+      if (result.status !== 'fulfilled') continue;
+      for (const job of result.value) {
+        const key = postingKey(job);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        jobListings.push(job);
       }
     }
 
     console.log(`    ✓ Found ${jobListings.length} job postings`);
 
-    // Calculate department breakdown
-    const departmentHiring = {
-      engineering: 0,
-      sales: 0,
-      marketing: 0,
-      customerSuccess: 0,
-      operations: 0,
-      other: 0,
-    };
+    if (this.deepFetch && jobListings.length > 0) {
+      await this.fetchDetails(jobListings);
+    }
 
     for (const job of jobListings) {
-      const dept = job.department.toLowerCase();
-      if (dept.includes('engineer') || dept.includes('technical') || dept.includes('developer')) {
-        departmentHiring.engineering++;
-      } else if (dept.includes('sales') || dept.includes('account')) {
-        departmentHiring.sales++;
-      } else if (dept.includes('marketing') || dept.includes('growth')) {
-        departmentHiring.marketing++;
-      } else if (dept.includes('customer') || dept.includes('support') || dept.includes('success')) {
-        departmentHiring.customerSuccess++;
-      } else if (dept.includes('operations') || dept.includes('ops') || dept.includes('finance')) {
-        departmentHiring.operations++;
-      } else {
-        departmentHiring.other++;
+      job.salaryRange = parseSalary(job.salary);
+      job.seniority = classifySeniority(job.title);
+      job.employmentType ||= normalizeEmploymentType(undefined, job.title);
+      job.departmentPath = this.taxonomy.classify(job.department, job.title);
+
+      const { locations, workMode, remoteRegions } = parseLocation(job.location, job.remote);
+      job.locations = locations;
+      job.workMode = workMode;
+      job.remoteRegions = remoteRegions;
+      job.remote = workMode === 'remote';
+    }
+
+    // Calculate department breakdown, counting each posting toward its department and every sub-department above it
+    const departmentHiring: Record<string, number> = {};
+    for (const job of jobListings) {
+      const path = job.departmentPath!;
+      for (let depth = 1; depth <= path.length; depth++) {
+        const key = path.slice(0, depth).join(PATH_SEPARATOR);
+        departmentHiring[key] = (departmentHiring[key] || 0) + 1;
       }
     }
 
@@ -90,287 +369,694 @@ export class JobScraper {
       jobListings,
       departmentHiring,
       topSkillsHiring,
+      salaryBands: this.salaryBands(jobListings),
+      seniorityMix: this.seniorityMix(jobListings),
+      geography: this.geography(jobListings),
     };
   }
 
   /**
-   * Scrape Greenhouse job board
+   * Lowest and highest published pay per department, kept apart by currency and period
    */
-  private async scrapeGreenhouse(domain: string, companyName: string): Promise<JobPosting[]> {
-    try {
-      // Greenhouse uses pattern: boards.greenhouse.io/{company}
-      const slug = companyName.toLowerCase().replace(/\s+/g, '').replace(/[^a-z0-9]/g, '');
-      const urls = [
-        `https://boards.greenhouse.io/${slug}`,
-        `https://boards.greenhouse.io/${domain.split('.')[0]}`,
-      ];
-
-      for (const url of urls) {
-        try {
-          const response = await fetch(url, {
-            headers: { 'User-Agent': 'Mozilla/5.0' },
-            signal: AbortSignal.timeout(8000),
-          });
+  private salaryBands(jobs: JobPosting[]): SalaryBand[] {
+    const bands = new Map<string, SalaryBand>();
+    for (const job of jobs) {
+      if (!job.salaryRange) continue;
+      const department = job.departmentPath?.[0] || this.taxonomy.fallback;
+      const { min, max, currency, period } = job.salaryRange;
+      const key = `${department}|${currency}|${period}`;
+      const band = bands.get(key);
+      if (band) {
+        band.min = Math.min(band.min, min);
+        band.max = Math.max(band.max, max);
+        band.postings++;
+      } else {
+        bands.set(key, { department, min, max, currency, period, postings: 1 });
+      }
+    }
+    return [...bands.values()].sort((a, b) => b.postings - a.postings);
+  }
 
-          if (!response.ok) continue;
-
-          const html = await response.text();
-
-          // Greenhouse uses sections with data-qa="opening"
-          const jobs: JobPosting[] = [];
-          const jobMatches = html.matchAll(/<div[^>]*data-qa="opening"[^>]*>([\s\S]*?)<\/div>/g);
-
-          for (const match of jobMatches) {
-            const jobHtml = match[1];
-
-            // Extract job title
-            const titleMatch = jobHtml.match(/<a[^>]*>(.*?)<\/a>/);
-            const title = titleMatch ? titleMatch[1].trim() : '';
-
-            // Extract location
-            const locationMatch = jobHtml.match(/location[^>]*>(.*?)</i);
-            const location = locationMatch ? locationMatch[1].trim() : '';
-
-            // Extract department
-            const deptMatch = jobHtml.match(/department[^>]*>(.*?)</i);
-            const department = deptMatch ? deptMatch[1].trim() : 'Other';
-
-            if (title) {
-              jobs.push({
-                title,
-                department,
-                location,
-                remote: location.toLowerCase().includes('remote'),
-                url,
-                requiredSkills: [],
-                description: '',
-              });
-            }
-          }
-
-          if (jobs.length > 0) {
-            console.log(`    ✓ Greenhouse: ${jobs.length} jobs`);
-            return jobs;
-          }
-        } catch (error) {
-          continue;
-        }
+  /**
+   * Open roles per country and metro area, counting each posting once per place it's open in.
+   * Remote roles count toward the countries they're open to.
+   */
+  private geography(jobs: JobPosting[]): HiringGeography {
+    const countries = new Map<string, number>();
+    const metros = new Map<string, { metro: string; country: string; openRoles: number }>();
+    const workModes: HiringGeography['workModes'] = {};
+
+    for (const job of jobs) {
+      const jobCountries = new Set([
+        ...(job.locations || []).map(location => location.country),
+        ...(job.remoteRegions || []).filter(region => /^[A-Z]{2}$/.test(region)),
+      ].filter((country): country is string => !!country));
+      for (const country of jobCountries) countries.set(country, (countries.get(country) || 0) + 1);
+
+      const jobMetros = new Map((job.locations || []).filter(l => l.metro && l.country).map(l => [`${l.metro}|${l.country}`, l]));
+      for (const [key, location] of jobMetros) {
+        const entry = metros.get(key) || { metro: location.metro!, country: location.country!, openRoles: 0 };
+        entry.openRoles++;
+        metros.set(key, entry);
       }
 
-      return [];
-    } catch (error) {
-      return [];
+      if (job.workMode) workModes[job.workMode] = (workModes[job.workMode] || 0) + 1;
+    }
+
+    return {
+      countries: [...countries].map(([country, openRoles]) => ({ country, openRoles })).sort((a, b) => b.openRoles - a.openRoles),
+      metros: [...metros.values()].sort((a, b) => b.openRoles - a.openRoles),
+      workModes,
+    };
+  }
+
+  /**
+   * Open roles per department and seniority level
+   */
+  private seniorityMix(jobs: JobPosting[]): Record<string, Partial<Record<SeniorityLevel, number>>> {
+    const mix: Record<string, Partial<Record<SeniorityLevel, number>>> = {};
+    for (const job of jobs) {
+      const department = job.departmentPath?.[0] || this.taxonomy.fallback;
+      const level = job.seniority || classifySeniority(job.title);
+      mix[department] ||= {};
+      mix[department][level] = (mix[department][level] || 0) + 1;
+    }
+    return mix;
+  }
+
+  /**
+   * Scrape a discovered board with the scraper for its ATS
+   */
+  private async scrapeBoard(board: AtsBoard): Promise<JobPosting[]> {
+    switch (board.provider) {
+      case 'greenhouse':
+        return this.scrapeGreenhouse(board.boardId);
+      case 'lever':
+        return this.scrapeLever(board.boardId);
+      case 'ashby':
+        return this.scrapeAshby(board.boardId);
+      case 'workable':
+        return this.scrapeWorkable(board.boardId);
+      case 'smartrecruiters':
+        return this.scrapeSmartRecruiters(board.boardId);
+      case 'recruitee':
+        return this.scrapeRecruitee(board.boardId);
+      case 'personio':
+        return this.scrapePersonio(board.host || `${board.boardId}.jobs.personio.de`);
+      case 'workday':
+        return board.host ? this.scrapeWorkday(board.host, board.boardId) : [];
+      default:
+        return [];
     }
   }
 
   /**
-   * Scrape Lever job board
+   * Try slugs derived from the company name and domain until one has postings
    */
-  private async scrapeLever(domain: string, companyName: string): Promise<JobPosting[]> {
+  private async scrapeGuessedBoard(provider: AtsProvider, domain: string, companyName: string): Promise<JobPosting[]> {
+    const slugs = new Set([
+      companyName.toLowerCase().replace(/\s+/g, '').replace(/[^a-z0-9]/g, ''),
+      domain.split('.')[0].toLowerCase(),
+    ]);
+
+    for (const slug of slugs) {
+      if (!slug) continue;
+      const jobs = await this.scrapeBoard({ provider, boardId: slug, url: `https://${domain}` });
+      if (jobs.length > 0) return jobs;
+    }
+    return [];
+  }
+
+  /**
+   * Fetch every posting on a Greenhouse board through the public boards API
+   */
+  private async scrapeGreenhouse(token: string): Promise<JobPosting[]> {
     try {
-      // Lever uses pattern: jobs.lever.co/{company}
-      const slug = companyName.toLowerCase().replace(/\s+/g, '').replace(/[^a-z0-9]/g, '');
-      const urls = [
-        `https://jobs.lever.co/${slug}`,
-        `https://jobs.lever.co/${domain.split('.')[0]}`,
-      ];
-
-      for (const url of urls) {
-        try {
-          const response = await fetch(url, {
-            headers: { 'User-Agent': 'Mozilla/5.0' },
-            signal: AbortSignal.timeout(8000),
-          });
+      const url = `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(token)}/jobs?content=true`;
+      const response = await httpFetch(url, {
+        headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json' },
+      }, { timeoutMs: 15000, cache: 'jobs' });
 
-          if (!response.ok) continue;
+      // Unknown tokens are a 404
+      if (!response.ok) return [];
 
-          const html = await response.text();
+      const { jobs = [] } = await response.json() as { jobs?: GreenhouseJob[] };
+      const postings = jobs.map(job => this.toGreenhousePosting(job));
 
-          // Lever uses posting class
-          const jobs: JobPosting[] = [];
-          const jobMatches = html.matchAll(/<div[^>]*class="posting"[^>]*>([\s\S]*?)<\/div>/g);
+      console.log(`    ✓ Greenhouse (${token}): ${postings.length} jobs`);
+      return postings;
+    } catch (error) {
+      return [];
+    }
+  }
 
-          for (const match of jobMatches) {
-            const jobHtml = match[1];
+  private toGreenhousePosting(job: GreenhouseJob): JobPosting {
+    const location = job.location?.name?.trim() || '';
+    const office = job.offices?.map(o => o.name).filter(Boolean).join(', ') || undefined;
+    // Content comes entity-encoded: decode once to get the HTML, then reduce it to text
+    const description = job.content ? htmlToText(decodeEntities(job.content)) : '';
+
+    return {
+      title: job.title.trim(),
+      department: job.departments?.[0]?.name || 'Other',
+      location,
+      remote: /remote/i.test(`${location} ${office || ''}`),
+      postedDate: job.first_published ? new Date(job.first_published) : undefined,
+      url: job.absolute_url,
+      requiredSkills: matchSkills(`${job.title} ${description}`),
+      description,
+      source: 'greenhouse',
+      externalId: String(job.id),
+      office,
+      updatedAt: job.updated_at ? new Date(job.updated_at) : undefined,
+    };
+  }
 
-            const titleMatch = jobHtml.match(/<h5[^>]*>(.*?)<\/h5>/);
-            const title = titleMatch ? titleMatch[1].trim() : '';
+  /**
+   * Scrape a Lever board through the public postings API, which includes full descriptions
+   */
+  private async scrapeLever(slug: string): Promise<JobPosting[]> {
+    try {
+      const url = `https://api.lever.co/v0/postings/${encodeURIComponent(slug)}?mode=json`;
+      const response = await httpFetch(url, {
+        headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json' },
+      }, { timeoutMs: 15000, cache: 'jobs' });
 
-            const locationMatch = jobHtml.match(/location[^>]*>(.*?)</i);
-            const location = locationMatch ? locationMatch[1].trim() : '';
+      if (!response.ok) return [];
 
-            const deptMatch = jobHtml.match(/department[^>]*>(.*?)</i);
-            const department = deptMatch ? deptMatch[1].trim() : 'Other';
+      const postings = await response.json() as LeverPosting[];
+      if (!Array.isArray(postings)) return [];
 
-            if (title) {
-              jobs.push({
-                title,
-                department,
-                location,
-                remote: location.toLowerCase().includes('remote'),
-                url,
-                requiredSkills: [],
-                description: '',
-              });
-            }
-          }
+      const jobs = postings.map((posting): JobPosting => {
+        const { team, department, location = '', allLocations } = posting.categories || {};
+        const lists = (posting.lists || []).map(list => `<h3>${list.text}</h3><ul>${list.content}</ul>`).join('');
+        const description = htmlToText(`${posting.description || ''}${lists}${posting.additional || ''}`);
+        const salary = posting.salaryRange
+          ? formatSalary(posting.salaryRange.currency, posting.salaryRange.min, posting.salaryRange.max, posting.salaryRange.interval)
+          : undefined;
+        return {
+          title: posting.text.trim(),
+          department: team || department || 'Other',
+          location: allLocations?.length ? allLocations.join(', ') : location,
+          remote: posting.workplaceType === 'remote' || /remote/i.test(location),
+          postedDate: posting.createdAt ? new Date(posting.createdAt) : undefined,
+          url: posting.hostedUrl,
+          requiredSkills: matchSkills(`${posting.text} ${description}`),
+          description,
+          source: 'lever',
+          externalId: posting.id,
+          salary,
+          employmentType: normalizeEmploymentType(posting.categories?.commitment),
+        };
+      });
 
-          if (jobs.length > 0) {
-            console.log(`    ✓ Lever: ${jobs.length} jobs`);
-            return jobs;
-          }
-        } catch (error) {
-          continue;
-        }
+      if (jobs.length > 0) {
+        console.log(`    ✓ Lever (${slug}): ${jobs.length} jobs`);
       }
+      return jobs;
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Scrape an Ashby board through the public job board API, which includes descriptions and pay
+   */
+  private async scrapeAshby(slug: string): Promise<JobPosting[]> {
+    try {
+      const url = `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(slug)}?includeCompensation=true`;
+      const response = await httpFetch(url, {
+        headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json' },
+      }, { timeoutMs: 15000, cache: 'jobs' });
+
+      if (!response.ok) return [];
+
+      const { jobs = [] } = await response.json() as { jobs?: AshbyJob[] };
+      const postings = jobs.filter(job => job.isListed !== false).map((job): JobPosting => {
+        const locations = [job.location, ...(job.secondaryLocations || []).map(l => l.location)].filter((l): l is string => !!l);
+        const location = [...new Set(locations)].join(', ');
+        const description = job.descriptionHtml ? htmlToText(job.descriptionHtml) : job.descriptionPlain?.trim() || '';
+        return {
+          title: job.title.trim(),
+          department: job.department || job.team || 'Other',
+          location,
+          remote: !!job.isRemote || job.workplaceType === 'Remote' || /remote/i.test(location),
+          postedDate: optionalDate(job.publishedAt),
+          url: job.jobUrl,
+          requiredSkills: matchSkills(`${job.title} ${description}`),
+          description,
+          source: 'ashby',
+          externalId: job.id,
+          salary: job.compensation?.scrapeableCompensationSalarySummary || undefined,
+          employmentType: normalizeEmploymentType(job.employmentType),
+        };
+      });
 
+      if (postings.length > 0) {
+        console.log(`    ✓ Ashby (${slug}): ${postings.length} jobs`);
+      }
+      return postings;
+    } catch (error) {
       return [];
+    }
+  }
+
+  /**
+   * Scrape a Workable board through its public widget API
+   */
+  private async scrapeWorkable(slug: string): Promise<JobPosting[]> {
+    try {
+      const url = `https://apply.workable.com/api/v1/widget/accounts/${encodeURIComponent(slug)}?details=true`;
+      const response = await httpFetch(url, {
+        headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json' },
+      }, { timeoutMs: 15000, cache: 'jobs' });
+
+      if (!response.ok) return [];
+
+      const { jobs = [] } = await response.json() as { jobs?: WorkableJob[] };
+      const postings = jobs.map((job): JobPosting => {
+        const place = job.locations?.[0] || { city: job.city, region: job.state, country: job.country };
+        const location = [place.city, place.region, place.country].filter(Boolean).join(', ');
+        const description = job.description ? htmlToText(job.description) : '';
+        return {
+          title: job.title.trim(),
+          department: job.department || 'Other',
+          location,
+          remote: !!job.telecommuting || /remote/i.test(location),
+          postedDate: optionalDate(job.published_on || job.created_at),
+          url: job.url || job.shortlink || `https://apply.workable.com/${slug}/j/${job.shortcode}/`,
+          requiredSkills: matchSkills(`${job.title} ${description}`),
+          description,
+          source: 'workable',
+          externalId: job.shortcode,
+          employmentType: normalizeEmploymentType(job.employment_type),
+        };
+      });
+
+      console.log(`    ✓ Workable (${slug}): ${postings.length} jobs`);
+      return postings;
     } catch (error) {
       return [];
     }
   }
 
   /**
-   * Scrape Ashby job board
+   * Scrape a SmartRecruiters company through the public posting API, a page of 100 at a time.
+   * The list endpoint carries no descriptions, so skills come from titles only.
    */
-  private async scrapeAshby(domain: string, companyName: string): Promise<JobPosting[]> {
+  private async scrapeSmartRecruiters(companyId: string): Promise<JobPosting[]> {
+    const postings: JobPosting[] = [];
     try {
-      // Ashby uses pattern: jobs.ashbyhq.com/{company}
-      const slug = companyName.toLowerCase().replace(/\s+/g, '').replace(/[^a-z0-9]/g, '');
-      const urls = [
-        `https://jobs.ashbyhq.com/${slug}`,
-        `https://jobs.ashbyhq.com/${domain.split('.')[0]}`,
-      ];
-
-      for (const url of urls) {
-        try {
-          const response = await fetch(url, {
-            headers: { 'User-Agent': 'Mozilla/5.0' },
-            signal: AbortSignal.timeout(8000),
-          });
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const url = `https://api.smartrecruiters.com/v1/companies/${encodeURIComponent(companyId)}/postings?limit=100&offset=${page * 100}`;
+        const response = await httpFetch(url, {
+          headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json' },
+        }, { timeoutMs: 15000, cache: 'jobs' });
 
-          if (!response.ok) continue;
-
-          const html = await response.text();
-
-          // Ashby typically uses JSON in script tags
-          const jobs: JobPosting[] = [];
-          const scriptMatch = html.match(/<script[^>]*>.*?postings.*?(\[[\s\S]*?\])/);
-
-          if (scriptMatch) {
-            try {
-              const jsonData = JSON.parse(scriptMatch[1]);
-              for (const job of jsonData) {
-                if (job.title) {
-                  jobs.push({
-                    title: job.title,
-                    department: job.department || job.team || 'Other',
-                    location: job.location || '',
-                    remote: (job.location || '').toLowerCase().includes('remote'),
-                    url,
-                    requiredSkills: [],
-                    description: job.description || '',
-                  });
-                }
-              }
-            } catch (e) {
-              // JSON parse failed, continue
-            }
-          }
-
-          if (jobs.length > 0) {
-            console.log(`    ✓ Ashby: ${jobs.length} jobs`);
-            return jobs;
-          }
-        } catch (error) {
-          continue;
+        if (!response.ok) break;
+
+        const { content = [], totalFound = 0 } = await response.json() as { content?: SmartRecruitersPosting[]; totalFound?: number };
+        for (const posting of content) {
+          const location = posting.location?.fullLocation
+            || [posting.location?.city, posting.location?.region, posting.location?.country?.toUpperCase()].filter(Boolean).join(', ');
+          postings.push({
+            title: posting.name.trim(),
+            department: posting.department?.label || posting.function?.label || 'Other',
+            location,
+            remote: !!posting.location?.remote || /remote/i.test(location),
+            postedDate: optionalDate(posting.releasedDate),
+            url: `https://jobs.smartrecruiters.com/${companyId}/${posting.id}`,
+            requiredSkills: matchSkills(posting.name),
+            description: '',
+            source: 'smartrecruiters',
+            externalId: posting.id,
+            employmentType: normalizeEmploymentType(posting.typeOfEmployment?.label),
+          });
         }
+
+        if (content.length === 0 || postings.length >= totalFound) break;
       }
+    } catch (error) {
+      // Keep the pages fetched so far
+    }
+
+    if (postings.length > 0) {
+      console.log(`    ✓ SmartRecruiters (${companyId}): ${postings.length} jobs`);
+    }
+    return postings;
+  }
+
+  /**
+   * Scrape a Recruitee careers site through its offers API
+   */
+  private async scrapeRecruitee(slug: string): Promise<JobPosting[]> {
+    try {
+      const url = `https://${slug}.recruitee.com/api/offers/`;
+      const response = await httpFetch(url, {
+        headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json' },
+      }, { timeoutMs: 15000, cache: 'jobs' });
+
+      if (!response.ok) return [];
+
+      const { offers = [] } = await response.json() as { offers?: RecruiteeOffer[] };
+      const postings = offers.map((offer): JobPosting => {
+        const description = htmlToText([offer.description, offer.requirements].filter(Boolean).join('\n'));
+        const location = offer.location || '';
+        return {
+          title: offer.title.trim(),
+          department: offer.department || 'Other',
+          location,
+          remote: !!offer.remote || /remote/i.test(location),
+          postedDate: optionalDate(offer.published_at || offer.created_at),
+          url: offer.careers_url,
+          requiredSkills: matchSkills(`${offer.title} ${description}`),
+          description,
+          source: 'recruitee',
+          externalId: String(offer.id),
+          updatedAt: optionalDate(offer.updated_at),
+          employmentType: normalizeEmploymentType(offer.employment_type_code),
+        };
+      });
 
+      console.log(`    ✓ Recruitee (${slug}): ${postings.length} jobs`);
+      return postings;
+    } catch (error) {
       return [];
+    }
+  }
+
+  /**
+   * Scrape a Personio job page through its XML feed, e.g. acme.jobs.personio.de/xml
+   */
+  private async scrapePersonio(host: string): Promise<JobPosting[]> {
+    try {
+      const url = `https://${host}/xml?language=en`;
+      const response = await httpFetch(url, {
+        headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/xml' },
+      }, { timeoutMs: 15000, cache: 'jobs' });
+
+      if (!response.ok) return [];
+
+      const xml = await response.text();
+      const postings = xmlElements(xml, 'position').map((position): JobPosting => {
+        // Description sections have <name> elements of their own
+        const header = position.replace(/<jobDescriptions>[\s\S]*?<\/jobDescriptions>/, '');
+        const id = xmlText(header, 'id');
+        const title = xmlText(header, 'name');
+        const additionalOffices = xmlElements(header, 'additionalOffices')[0] || '';
+        const offices = [
+          xmlText(header.replace(/<additionalOffices>[\s\S]*?<\/additionalOffices>/, ''), 'office'),
+          ...xmlElements(additionalOffices, 'office').map(office => decodeEntities(office.trim())),
+        ].filter(Boolean);
+        const description = htmlToText(
+          xmlElements(position, 'jobDescription')
+            .map(section => `<h3>${xmlText(section, 'name')}</h3>${xmlText(section, 'value')}`)
+            .join('')
+        );
+        return {
+          title,
+          department: xmlText(position, 'department') || 'Other',
+          location: offices.join(', '),
+          remote: /remote/i.test(offices.join(' ')),
+          postedDate: optionalDate(xmlText(position, 'createdAt')),
+          url: `https://${host}/job/${id}`,
+          requiredSkills: matchSkills(`${title} ${description}`),
+          description,
+          source: 'personio',
+          externalId: id,
+          office: offices[0] || undefined,
+          // employmentType is e.g. "permanent" and schedule "part-time"; together they say which it is
+          employmentType: normalizeEmploymentType([xmlText(header, 'employmentType'), xmlText(header, 'schedule')].filter(Boolean).join(', ')),
+        };
+      }).filter(posting => posting.title);
+
+      console.log(`    ✓ Personio (${host}): ${postings.length} jobs`);
+      return postings;
     } catch (error) {
       return [];
     }
   }
 
   /**
-   * Scrape company's own careers page
+   * Scrape a Workday site through the CXS search API its career site uses, 20 postings per page.
+   * Search results carry no descriptions, and posting dates are relative ("Posted 3 Days Ago").
    */
-  private async scrapeCareersPage(domain: string): Promise<JobPosting[]> {
+  private async scrapeWorkday(host: string, site: string): Promise<JobPosting[]> {
+    const tenant = host.split('.')[0];
+    const url = `https://${host}/wday/cxs/${tenant}/${site}/jobs`;
+    const postings: JobPosting[] = [];
+
     try {
-      const careerUrls = [
-        `https://${domain}/careers`,
-        `https://${domain}/jobs`,
-        `https://${domain}/about/careers`,
-        `https://careers.${domain}`,
-      ];
-
-      for (const url of careerUrls) {
-        try {
-          const response = await fetch(url, {
-            headers: { 'User-Agent': 'Mozilla/5.0' },
-            signal: AbortSignal.timeout(8000),
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const response = await httpFetch(url, {
+          method: 'POST',
+          headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json', 'Content-Type': 'application/json' },
+          body: JSON.stringify({ appliedFacets: {}, limit: 20, offset: page * 20, searchText: '' }),
+        }, { timeoutMs: 15000, cache: 'jobs' });
+
+        if (!response.ok) break;
+
+        const { jobPostings = [], total = 0 } = await response.json() as { jobPostings?: WorkdayPosting[]; total?: number };
+        for (const posting of jobPostings) {
+          const location = posting.locationsText || '';
+          postings.push({
+            title: posting.title.trim(),
+            // Search results don't include the department
+            department: 'Other',
+            location,
+            remote: /remote/i.test(location),
+            postedDate: parsePostedOn(posting.postedOn),
+            url: `https://${host}/${site}${posting.externalPath}`,
+            requiredSkills: matchSkills(posting.title),
+            description: '',
+            source: 'workday',
+            externalId: posting.bulletFields?.[0] || posting.externalPath,
           });
+        }
+
+        // Workday only reports the total on the first page
+        if (jobPostings.length < 20 || (total > 0 && postings.length >= total)) break;
+      }
+    } catch (error) {
+      // Keep the pages fetched so far
+    }
 
-          if (!response.ok) continue;
-
-          const html = await response.text();
-
-          // Look for common patterns indicating job postings
-          const jobCount = this.estimateJobCount(html);
-
-          if (jobCount > 0) {
-            console.log(`    ✓ Careers page: ~${jobCount} positions`);
-            // For now, just return count indication
-            // Full scraping would need per-site customization
-            return [{
-              title: 'Various positions',
-              department: 'Multiple',
-              location: 'Various',
-              remote: true,
-              url,
-              requiredSkills: [],
-              description: `Found ${jobCount} job listings on careers page`,
-            }];
-          }
+    if (postings.length > 0) {
+      console.log(`    ✓ Workday (${tenant}/${site}): ${postings.length} jobs`);
+    }
+    return postings;
+  }
+
+  /**
+   * Deep fetch: complete each posting from its own page or JSON, then split its description into
+   * sections and take required skills and pay from them
+   */
+  private async fetchDetails(postings: JobPosting[]): Promise<void> {
+    // Postings that only point at their board have no page of their own
+    const urlCounts = new Map<string, number>();
+    for (const posting of postings) urlCounts.set(posting.url, (urlCounts.get(posting.url) || 0) + 1);
+
+    // A few at a time, so a large board doesn't queue every fetch (and its timeout) at once
+    const queue = postings.slice(0, MAX_DETAIL_FETCHES);
+    let fetched = 0;
+    const worker = async () => {
+      for (let posting = queue.shift(); posting; posting = queue.shift()) {
+        try {
+          if (urlCounts.get(posting.url) === 1 && await this.fetchDetail(posting)) fetched++;
         } catch (error) {
-          continue;
+          // Keep what the board listed
         }
       }
+    };
+    await Promise.all(Array.from({ length: DETAIL_FETCH_CONCURRENCY }, worker));
 
-      return [];
-    } catch (error) {
-      return [];
+    // Postings past the fetch cap still get sections from the description the board listed
+    for (const posting of postings) this.applyDescriptionSections(posting);
+
+    const skipped = postings.length > MAX_DETAIL_FETCHES ? ` (first ${MAX_DETAIL_FETCHES} fetched, the rest kept as listed)` : '';
+    console.log(`    ✓ Fetched details for ${fetched}/${postings.length} postings${skipped}`);
+  }
+
+  /**
+   * Fill in a posting from the most detailed source for its ATS. Returns whether anything was fetched.
+   */
+  private async fetchDetail(posting: JobPosting): Promise<boolean> {
+    switch (posting.source) {
+      case 'lever':
+      case 'ashby':
+        // The postings API already returns everything
+        return false;
+      case 'smartrecruiters':
+        return this.fetchSmartRecruitersDetail(posting);
+      case 'workday':
+        return this.fetchWorkdayDetail(posting);
+      default:
+        return this.fetchPostingPage(posting);
     }
   }
 
+  private async fetchSmartRecruitersDetail(posting: JobPosting): Promise<boolean> {
+    const [companyId, postingId] = new URL(posting.url).pathname.split('/').filter(Boolean);
+    if (!companyId || !postingId) return false;
+
+    const response = await httpFetch(`https://api.smartrecruiters.com/v1/companies/${companyId}/postings/${postingId}`, {
+      headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json' },
+    }, { timeoutMs: 15000, cache: 'jobs' });
+    if (!response.ok) return false;
+
+    const detail = await response.json() as SmartRecruitersPostingDetail;
+    const sections = detail.jobAd?.sections || {};
+    // The company blurb is the same on every posting, so it's left out
+    const html = ['jobDescription', 'qualifications', 'additionalInformation']
+      .map(key => sections[key])
+      .filter(section => section?.text)
+      .map(section => `<h3>${section!.title || ''}</h3>${section!.text}`)
+      .join('');
+
+    if (html) posting.description = htmlToText(html);
+    if (detail.postingUrl) posting.url = detail.postingUrl;
+    return true;
+  }
+
+  private async fetchWorkdayDetail(posting: JobPosting): Promise<boolean> {
+    // Posting URLs are https://{host}/{site}/job/...; the CXS API serves the same path under /wday/cxs/{tenant}
+    const { host, pathname } = new URL(posting.url);
+    const tenant = host.split('.')[0];
+
+    const response = await httpFetch(`https://${host}/wday/cxs/${tenant}${pathname}`, {
+      headers: { 'User-Agent': 'Mozilla/5.0', Accept: 'application/json' },
+    }, { timeoutMs: 15000, cache: 'jobs' });
+    if (!response.ok) return false;
+
+    const { jobPostingInfo: info } = await response.json() as {
+      jobPostingInfo?: { jobDescription?: string; startDate?: string; externalUrl?: string; location?: string; timeType?: string };
+    };
+    if (!info) return false;
+
+    posting.employmentType ||= normalizeEmploymentType(info.timeType);
+    if (info.jobDescription) posting.description = htmlToText(info.jobDescription);
+    posting.postedDate = optionalDate(info.startDate) || posting.postedDate;
+    if (info.externalUrl) posting.url = info.externalUrl;
+    return true;
+  }
+
   /**
-   * Estimate job count from careers page HTML
+   * Read the schema.org JobPosting most job pages embed for search engines, plus the canonical link
    */
-  private estimateJobCount(html: string): number {
-    const patterns = [
-      /(\d+)\s+open\s+positions?/i,
-      /(\d+)\s+openings?/i,
-      /(\d+)\s+jobs?/i,
-      /we're\s+hiring\s+(\d+)/i,
-    ];
+  private async fetchPostingPage(posting: JobPosting): Promise<boolean> {
+    const response = await httpFetch(posting.url, {
+      headers: { 'User-Agent': 'Mozilla/5.0' },
+    }, { timeoutMs: 10000, cache: 'jobs' });
+    if (!response.ok) return false;
+
+    const html = await response.text();
+    const jsonLd = this.findJsonLdJobPosting(html);
+    const canonical = html.match(/<link[^>]*rel=["']canonical["'][^>]*href=["']([^"']+)["']/i)?.[1]
+      || html.match(/<link[^>]*href=["']([^"']+)["'][^>]*rel=["']canonical["']/i)?.[1];
+
+    if (jsonLd?.description) {
+      const description = htmlToText(decodeEntities(jsonLd.description));
+      if (description.length > posting.description.length) posting.description = description;
+    }
+    if (jsonLd?.baseSalary && !posting.salary) {
+      const { currency, value } = jsonLd.baseSalary;
+      posting.salary = typeof value === 'number'
+        ? formatSalary(currency, value, undefined, undefined)
+        : formatSalary(currency, value?.minValue ?? value?.value, value?.maxValue, value?.unitText);
+    }
+    posting.postedDate ||= optionalDate(jsonLd?.datePosted);
+    if (jsonLd?.employmentType) {
+      posting.employmentType ||= normalizeEmploymentType([jsonLd.employmentType].flat().join(', '));
+    }
+
+    const url = jsonLd?.url || (canonical && decodeEntities(canonical));
+    if (url && /^https?:\/\//.test(url)) posting.url = url;
+    return !!jsonLd || !!canonical;
+  }
 
-    for (const pattern of patterns) {
-      const match = html.match(pattern);
-      if (match) {
-        return parseInt(match[1], 10);
+  private findJsonLdJobPosting(html: string): JsonLdJobPosting | undefined {
+    for (const match of html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+      try {
+        const json = JSON.parse(match[1].trim());
+        const items: unknown[] = Array.isArray(json) ? json : [json, ...(Array.isArray(json?.['@graph']) ? json['@graph'] : [])];
+        const posting = items.find((item): item is JsonLdJobPosting => {
+          const type = (item as JsonLdJobPosting | null)?.['@type'];
+          return type === 'JobPosting' || (Array.isArray(type) && type.includes('JobPosting'));
+        });
+        if (posting) return posting;
+      } catch (error) {
+        continue;
       }
     }
+    return undefined;
+  }
+
+  private applyDescriptionSections(posting: JobPosting): void {
+    const { responsibilities, requirements, niceToHaves } = parseJobDescription(posting.description);
+    posting.responsibilities = responsibilities;
+    posting.requirements = requirements;
+    posting.niceToHaves = niceToHaves;
 
-    // Count job-related keywords as proxy
-    const jobKeywords = ['engineer', 'developer', 'manager', 'designer', 'analyst'];
-    let count = 0;
-    for (const keyword of jobKeywords) {
-      const matches = html.match(new RegExp(keyword, 'gi'));
-      if (matches) count += matches.length;
+    // Skills from the requirements section when there is one, not every technology the description mentions
+    if (requirements.length > 0) {
+      posting.requiredSkills = matchSkills(`${posting.title}\n${requirements.join('\n')}`);
+    } else if (posting.description) {
+      posting.requiredSkills = matchSkills(`${posting.title} ${posting.description}`);
     }
+    posting.salary ||= findSalaryText(posting.description);
+  }
+
+  /**
+   * ATS boards the careers page links to or embeds, looking inside its iframes when the page itself names none
+   */
+  private async discoverBoards(domain: string): Promise<AtsBoard[]> {
+    const page = await this.fetchCareersPage(domain);
+    if (!page) return [];
 
-    return Math.min(count, 50); // Cap at 50 to avoid false positives
+    // The page URL counts too: careers pages often redirect straight to the job board
+    const boards = discoverAtsBoards(`${page.url}\n${page.html}`, page.url);
+    if (boards.length > 0) return boards;
+
+    // Iframes pointing straight at an ATS were matched above; others may be a widget page that embeds the board
+    for (const src of iframeSources(page.html, page.url).slice(0, MAX_IFRAMES)) {
+      const frame = await this.fetchPage(src);
+      if (frame) boards.push(...discoverAtsBoards(`${frame.url}\n${frame.html}`, frame.url));
+    }
+    return boards;
+  }
+
+  /**
+   * First careers page that loads, at one of the usual paths
+   */
+  private async fetchCareersPage(domain: string): Promise<CareersPage | null> {
+    const careerUrls = [
+      `https://${domain}/careers`,
+      `https://${domain}/jobs`,
+      `https://${domain}/about/careers`,
+      `https://careers.${domain}`,
+    ];
+
+    for (const url of careerUrls) {
+      const page = await this.fetchPage(url);
+      if (page) return page;
+    }
+    return null;
+  }
+
+  /**
+   * A page and the URL it ended up at after redirects
+   */
+  private async fetchPage(url: string): Promise<CareersPage | null> {
+    try {
+      const response = await httpFetch(url, {
+        headers: { 'User-Agent': 'Mozilla/5.0' },
+      }, { timeoutMs: 8000, cache: 'jobs' });
+
+      if (!response.ok) return null;
+      return { url: response.url || url, html: await response.text() };
+    } catch (error) {
+      return null;
+    }
   }
 
   /**
@@ -379,22 +1065,10 @@ export class JobScraper {
   private extractTopSkills(jobs: JobPosting[]): string[] {
     const skillCounts = new Map<string, number>();
 
-    // Common tech skills to look for
-    const techSkills = [
-      'React', 'Vue', 'Angular', 'Node.js', 'Python', 'Go', 'Rust', 'TypeScript',
-      'JavaScript', 'Java', 'Kubernetes', 'Docker', 'AWS', 'GCP', 'Azure',
-      'PostgreSQL', 'MongoDB', 'Redis', 'GraphQL', 'REST API', 'Microservices',
-      'Machine Learning', 'AI', 'Data Science', 'SQL', 'NoSQL', 'CI/CD',
-      'Git', 'Agile', 'Scrum', 'TensorFlow', 'PyTorch', 'Spark', 'Kafka',
-    ];
-
     for (const job of jobs) {
-      const text = `${job.title} ${job.description}`.toLowerCase();
-
-      for (const skill of techSkills) {
-        if (text.includes(skill.toLowerCase())) {
-          skillCounts.set(skill, (skillCounts.get(skill) || 0) + 1);
-        }
+      const skills = job.requiredSkills.length > 0 ? job.requiredSkills : matchSkills(`${job.title} ${job.description}`);
+      for (const skill of skills) {
+        skillCounts.set(skill, (skillCounts.get(skill) || 0) + 1);
       }
     }
 
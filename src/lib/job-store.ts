@@ -0,0 +1,251 @@
+/**
+ * Job Store
+ * Persists asynchronous enrichment jobs and the state of each company in them,
+ * so a long batch can be polled, cancelled and resumed after a restart
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { CompanyEnrichmentInput, VerificationStrictness } from '../types/enrichment.js';
+import { SourceToggles } from './data-sources.js';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export type JobItemStatus = 'queued' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+export interface JobOptions {
+  sources?: SourceToggles;
+  verify?: VerificationStrictness;
+  budgetUSD?: number;
+  concurrency?: number;
+  deepJobs?: boolean;
+}
+
+export interface JobItem {
+  index: number;
+  input: CompanyEnrichmentInput;
+  status: JobItemStatus;
+  runId?: number;           // Stored run with the full profile, once finished
+  confidence?: number;
+  processingTimeMs?: number;
+  costUSD?: number;
+  error?: string;
+}
+
+export interface JobProgress {
+  total: number;
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+  skipped: number;
+  cancelled: number;
+}
+
+export interface EnrichmentJob {
+  id: string;
+  status: JobStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+  options: JobOptions;
+  progress: JobProgress;
+  costUSD: number;
+  error?: string;
+}
+
+interface JobRow {
+  id: string;
+  status: JobStatus;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+  options: string;
+  error: string | null;
+}
+
+interface ItemRow {
+  job_id: string;
+  idx: number;
+  input: string;
+  status: JobItemStatus;
+  run_id: number | null;
+  confidence: number | null;
+  processing_time_ms: number | null;
+  cost_usd: number | null;
+  error: string | null;
+}
+
+const DEFAULT_DB_PATH = './data/enrichment.db';
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'cancelled', 'failed'];
+
+function toItem(row: ItemRow): JobItem {
+  return {
+    index: row.idx,
+    input: JSON.parse(row.input),
+    status: row.status,
+    runId: row.run_id ?? undefined,
+    confidence: row.confidence ?? undefined,
+    processingTimeMs: row.processing_time_ms ?? undefined,
+    costUSD: row.cost_usd ?? undefined,
+    error: row.error ?? undefined,
+  };
+}
+
+export function isFinished(status: JobStatus): boolean {
+  return FINISHED_STATUSES.includes(status);
+}
+
+export class JobStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string = process.env.ENRICHMENT_DB_PATH || DEFAULT_DB_PATH) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS enrichment_jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        finished_at TEXT,
+        options TEXT NOT NULL,
+        error TEXT
+      );
+      CREATE TABLE IF NOT EXISTS enrichment_job_items (
+        job_id TEXT NOT NULL REFERENCES enrichment_jobs (id),
+        idx INTEGER NOT NULL,
+        input TEXT NOT NULL,
+        status TEXT NOT NULL,
+        run_id INTEGER,
+        confidence INTEGER,
+        processing_time_ms INTEGER,
+        cost_usd REAL,
+        error TEXT,
+        PRIMARY KEY (job_id, idx)
+      );
+      CREATE INDEX IF NOT EXISTS idx_enrichment_jobs_status ON enrichment_jobs (status, created_at);
+    `);
+  }
+
+  createJob(id: string, inputs: CompanyEnrichmentInput[], options: JobOptions): EnrichmentJob {
+    const now = new Date().toISOString();
+    const insertItem = this.db.prepare('INSERT INTO enrichment_job_items (job_id, idx, input, status) VALUES (?, ?, ?, ?)');
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO enrichment_jobs (id, status, created_at, updated_at, options)
+        VALUES (?, 'queued', ?, ?, ?)
+      `).run(id, now, now, JSON.stringify(options));
+      inputs.forEach((input, index) => insertItem.run(id, index, JSON.stringify(input), 'queued'));
+    })();
+
+    return this.getJob(id)!;
+  }
+
+  /**
+   * A job with its progress counts and cost so far
+   */
+  getJob(id: string): EnrichmentJob | null {
+    const row = this.db.prepare('SELECT * FROM enrichment_jobs WHERE id = ?').get(id) as JobRow | undefined;
+    if (!row) return null;
+
+    const counts = this.db.prepare(`
+      SELECT status, COUNT(*) AS count, SUM(cost_usd) AS cost
+      FROM enrichment_job_items WHERE job_id = ? GROUP BY status
+    `).all(id) as Array<{ status: JobItemStatus; count: number; cost: number | null }>;
+
+    const progress: JobProgress = { total: 0, queued: 0, running: 0, completed: 0, failed: 0, skipped: 0, cancelled: 0 };
+    let costUSD = 0;
+    for (const { status, count, cost } of counts) {
+      progress[status] = count;
+      progress.total += count;
+      costUSD += cost || 0;
+    }
+
+    return {
+      id: row.id,
+      status: row.status,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+      options: JSON.parse(row.options),
+      progress,
+      costUSD,
+      error: row.error ?? undefined,
+    };
+  }
+
+  /**
+   * Jobs newest first
+   */
+  listJobs(limit = 50): EnrichmentJob[] {
+    const rows = this.db.prepare('SELECT id FROM enrichment_jobs ORDER BY created_at DESC LIMIT ?').all(limit) as Array<{ id: string }>;
+    return rows.map(row => this.getJob(row.id)!);
+  }
+
+  /**
+   * Jobs that were queued or running when the server last stopped, oldest first
+   */
+  listUnfinishedJobs(): EnrichmentJob[] {
+    const rows = this.db.prepare(`
+      SELECT id FROM enrichment_jobs WHERE status IN ('queued', 'running') ORDER BY created_at
+    `).all() as Array<{ id: string }>;
+    return rows.map(row => this.getJob(row.id)!);
+  }
+
+  listItems(jobId: string): JobItem[] {
+    const rows = this.db.prepare('SELECT * FROM enrichment_job_items WHERE job_id = ? ORDER BY idx').all(jobId) as ItemRow[];
+    return rows.map(toItem);
+  }
+
+  setJobStatus(id: string, status: JobStatus, error?: string): void {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      UPDATE enrichment_jobs SET status = ?, updated_at = ?, finished_at = ?, error = ? WHERE id = ?
+    `).run(status, now, isFinished(status) ? now : null, error ?? null, id);
+  }
+
+  updateItem(jobId: string, index: number, update: Omit<JobItem, 'index' | 'input'>): void {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        UPDATE enrichment_job_items
+        SET status = ?, run_id = ?, confidence = ?, processing_time_ms = ?, cost_usd = ?, error = ?
+        WHERE job_id = ? AND idx = ?
+      `).run(
+        update.status,
+        update.runId ?? null,
+        update.confidence ?? null,
+        update.processingTimeMs ?? null,
+        update.costUSD ?? null,
+        update.error ?? null,
+        jobId,
+        index
+      );
+      this.db.prepare('UPDATE enrichment_jobs SET updated_at = ? WHERE id = ?').run(new Date().toISOString(), jobId);
+    })();
+  }
+
+  /**
+   * Mark every company that hasn't finished yet, e.g. as cancelled
+   */
+  settlePendingItems(jobId: string, status: JobItemStatus, error?: string): void {
+    this.db.prepare(`
+      UPDATE enrichment_job_items SET status = ?, error = ?
+      WHERE job_id = ? AND status IN ('queued', 'running')
+    `).run(status, error ?? null, jobId);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
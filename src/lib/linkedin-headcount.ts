@@ -6,6 +6,8 @@
  * Note: This uses publicly accessible search result pages, not authenticated API
  */
 
+import { httpFetch } from './http-client.js';
+
 export interface HeadcountEstimate {
   totalEmployees?: number;
   engineeringCount?: number;
@@ -110,12 +112,11 @@ export class LinkedInHeadcountFetcher {
    */
   private async scrapeCompanyPage(url: string): Promise<{ totalEmployees?: number }> {
     try {
-      const response = await fetch(url, {
+      const response = await httpFetch(url, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
         },
-        signal: AbortSignal.timeout(10000),
-      });
+      }, { timeoutMs: 10000, cache: 'linkedin' });
 
       if (!response.ok) {
         return {};
@@ -165,13 +166,12 @@ export class LinkedInHeadcountFetcher {
       // Example: linkedin.com/search/results/people/?keywords=engineer%20company%3AAnthro pic
       const searchUrl = `https://www.linkedin.com/search/results/people/?keywords=${encodeURIComponent(keyword + ' ' + company)}`;
 
-      const response = await fetch(searchUrl, {
+      const response = await httpFetch(searchUrl, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
         },
-        signal: AbortSignal.timeout(10000),
         redirect: 'follow',
-      });
+      }, { timeoutMs: 10000, cache: 'linkedin' });
 
       if (!response.ok) {
         return 0;
@@ -0,0 +1,182 @@
+/**
+ * Location Parser
+ * Turns a job board's free-text location, e.g. "SF / NYC / Remote (US)", into structured places
+ * and a work mode using the offline gazetteer
+ */
+
+import { JobLocation, WorkMode } from '../types/enrichment.js';
+import { findCities, findCountry, findMacroRegion, findMetro, findRegion } from './gazetteer.js';
+
+export interface ParsedLocation {
+  locations: JobLocation[];
+  workMode?: WorkMode;     // Undefined when the posting gives no location at all
+  remoteRegions: string[]; // Where remote hires may live: ISO country codes or areas like "EMEA"
+}
+
+const REMOTE = /\b(?:remote|fully[ -]remote|anywhere|work from home|wfh|distributed|telecommute)\b/i;
+const HYBRID = /\bhybrid\b/i;
+
+// Words around a location that aren't part of it
+const FILLER = /\b(?:remote|fully|hybrid|on[ -]?site|in[ -]office|office|based|only|first|friendly|optional|possible|ok|preferred|work from home|wfh|within|from|in|the|or|and|time ?zones?|hq|headquarters)\b/gi;
+
+// Gender markers on German-speaking boards, e.g. "(m/w/d)"
+const GENDER_MARKER = /^[mwfdx](?:\s*[/|,]\s*[mwfdx])+$/i;
+
+interface Place extends JobLocation {
+  weak?: boolean; // Came from a bare two-letter code, which a following place may override
+}
+
+/**
+ * The most specific place a piece of text names, or undefined when the gazetteer doesn't know it
+ */
+function lookup(part: string, context?: Place, afterTown = false): Place | undefined {
+  const cities = findCities(part);
+  if (cities.length > 0) {
+    const city = cities.find(c => !context?.country || c.country === context.country) || cities[0];
+    return { city: city.name, region: city.region, country: city.country, metro: city.metro };
+  }
+
+  const metro = findMetro(part);
+  if (metro) return { region: metro.region, country: metro.country, metro: metro.name };
+
+  // Postal codes like "CA" or "DE" are read as a state after a US place or a town name, and as a country otherwise
+  const bareCode = /^[A-Z]{2,3}$/.test(part);
+  const region = findRegion(part, context?.country);
+  const country = findCountry(part);
+  if (region && (!bareCode || afterTown || context?.country === region.country || !country)) {
+    return { region: region.code, country: region.country, weak: bareCode && !context };
+  }
+  if (country) return { country: country.code, weak: bareCode && !context };
+  return undefined;
+}
+
+/**
+ * Whether a part can fill in details the current place is missing without contradicting it
+ */
+function compatible(place: Place, part: Place): boolean {
+  if (part.city && place.city) return false;
+  if (part.country && place.country && part.country !== place.country) return false;
+  if (part.region && place.region && part.region !== place.region) return false;
+  return true;
+}
+
+/**
+ * Places in one segment such as "San Francisco, CA", "US - CA - Fremont" or "Berlin, Munich"
+ */
+function parseSegment(segment: string): Place[] {
+  const places: Place[] = [];
+  // Workday writes "USA-CA-San Francisco"
+  const separator = /^[A-Z]{2,3}-/.test(segment) ? /\s*[-,]\s*/ : /\s*,\s*|\s+[-–—]\s+/;
+  const parts = segment.split(separator).map(part => part.replace(FILLER, ' ').replace(/\s+/g, ' ').trim()).filter(Boolean);
+  let unknown: string | undefined;
+
+  for (const part of parts) {
+    const current = places[places.length - 1];
+    const place = lookup(part, current, !!unknown);
+
+    if (!place) {
+      // An unknown town takes its state or country from the next part, e.g. "Fremont, CA"
+      unknown = part;
+      continue;
+    }
+
+    if (unknown && !place.city && !current?.city) {
+      places.push({ ...place, city: unknown, metro: undefined, weak: false });
+    } else if (current?.city && !place.city && !compatible(current, place)) {
+      // "Portland, ME" or "Cambridge, UK": another town than the gazetteer's first guess
+      const city = findCities(current.city).find(c => c.country === place.country && (!place.region || c.region === place.region));
+      places[places.length - 1] = city
+        ? { city: city.name, region: city.region, country: city.country, metro: city.metro }
+        : { ...place, city: current.city, metro: undefined };
+    } else if (current && compatible(current, place)) {
+      Object.assign(current, {
+        city: current.city || place.city,
+        region: current.region || place.region,
+        country: current.country || place.country,
+        metro: current.metro || place.metro,
+        weak: false,
+      });
+    } else if (current?.weak) {
+      places[places.length - 1] = place;
+    } else {
+      places.push(place);
+    }
+    unknown = undefined;
+  }
+
+  // A town named last, e.g. "US - CA - Fremont"
+  const last = places[places.length - 1];
+  if (unknown && last && !last.city) last.city = unknown;
+
+  return places;
+}
+
+/**
+ * Countries and areas named after "remote", e.g. "US", "US or Canada", "EMEA"
+ */
+function parseRemoteRegions(segment: string): { regions: string[]; places: Place[] } {
+  const regions: string[] = [];
+  const places: Place[] = [];
+  const text = segment.replace(REMOTE, ' ');
+
+  for (const raw of text.split(/\s*(?:,|&|\+|\bor\b|\band\b|\s[-–—]\s)\s*/i)) {
+    const part = raw.replace(FILLER, ' ').replace(/[-–—:]/g, ' ').replace(/\s+/g, ' ').trim();
+    if (!part) continue;
+
+    const macro = findMacroRegion(part);
+    if (macro) {
+      regions.push(macro);
+      continue;
+    }
+    const place = lookup(part);
+    if (!place) continue;
+    if (place.city || place.region || place.metro) places.push(place);
+    if (place.country) regions.push(place.country);
+  }
+
+  return { regions, places };
+}
+
+export function parseLocation(text: string | undefined, remoteHint = false): ParsedLocation {
+  const raw = (text || '').trim();
+  if (!raw) return { locations: [], workMode: remoteHint ? 'remote' : undefined, remoteRegions: [] };
+
+  // "Remote (US or Canada)" reads as "Remote - US or Canada"; gender markers and unrelated notes are dropped
+  const flattened = raw.replace(/\(([^)]*)\)/g, (_match, inner: string) => (GENDER_MARKER.test(inner.trim()) ? ' ' : ` - ${inner} `));
+
+  const places: Place[] = [];
+  const remoteRegions: string[] = [];
+  let afterRemote = false;
+  for (const segment of flattened.split(/\s*(?:\/|\||;|•|·|\n|\s+or\s+|\s+&\s+)\s*/i)) {
+    if (!segment.trim()) continue;
+    const remote = REMOTE.test(segment) ? parseRemoteRegions(segment) : undefined;
+    const listed = remote ? [] : parseSegment(segment);
+    const macro = findMacroRegion(segment);
+
+    if (remote) {
+      remoteRegions.push(...remote.regions);
+      places.push(...remote.places);
+      afterRemote = true;
+    } else if (afterRemote && (macro || (listed.length > 0 && listed.every(place => !place.city && !place.region && !place.metro)))) {
+      // The rest of a list after "remote", e.g. "Canada" in "Remote - US or Canada"
+      remoteRegions.push(...(macro ? [macro] : listed.map(place => place.country!)));
+    } else {
+      places.push(...listed);
+      afterRemote = false;
+    }
+  }
+
+  const workMode: WorkMode = HYBRID.test(raw) ? 'hybrid' : remoteHint || REMOTE.test(raw) ? 'remote' : 'onsite';
+
+  const seen = new Set<string>();
+  const locations = places
+    .map(({ weak, ...place }) => place)
+    .filter(place => {
+      const id = `${place.city || ''}|${place.region || ''}|${place.country || ''}|${place.metro || ''}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+
+  return { locations, workMode, remoteRegions: [...new Set(remoteRegions)] };
+}
@@ -1,12 +1,131 @@
-import { CompanyEnrichmentData } from '../types/enrichment.js';
+import { BatchUsage, CompanyEnrichmentData, FieldProvenance, HiringSignal, SeniorityLevel } from '../types/enrichment.js';
+import { formatUSD } from './usage-tracker.js';
+import { formatSalaryRange } from './job-normalizer.js';
+import { countryName } from './gazetteer.js';
+import { PATH_SEPARATOR } from './department-taxonomy.js';
 import fs from 'fs/promises';
 import path from 'path';
 
+export interface MarkdownExportOptions {
+  citations?: boolean; // Render field provenance as footnotes (default true)
+}
+
+// Column order for the seniority mix, most junior first
+const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+  intern: 'Intern',
+  junior: 'Junior',
+  mid: 'Mid',
+  senior: 'Senior',
+  staff: 'Staff/Lead',
+  principal: 'Principal',
+  manager: 'Manager',
+  director: 'Director',
+  vp: 'VP',
+  c_level: 'C-Level',
+};
+
+// Profiles stored before the department taxonomy used camelCase keys such as "customerSuccess"
+function departmentLabel(department: string): string {
+  return /^[a-z]+(?:[A-Z][a-z]*)*$/.test(department)
+    ? department.replace(/([A-Z])/g, ' $1').replace(/^./, s => s.toUpperCase())
+    : department;
+}
+
+const HIRING_SIGNAL_LABELS: Record<HiringSignal, string> = {
+  surge: 'Surge',
+  freeze: 'Freeze',
+  steady: 'Steady',
+};
+
+const THIRD_PARTY_SOURCE_LABELS: Record<string, string> = {
+  csp: 'CSP',
+  script: 'script',
+  link: 'link',
+  img: 'image',
+};
+
+const MAX_UNKNOWN_HOSTS = 20; // Hosts without a known vendor listed in the report
+
+// Dates in stored profiles come back from JSON as strings
+function shortDate(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function signed(n: number): string {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+/**
+ * Departments with open roles, busiest first, each followed by its sub-departments
+ */
+function departmentRows(departmentHiring: Record<string, number>): Array<[string, number]> {
+  const active = Object.entries(departmentHiring).filter(([, count]) => count > 0);
+  const byCount = (a: [string, number], b: [string, number]) => b[1] - a[1];
+  const childrenOf = (parent: string): Array<[string, number]> => active
+    .filter(([key]) => key.startsWith(`${parent}${PATH_SEPARATOR}`) && !key.slice(parent.length + PATH_SEPARATOR.length).includes(PATH_SEPARATOR))
+    .sort(byCount)
+    .flatMap(child => [child, ...childrenOf(child[0])]);
+
+  return active
+    .filter(([key]) => !key.includes(PATH_SEPARATOR))
+    .sort(byCount)
+    .flatMap(top => [top, ...childrenOf(top[0])]);
+}
+
+/**
+ * Collects footnotes for one company, numbering each distinct provenance entry once
+ */
+class Footnotes {
+  private notes: Array<{ id: string; entry: FieldProvenance }> = [];
+
+  constructor(
+    private prefix: string,
+    private provenance: Record<string, FieldProvenance[]> | undefined,
+    private enabled: boolean
+  ) {}
+
+  /**
+   * Footnote markers for a field and any nested paths under it (e.g. "ceo" covers "ceo.name")
+   */
+  cite(...fields: string[]): string {
+    if (!this.enabled || !this.provenance) return '';
+
+    const ids = new Set<string>();
+    for (const [path, entries] of Object.entries(this.provenance)) {
+      if (!fields.some(f => path === f || path.startsWith(`${f}.`))) continue;
+      for (const entry of entries) ids.add(this.idFor(entry));
+    }
+    return [...ids].map(id => `[^${id}]`).join('');
+  }
+
+  definitions(): string[] {
+    return this.notes.map(({ id, entry }) => {
+      const parts = [`\`${entry.sourceId}\``];
+      if (entry.url) parts.push(`[${entry.url}](${entry.url})`);
+      if (entry.snippet) parts.push(`"${entry.snippet.replace(/\|/g, '\\|')}"`);
+      return `[^${id}]: ${parts.join(' — ')} _(${entry.method})_`;
+    });
+  }
+
+  private idFor(entry: FieldProvenance): string {
+    const existing = this.notes.find(n =>
+      n.entry.sourceId === entry.sourceId && n.entry.url === entry.url && n.entry.snippet === entry.snippet && n.entry.method === entry.method
+    );
+    if (existing) return existing.id;
+
+    const id = `${this.prefix}-${this.notes.length + 1}`;
+    this.notes.push({ id, entry });
+    return id;
+  }
+}
+
 export class MarkdownExporter {
   private outputDir: string;
+  private citations: boolean;
 
-  constructor(outputDir: string = './output') {
+  constructor(outputDir: string = './output', options: MarkdownExportOptions = {}) {
     this.outputDir = outputDir;
+    this.citations = options.citations ?? true;
   }
 
   async ensureOutputDir(): Promise<void> {
@@ -15,12 +134,14 @@ export class MarkdownExporter {
 
   formatCompany(data: CompanyEnrichmentData): string {
     const lines: string[] = [];
+    // Footnote ids are prefixed per company so batch reports don't collide
+    const notes = new Footnotes(data.domain.replace(/[^a-z0-9]+/gi, '-').toLowerCase(), data.provenance, this.citations);
 
     lines.push(`# ${data.name}`);
     lines.push('');
 
     if (data.shortDescription) {
-      lines.push(`> ${data.shortDescription}`);
+      lines.push(`> ${data.shortDescription}${notes.cite('shortDescription')}`);
       lines.push('');
     }
 
@@ -30,22 +151,22 @@ export class MarkdownExporter {
     lines.push(`| Field | Value |`);
     lines.push(`|-------|-------|`);
     lines.push(`| **Website** | [${data.domain}](${data.website}) |`);
-    if (data.founded) lines.push(`| **Founded** | ${data.founded} |`);
-    if (data.employeeCount) lines.push(`| **Employees** | ${data.employeeCount.toLocaleString()}${data.employeeCountRange ? ` (${data.employeeCountRange})` : ''} |`);
-    if (data.engineeringCount) lines.push(`| **Engineers** | ~${data.engineeringCount.toLocaleString()} |`);
+    if (data.founded) lines.push(`| **Founded** | ${data.founded}${notes.cite('founded')} |`);
+    if (data.employeeCount) lines.push(`| **Employees** | ${data.employeeCount.toLocaleString()}${data.employeeCountRange ? ` (${data.employeeCountRange})` : ''}${notes.cite('employeeCount', 'employeeCountRange')} |`);
+    if (data.engineeringCount) lines.push(`| **Engineers** | ~${data.engineeringCount.toLocaleString()}${notes.cite('engineeringCount')} |`);
     if (data.headquarters.city) {
       const hq = [data.headquarters.city, data.headquarters.state, data.headquarters.country].filter(Boolean).join(', ');
-      lines.push(`| **HQ** | ${hq} |`);
+      lines.push(`| **HQ** | ${hq}${notes.cite('headquarters')} |`);
     }
-    if (data.industry.length > 0) lines.push(`| **Industry** | ${data.industry.join(', ')} |`);
-    if (data.aiInsights?.growthStage) lines.push(`| **Stage** | ${data.aiInsights.growthStage} |`);
+    if (data.industry.length > 0) lines.push(`| **Industry** | ${data.industry.join(', ')}${notes.cite('industry')} |`);
+    if (data.aiInsights?.growthStage) lines.push(`| **Stage** | ${data.aiInsights.growthStage}${notes.cite('aiInsights.growthStage')} |`);
     lines.push('');
 
     // Description
     if (data.description) {
       lines.push('## Description');
       lines.push('');
-      lines.push(data.description);
+      lines.push(`${data.description}${notes.cite('description')}`);
       lines.push('');
     }
 
@@ -53,11 +174,11 @@ export class MarkdownExporter {
     if (data.totalFundingRaised || data.latestFundingRound) {
       lines.push('## Funding');
       lines.push('');
-      if (data.totalFundingRaised) lines.push(`**Total Raised:** ${data.totalFundingRaised}`);
-      if (data.currentValuation) lines.push(`  \n**Valuation:** ${data.currentValuation}`);
+      if (data.totalFundingRaised) lines.push(`**Total Raised:** ${data.totalFundingRaised}${notes.cite('totalFundingRaised')}`);
+      if (data.currentValuation) lines.push(`  \n**Valuation:** ${data.currentValuation}${notes.cite('currentValuation')}`);
       lines.push('');
       if (data.latestFundingRound) {
-        lines.push(`**Latest Round:** ${data.latestFundingRound.roundType} — ${data.latestFundingRound.amount}`);
+        lines.push(`**Latest Round:** ${data.latestFundingRound.roundType} — ${data.latestFundingRound.amount}${notes.cite('latestFundingRound')}`);
         if (data.latestFundingRound.leadInvestors.length > 0) {
           lines.push(`  \n**Lead Investors:** ${data.latestFundingRound.leadInvestors.join(', ')}`);
         }
@@ -69,45 +190,180 @@ export class MarkdownExporter {
     if (data.ceo || (data.founders && data.founders.length > 0)) {
       lines.push('## Leadership');
       lines.push('');
-      if (data.ceo) lines.push(`- **CEO:** ${data.ceo.name}`);
+      if (data.ceo) lines.push(`- **CEO:** ${data.ceo.name}${notes.cite('ceo')}`);
       if (data.founders && data.founders.length > 0) {
-        lines.push(`- **Founders:** ${data.founders.map(f => f.name).join(', ')}`);
+        lines.push(`- **Founders:** ${data.founders.map(f => f.name).join(', ')}${notes.cite('founders')}`);
       }
       lines.push('');
     }
 
     // Tech Stack
     if (data.technographic && data.technographic.allTechnologies.length > 0) {
-      lines.push('## Tech Stack');
+      lines.push(`## Tech Stack${notes.cite('technographic')}`);
       lines.push('');
       const categories = new Map<string, string[]>();
       for (const tech of data.technographic.allTechnologies) {
         if (!categories.has(tech.category)) categories.set(tech.category, []);
-        categories.get(tech.category)!.push(tech.name);
+        categories.get(tech.category)!.push(tech.version ? `${tech.name} ${tech.version}` : tech.name);
       }
       for (const [category, techs] of categories) {
         lines.push(`- **${category}:** ${techs.join(', ')}`);
       }
       lines.push('');
+      const outdated = data.technographic.outdatedTechnologies || [];
+      if (outdated.length > 0) {
+        lines.push('**Past End of Life:**');
+        lines.push('');
+        lines.push('| Technology | Version | Release Line | Support Ended |');
+        lines.push('|------------|---------|--------------|---------------|');
+        for (const tech of outdated) {
+          const line = tech.cycle.startsWith('<') ? `older than ${tech.cycle.slice(1)}` : `${tech.cycle}.x`;
+          lines.push(`| ${tech.name} | ${tech.version} | ${line} | ${tech.eol || 'Unknown'} |`);
+        }
+        lines.push('');
+      }
+      const security = data.technographic.securityHeaders;
+      if (security) {
+        lines.push('**Security Headers:**');
+        lines.push('');
+        if (security.hsts) {
+          const flags = [security.hsts.includeSubDomains && 'includeSubDomains', security.hsts.preload && 'preload'].filter(Boolean);
+          lines.push(`- **HSTS:** max-age ${security.hsts.maxAge}s${flags.length > 0 ? `, ${flags.join(', ')}` : ''}`);
+        }
+        const csp = security.contentSecurityPolicy;
+        if (csp) {
+          lines.push(`- **Content Security Policy:** ${csp.reportOnly ? 'report-only' : 'enforced'}, ${Object.keys(csp.directives).length} directives`);
+        }
+        if (security.frameOptions) lines.push(`- **X-Frame-Options:** ${security.frameOptions}`);
+        if (security.contentTypeOptions) lines.push(`- **X-Content-Type-Options:** ${security.contentTypeOptions}`);
+        if (security.referrerPolicy) lines.push(`- **Referrer-Policy:** ${security.referrerPolicy}`);
+        if (security.missing.length > 0) lines.push(`- **Missing:** ${security.missing.join(', ')}`);
+        lines.push('');
+      }
+      const endpoints = data.technographic.endpoints || [];
+      if (endpoints.length > 0) {
+        lines.push(`**Probed Endpoints:** ${endpoints.map(endpoint => `${endpoint.kind} (${endpoint.url})`).join(', ')}`);
+        lines.push('');
+      }
+    }
+
+    // Third-Party Services
+    const thirdParties = data.technographic?.thirdPartyHosts || [];
+    if (thirdParties.length > 0) {
+      lines.push(`## Third-Party Services${notes.cite('technographic')}`);
+      lines.push('');
+      const vendors = new Map<string, { category: string; hosts: string[]; seenIn: Set<string> }>();
+      for (const entry of thirdParties.filter(entry => entry.vendor)) {
+        if (!vendors.has(entry.vendor!)) vendors.set(entry.vendor!, { category: entry.category || '', hosts: [], seenIn: new Set() });
+        const vendor = vendors.get(entry.vendor!)!;
+        vendor.hosts.push(entry.host);
+        for (const source of entry.seenIn) vendor.seenIn.add(THIRD_PARTY_SOURCE_LABELS[source] || source);
+      }
+      if (vendors.size > 0) {
+        lines.push('| Vendor | Category | Hosts | Seen In |');
+        lines.push('|--------|----------|-------|---------|');
+        for (const [name, vendor] of vendors) {
+          lines.push(`| ${name} | ${vendor.category} | ${vendor.hosts.join(', ')} | ${[...vendor.seenIn].join(', ')} |`);
+        }
+        lines.push('');
+      }
+      const unknown = thirdParties.filter(entry => !entry.vendor).map(entry => entry.host);
+      if (unknown.length > 0) {
+        const more = unknown.length > MAX_UNKNOWN_HOSTS ? ` and ${unknown.length - MAX_UNKNOWN_HOSTS} more` : '';
+        lines.push(`**Other Hosts:** ${unknown.slice(0, MAX_UNKNOWN_HOSTS).join(', ')}${more}`);
+        lines.push('');
+      }
     }
 
     // Hiring
     if (data.hiring && data.hiring.openPositions > 0) {
       lines.push('## Hiring');
       lines.push('');
-      lines.push(`**Open Positions:** ${data.hiring.openPositions}`);
+      lines.push(`**Open Positions:** ${data.hiring.openPositions}${notes.cite('hiring', 'openPositions')}`);
       lines.push('');
-      const depts = data.hiring.departmentHiring;
-      const activeDepts = Object.entries(depts).filter(([, v]) => v > 0);
+      const activeDepts = departmentRows(data.hiring.departmentHiring);
       if (activeDepts.length > 0) {
         lines.push('| Department | Open Roles |');
         lines.push('|------------|------------|');
         for (const [dept, count] of activeDepts) {
-          const label = dept.replace(/([A-Z])/g, ' $1').replace(/^./, s => s.toUpperCase());
-          lines.push(`| ${label} | ${count} |`);
+          lines.push(`| ${departmentLabel(dept)} | ${count} |`);
         }
         lines.push('');
       }
+      const bands = data.hiring.salaryBands || [];
+      if (bands.length > 0) {
+        lines.push('**Salary Bands:**');
+        lines.push('');
+        lines.push('| Department | Range | Postings |');
+        lines.push('|------------|-------|----------|');
+        for (const band of bands) {
+          lines.push(`| ${departmentLabel(band.department)} | ${formatSalaryRange(band)} | ${band.postings} |`);
+        }
+        lines.push('');
+      }
+      const mix = Object.entries(data.hiring.seniorityMix || {});
+      if (mix.length > 0) {
+        // Only the levels some department is hiring for
+        const levels = (Object.keys(SENIORITY_LABELS) as SeniorityLevel[]).filter(level => mix.some(([, counts]) => counts[level]));
+        lines.push('**Seniority Mix:**');
+        lines.push('');
+        lines.push(`| Department | ${levels.map(level => SENIORITY_LABELS[level]).join(' | ')} |`);
+        lines.push(`|------------|${levels.map(() => '---').join('|')}|`);
+        for (const [dept, counts] of mix) {
+          lines.push(`| ${departmentLabel(dept)} | ${levels.map(level => counts[level] || 0).join(' | ')} |`);
+        }
+        lines.push('');
+      }
+      const geography = data.hiring.geography;
+      if (geography) {
+        if (geography.countries.length > 0) {
+          lines.push(`**Hiring Countries:** ${geography.countries.map(c => `${countryName(c.country)} (${c.openRoles})`).join(', ')}`);
+          lines.push('');
+        }
+        if (geography.metros.length > 0) {
+          lines.push(`**Hiring Metros:** ${geography.metros.slice(0, 10).map(m => `${m.metro} (${m.openRoles})`).join(', ')}`);
+          lines.push('');
+        }
+        const modes = Object.entries(geography.workModes).filter(([, count]) => count > 0);
+        if (modes.length > 0) {
+          lines.push(`**Work Mode:** ${modes.map(([mode, count]) => `${count} ${mode}`).join(' · ')}`);
+          lines.push('');
+        }
+      }
+      if (data.hiring.hiringVelocity !== undefined) {
+        lines.push(`**Hiring Velocity:** ${data.hiring.hiringVelocity} postings opened in the last 30 days`);
+        lines.push('');
+      }
+      const trends = data.hiring.trends;
+      if (trends) {
+        const since = shortDate(trends.previousSnapshotAt);
+        lines.push(`**Hiring Trend:** ${HIRING_SIGNAL_LABELS[trends.signal]} · ${trends.newPostings} new, ${trends.closedPostings} closed since ${since}`);
+        lines.push('');
+        if (trends.averageDaysOpen !== undefined) {
+          lines.push(`**Average Time Open:** ${trends.averageDaysOpen} days`);
+          lines.push('');
+        }
+        if (trends.newPostingTitles.length > 0) {
+          lines.push(`**New Since ${since}:** ${trends.newPostingTitles.join(', ')}`);
+          lines.push('');
+        }
+        if (trends.closedPostingTitles.length > 0) {
+          lines.push(`**Closed Since ${since}:** ${trends.closedPostingTitles.join(', ')}`);
+          lines.push('');
+        }
+        if (trends.netChange.length > 0) {
+          const departments = [...new Set(trends.netChange.flatMap(change => Object.keys(change.byDepartment)))].sort();
+          lines.push('**Net Change:**');
+          lines.push('');
+          lines.push(`| Window | Since | Total | ${departments.map(departmentLabel).join(' | ')} |`);
+          lines.push(`|--------|-------|-------|${departments.map(() => '---').join('|')}|`);
+          for (const change of trends.netChange) {
+            const cells = [signed(change.total), ...departments.map(dept => signed(change.byDepartment[dept] || 0))];
+            lines.push(`| ${change.days} days | ${shortDate(change.since)} | ${cells.join(' | ')} |`);
+          }
+          lines.push('');
+        }
+      }
       if (data.hiring.topSkillsHiring.length > 0) {
         lines.push(`**Top Skills:** ${data.hiring.topSkillsHiring.join(', ')}`);
         lines.push('');
@@ -116,7 +372,7 @@ export class MarkdownExporter {
 
     // GitHub
     if (data.githubActivity) {
-      lines.push('## GitHub');
+      lines.push(`## GitHub${notes.cite('githubActivity')}`);
       lines.push('');
       lines.push(`| Metric | Value |`);
       lines.push(`|--------|-------|`);
@@ -137,7 +393,7 @@ export class MarkdownExporter {
 
     // Mobile Apps
     if (data.mobileApps && (data.mobileApps.hasIosApp || data.mobileApps.hasAndroidApp)) {
-      lines.push('## Mobile Apps');
+      lines.push(`## Mobile Apps${notes.cite('mobileApps')}`);
       lines.push('');
       if (data.mobileApps.hasIosApp) {
         for (const app of data.mobileApps.iosApps) {
@@ -154,9 +410,9 @@ export class MarkdownExporter {
 
     // Social Links
     const socialLinks = [
-      data.linkedinUrl && `[LinkedIn](${data.linkedinUrl})`,
-      data.twitterUrl && `[Twitter/X](${data.twitterUrl})`,
-      data.githubUrl && `[GitHub](${data.githubUrl})`,
+      data.linkedinUrl && `[LinkedIn](${data.linkedinUrl})${notes.cite('linkedinUrl')}`,
+      data.twitterUrl && `[Twitter/X](${data.twitterUrl})${notes.cite('twitterUrl')}`,
+      data.githubUrl && `[GitHub](${data.githubUrl})${notes.cite('githubUrl')}`,
     ].filter(Boolean);
 
     if (socialLinks.length > 0) {
@@ -169,7 +425,7 @@ export class MarkdownExporter {
     // AI Insights
     if (data.aiInsights) {
       if (data.aiInsights.recentNews && data.aiInsights.recentNews.length > 0) {
-        lines.push('## Recent News');
+        lines.push(`## Recent News${notes.cite('aiInsights.recentNews')}`);
         lines.push('');
         for (const news of data.aiInsights.recentNews) {
           lines.push(`- ${news}`);
@@ -177,7 +433,7 @@ export class MarkdownExporter {
         lines.push('');
       }
       if (data.aiInsights.competitorMoves && data.aiInsights.competitorMoves.length > 0) {
-        lines.push('## Competitor Activity');
+        lines.push(`## Competitor Activity${notes.cite('aiInsights.competitorMoves')}`);
         lines.push('');
         for (const move of data.aiInsights.competitorMoves) {
           lines.push(`- **${move.competitor}:** ${move.event}${move.impact ? ` — _${move.impact}_` : ''}`);
@@ -186,9 +442,29 @@ export class MarkdownExporter {
       }
     }
 
+    // Sources
+    const definitions = notes.definitions();
+    const unsupported = data.verification?.unsupported || [];
+    if (definitions.length > 0 || unsupported.length > 0) {
+      lines.push('## Sources');
+      lines.push('');
+      if (unsupported.length > 0) {
+        // Dropped values are gone from the profile, so the report names only their fields
+        const dropped = data.verification!.strictness === 'drop';
+        const claims = [...new Set(unsupported.map(c => (dropped ? c.field : `${c.field} (${c.value})`)))].join(', ');
+        lines.push(`**${dropped ? 'Removed' : 'Unverified'}:** ${claims} — not found in the fetched website, Crunchbase, LinkedIn or job text`);
+        lines.push('');
+      }
+      for (const definition of definitions) {
+        lines.push(definition);
+        lines.push('');
+      }
+    }
+
     // Metadata
     lines.push('---');
-    lines.push(`_Enriched on ${new Date(data.lastUpdated).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })} · Data quality: ${data.dataQuality} · Sources: ${data.sources.join(', ')}_`);
+    const cost = data.usage ? ` · LLM cost: ${formatUSD(data.usage.costUSD)} (${(data.usage.inputTokens + data.usage.outputTokens).toLocaleString()} tokens)` : '';
+    lines.push(`_Enriched on ${new Date(data.lastUpdated).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })} · Data quality: ${data.dataQuality} · Sources: ${data.sources.join(', ')}${cost}_`);
     lines.push('');
 
     return lines.join('\n');
@@ -203,7 +479,7 @@ export class MarkdownExporter {
     return filepath;
   }
 
-  async exportBatch(results: CompanyEnrichmentData[]): Promise<string> {
+  async exportBatch(results: CompanyEnrichmentData[], usage?: BatchUsage): Promise<string> {
     await this.ensureOutputDir();
     const timestamp = new Date().toISOString().slice(0, 10);
     const filename = `enrichment-${timestamp}.md`;
@@ -211,7 +487,8 @@ export class MarkdownExporter {
 
     const sections: string[] = [];
     sections.push(`# Company Enrichment Report`);
-    sections.push(`_Generated ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })} · ${results.length} companies_`);
+    const cost = usage ? ` · LLM cost: ${formatUSD(usage.costUSD)} (${(usage.inputTokens + usage.outputTokens).toLocaleString()} tokens)` : '';
+    sections.push(`_Generated ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })} · ${results.length} companies${cost}_`);
     sections.push('');
     sections.push('## Table of Contents');
     sections.push('');
@@ -0,0 +1,222 @@
+/**
+ * Model Provider
+ * Resolves the language model used for each LLM task from "provider:model" specs
+ */
+
+import { anthropic } from '@ai-sdk/anthropic';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { LanguageModelV1 } from 'ai';
+import { rateLimitKeyForUrl } from './rate-limiter.js';
+
+export type ModelTask = 'domainDiscovery' | 'extraction' | 'insights';
+
+export type ProviderName = 'anthropic' | 'openai-compatible' | 'mock';
+
+export const MODEL_TASKS: ModelTask[] = ['domainDiscovery', 'extraction', 'insights'];
+
+const PROVIDERS: ProviderName[] = ['anthropic', 'openai-compatible', 'mock'];
+
+const DEFAULT_MODEL = 'anthropic:claude-sonnet-4-5-20250929';
+
+// Environment variable holding the spec for each task, e.g. MODEL_DOMAIN_DISCOVERY=anthropic:claude-haiku-4-5
+const TASK_ENV: Record<ModelTask, string> = {
+  domainDiscovery: 'MODEL_DOMAIN_DISCOVERY',
+  extraction: 'MODEL_EXTRACTION',
+  insights: 'MODEL_INSIGHTS',
+};
+
+export interface ModelSpec {
+  provider: ProviderName;
+  modelId: string;
+}
+
+/**
+ * Per-task model specs; unset tasks fall back to `default`, then MODEL_DEFAULT
+ */
+export type ModelConfig = Partial<Record<ModelTask | 'default', string>>;
+
+/**
+ * Parse a spec like "anthropic:claude-sonnet-4-5-20250929" or "openai-compatible:llama-3.1-8b-instruct"
+ */
+export function parseModelSpec(value: string): ModelSpec {
+  const separator = value.indexOf(':');
+  const provider = (separator > 0 ? value.slice(0, separator) : value).trim() as ProviderName;
+  const modelId = separator > 0 ? value.slice(separator + 1).trim() : '';
+
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown model provider "${provider}" in "${value}" (expected ${PROVIDERS.join(', ')})`);
+  }
+  if (!modelId && provider !== 'mock') {
+    throw new Error(`Model spec "${value}" is missing a model id, e.g. ${provider}:<model>`);
+  }
+  return { provider, modelId: modelId || 'mock' };
+}
+
+export class ModelProvider {
+  private models = new Map<string, LanguageModelV1>();
+
+  constructor(private config: ModelConfig = {}) {}
+
+  /**
+   * The provider and model configured for a task
+   */
+  spec(task: ModelTask): ModelSpec {
+    // Read lazily so specs from .env are picked up after dotenv.config()
+    const value = this.config[task] || process.env[TASK_ENV[task]] || this.config.default || process.env.MODEL_DEFAULT || DEFAULT_MODEL;
+    return parseModelSpec(value);
+  }
+
+  model(task: ModelTask): LanguageModelV1 {
+    const spec = this.spec(task);
+    const key = `${spec.provider}:${spec.modelId}`;
+    let model = this.models.get(key);
+    if (!model) {
+      model = this.createModel(spec);
+      this.models.set(key, model);
+    }
+    return model;
+  }
+
+  /**
+   * Rate limit key for a task's provider, or undefined when calls never leave the process
+   */
+  rateLimitKey(task: ModelTask): string | undefined {
+    const { provider } = this.spec(task);
+    if (provider === 'mock') return undefined;
+    if (provider === 'openai-compatible') return rateLimitKeyForUrl(this.openAICompatibleBaseUrl());
+    return 'anthropic';
+  }
+
+  /**
+   * Configuration errors for the providers in use, e.g. a missing API key
+   */
+  missingCredentials(): string[] {
+    const errors = new Set<string>();
+    for (const task of MODEL_TASKS) {
+      let spec: ModelSpec;
+      try {
+        spec = this.spec(task);
+      } catch (error) {
+        errors.add(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      if (spec.provider === 'anthropic') {
+        const key = process.env.ANTHROPIC_API_KEY;
+        if (!key || key === 'your_anthropic_api_key_here') {
+          errors.add('ANTHROPIC_API_KEY is not set.');
+        }
+      } else if (spec.provider === 'openai-compatible' && !process.env.OPENAI_COMPATIBLE_BASE_URL) {
+        errors.add('OPENAI_COMPATIBLE_BASE_URL is not set.');
+      }
+    }
+    return [...errors];
+  }
+
+  private createModel(spec: ModelSpec): LanguageModelV1 {
+    switch (spec.provider) {
+      case 'anthropic':
+        return anthropic(spec.modelId);
+      case 'openai-compatible':
+        return createOpenAICompatible({
+          name: 'openai-compatible',
+          baseURL: this.openAICompatibleBaseUrl(),
+          apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || undefined,
+        }).chatModel(spec.modelId);
+      case 'mock':
+        return createMockModel(spec.modelId);
+    }
+  }
+
+  private openAICompatibleBaseUrl(): string {
+    const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!baseUrl) {
+      throw new Error('OPENAI_COMPATIBLE_BASE_URL is not set');
+    }
+    return baseUrl;
+  }
+}
+
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+}
+
+/**
+ * Offline model that answers every structured request with the same placeholder object:
+ * required fields get empty values, and name/domain are taken from the prompt so the
+ * rest of the pipeline has something to key on
+ */
+function createMockModel(modelId: string): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    async doGenerate(options) {
+      const prompt = options.prompt
+        .flatMap(message => typeof message.content === 'string' ? [message.content] : message.content.map(part => part.type === 'text' ? part.text : ''))
+        .join('\n');
+      const schema = options.mode.type === 'object-json' ? options.mode.schema as JsonSchema | undefined : undefined;
+      const object = schema ? mockValue(schema, promptHints(prompt)) : {};
+      const text = JSON.stringify(object);
+
+      return {
+        text,
+        finishReason: 'stop',
+        usage: { promptTokens: Math.ceil(prompt.length / 4), completionTokens: Math.ceil(text.length / 4) },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+    async doStream() {
+      throw new Error('The mock model does not support streaming');
+    },
+  };
+}
+
+function promptHints(prompt: string): Record<string, string> {
+  const companyName = prompt.match(/Company Name: (.+)/)?.[1]?.trim() || prompt.match(/company "([^"]+)"/)?.[1];
+  const domain = prompt.match(/Domain: (\S+)/)?.[1]
+    || (companyName ? `${companyName.toLowerCase().replace(/[^a-z0-9]+/g, '')}.com` : undefined);
+  const name = companyName || (domain ? domain.split('.')[0].replace(/^./, c => c.toUpperCase()) : undefined);
+
+  const hints: Record<string, string> = {};
+  if (domain) hints.domain = domain;
+  if (name) hints.name = name;
+  return hints;
+}
+
+function mockValue(schema: JsonSchema, hints: Record<string, string>): unknown {
+  if (schema.anyOf?.length) return mockValue(schema.anyOf[0], hints);
+  if (schema.enum?.length) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const object: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        if (key in hints) {
+          object[key] = hints[key];
+        } else if (schema.required?.includes(key)) {
+          object[key] = mockValue(property, hints);
+        }
+      }
+      return object;
+    }
+    case 'array':
+      return [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return '';
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Progress Bus
+ * Fans enrichment progress events out to subscribers (e.g. SSE connections), keyed by progress id.
+ * Late subscribers get the events published so far replayed first.
+ */
+
+import { EnrichmentEvent } from '../types/enrichment.js';
+
+export type ProgressListener = (event: EnrichmentEvent) => void;
+
+interface Channel {
+  events: EnrichmentEvent[];
+  listeners: Set<ProgressListener>;
+  closeListeners: Set<() => void>;
+  closed: boolean;
+  expiry?: NodeJS.Timeout;
+}
+
+const RETENTION_MS = 5 * 60 * 1000;  // How long a finished channel stays available for replay
+const MAX_EVENTS = 10000;            // Replay history cap per channel
+
+export class ProgressBus {
+  private channels = new Map<string, Channel>();
+
+  publish(id: string, event: EnrichmentEvent): void {
+    const channel = this.channel(id);
+    if (channel.closed) return;
+
+    channel.events.push(event);
+    if (channel.events.length > MAX_EVENTS) channel.events.shift();
+    for (const listener of channel.listeners) listener(event);
+  }
+
+  /**
+   * Whether anything was published under an id that hasn't expired yet
+   */
+  has(id: string): boolean {
+    return this.channels.has(id);
+  }
+
+  /**
+   * Replay past events, then receive new ones until the channel closes.
+   * Returns an unsubscribe function.
+   */
+  subscribe(id: string, listener: ProgressListener, onClose?: () => void): () => void {
+    const channel = this.channel(id);
+    for (const event of channel.events) listener(event);
+
+    if (channel.closed) {
+      onClose?.();
+      return () => {};
+    }
+
+    channel.listeners.add(listener);
+    if (onClose) channel.closeListeners.add(onClose);
+
+    return () => {
+      channel.listeners.delete(listener);
+      if (onClose) channel.closeListeners.delete(onClose);
+      // Drop channels nobody published to once their last subscriber leaves
+      if (channel.events.length === 0 && channel.listeners.size === 0 && !channel.closed) {
+        this.channels.delete(id);
+      }
+    };
+  }
+
+  /**
+   * Mark a run as finished: subscribers are told to disconnect and the history expires after a while
+   */
+  close(id: string): void {
+    const channel = this.channels.get(id);
+    if (!channel || channel.closed) return;
+
+    channel.closed = true;
+    for (const onClose of channel.closeListeners) onClose();
+    channel.listeners.clear();
+    channel.closeListeners.clear();
+    channel.expiry = setTimeout(() => this.channels.delete(id), RETENTION_MS);
+    channel.expiry.unref();
+  }
+
+  private channel(id: string): Channel {
+    let channel = this.channels.get(id);
+    if (!channel) {
+      channel = { events: [], listeners: new Set(), closeListeners: new Set(), closed: false };
+      this.channels.set(id, channel);
+    }
+    return channel;
+  }
+}
+
+// Shared between the enrich endpoint that publishes and the SSE endpoint that subscribes
+export const progressBus = new ProgressBus();
@@ -0,0 +1,47 @@
+/**
+ * Provenance Tracker
+ * Records where each populated field of a company profile came from
+ */
+
+import { FieldProvenance } from '../types/enrichment.js';
+
+const MAX_SNIPPET_LENGTH = 200;
+
+export class ProvenanceTracker {
+  private fields = new Map<string, FieldProvenance[]>();
+
+  /**
+   * Attach a provenance entry to a field path, skipping exact duplicates
+   */
+  add(field: string, entry: FieldProvenance): void {
+    const snippet = entry.snippet?.replace(/\s+/g, ' ').trim();
+    const normalized: FieldProvenance = {
+      ...entry,
+      snippet: snippet ? (snippet.length > MAX_SNIPPET_LENGTH ? `${snippet.slice(0, MAX_SNIPPET_LENGTH)}…` : snippet) : undefined,
+    };
+
+    const entries = this.fields.get(field) || [];
+    const duplicate = entries.some(e => e.sourceId === normalized.sourceId && e.url === normalized.url && e.snippet === normalized.snippet);
+    if (!duplicate) {
+      entries.push(normalized);
+      this.fields.set(field, entries);
+    }
+  }
+
+  has(field: string): boolean {
+    return this.fields.has(field);
+  }
+
+  /**
+   * Drop provenance for fields that ended up unpopulated
+   */
+  retain(populated: (field: string) => boolean): void {
+    for (const field of [...this.fields.keys()]) {
+      if (!populated(field)) this.fields.delete(field);
+    }
+  }
+
+  toJSON(): Record<string, FieldProvenance[]> {
+    return Object.fromEntries(this.fields);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Rate Limiter
+ * Per-host and per-provider concurrency caps, request spacing and 429 backoff
+ */
+
+export interface RateLimitConfig {
+  maxConcurrent: number;       // Requests in flight at once for this key
+  requestsPerMinute?: number;  // Minimum spacing between request starts
+}
+
+interface KeyState {
+  active: number;
+  waiters: Array<() => void>;
+  nextSlotAt: number;
+  pausedUntil: number;
+}
+
+const DEFAULT_LIMITS: Record<string, RateLimitConfig> = {
+  github: { maxConcurrent: 4, requestsPerMinute: 60 },
+  linkedin: { maxConcurrent: 1, requestsPerMinute: 20 },
+  anthropic: { maxConcurrent: 4, requestsPerMinute: 50 },
+  default: { maxConcurrent: 2, requestsPerMinute: 120 }, // Applied per host
+};
+
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+/**
+ * Map a URL to its rate limit key: a named provider, or the host itself
+ */
+export function rateLimitKeyForUrl(url: string): string {
+  const host = new URL(url).hostname.toLowerCase();
+  if (host === 'github.com' || host.endsWith('.github.com')) return 'github';
+  if (host === 'linkedin.com' || host.endsWith('.linkedin.com')) return 'linkedin';
+  if (host === 'api.anthropic.com') return 'anthropic';
+  return `host:${host.replace(/^www\./, '')}`;
+}
+
+export class RateLimiter {
+  private overrides: Record<string, RateLimitConfig>;
+  private limits?: Record<string, RateLimitConfig>;
+  private state = new Map<string, KeyState>();
+
+  constructor(limits: Record<string, RateLimitConfig> = {}) {
+    this.overrides = { ...limits };
+  }
+
+  configure(key: string, config: RateLimitConfig): void {
+    this.overrides[key] = config;
+    this.limits = undefined;
+  }
+
+  /**
+   * Run a task once a slot is free for the given key
+   */
+  async schedule<T>(key: string, task: () => Promise<T>): Promise<T> {
+    await this.acquire(key);
+    try {
+      return await task();
+    } finally {
+      this.release(key);
+    }
+  }
+
+  /**
+   * Stop starting new requests for a key (e.g. after a 429)
+   */
+  pause(key: string, ms: number): void {
+    const state = this.getState(key);
+    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + Math.min(ms, MAX_BACKOFF_MS));
+  }
+
+  /**
+   * Number of tasks waiting for a slot on a key
+   */
+  queued(key: string): number {
+    return this.state.get(key)?.waiters.length || 0;
+  }
+
+  private limitFor(key: string): RateLimitConfig {
+    // Resolved lazily so RATE_LIMITS from .env is picked up after dotenv.config()
+    if (!this.limits) {
+      this.limits = { ...DEFAULT_LIMITS, ...parseRateLimits(process.env.RATE_LIMITS), ...this.overrides };
+    }
+    return this.limits[key] || this.limits.default;
+  }
+
+  private getState(key: string): KeyState {
+    let state = this.state.get(key);
+    if (!state) {
+      state = { active: 0, waiters: [], nextSlotAt: 0, pausedUntil: 0 };
+      this.state.set(key, state);
+    }
+    return state;
+  }
+
+  private async acquire(key: string): Promise<void> {
+    const limit = this.limitFor(key);
+    const state = this.getState(key);
+
+    if (state.active < limit.maxConcurrent) {
+      state.active++;
+    } else {
+      // Slot is handed over directly by release()
+      await new Promise<void>(resolve => state.waiters.push(resolve));
+    }
+
+    const intervalMs = limit.requestsPerMinute ? 60000 / limit.requestsPerMinute : 0;
+    for (;;) {
+      const wait = Math.max(state.nextSlotAt, state.pausedUntil) - Date.now();
+      if (wait <= 0) break;
+      await sleep(wait);
+    }
+    state.nextSlotAt = Date.now() + intervalMs;
+  }
+
+  private release(key: string): void {
+    const state = this.getState(key);
+    const next = state.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      state.active--;
+    }
+  }
+}
+
+/**
+ * Parse RATE_LIMITS, e.g. "github=4:60,linkedin=1:20,default=2:120" (maxConcurrent:requestsPerMinute)
+ */
+export function parseRateLimits(value: string | undefined): Record<string, RateLimitConfig> {
+  const limits: Record<string, RateLimitConfig> = {};
+  if (!value) return limits;
+
+  for (const entry of value.split(',')) {
+    const [key, spec] = entry.split('=').map(s => s.trim());
+    if (!key || !spec) continue;
+    const [concurrent, rpm] = spec.split(':').map(n => parseInt(n, 10));
+    if (!concurrent || concurrent < 1) continue;
+    limits[key] = { maxConcurrent: concurrent, requestsPerMinute: rpm > 0 ? rpm : undefined };
+  }
+
+  return limits;
+}
+
+// Shared across every fetcher so limits hold for the whole process, not per engine
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,147 @@
+/**
+ * Response Cache
+ * Content-addressed on-disk cache for outbound HTTP responses and LLM results, with per-source TTLs
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export type CacheSource = 'website' | 'crunchbase' | 'github' | 'jobs' | 'linkedin' | 'llm';
+
+export const CACHE_SOURCES: CacheSource[] = ['website', 'crunchbase', 'github', 'jobs', 'linkedin', 'llm'];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const DEFAULT_TTLS: Record<CacheSource, number> = {
+  website: DAY,
+  crunchbase: 7 * DAY,
+  github: DAY,
+  jobs: 12 * HOUR,
+  linkedin: 7 * DAY,
+  llm: 30 * DAY,
+};
+
+const DEFAULT_CACHE_DIR = './data/cache';
+
+export interface CacheConfig {
+  enabled?: boolean;
+  refresh?: CacheSource[];   // Sources that skip cached reads this run (fresh results are still written)
+  dir?: string;
+  ttls?: Partial<Record<CacheSource, number>>;
+}
+
+interface CacheEntry<T> {
+  storedAt: number;
+  value: T;
+}
+
+/**
+ * Serializable snapshot of an HTTP response
+ */
+export interface CachedResponse {
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: string;
+  url?: string; // Final URL after redirects; missing from entries stored before it was recorded
+}
+
+/**
+ * Parse a duration like "30m", "12h" or "7d" into milliseconds
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([mhd])$/i);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  return amount * (unit === 'm' ? 60 * 1000 : unit === 'h' ? HOUR : DAY);
+}
+
+/**
+ * Parse CACHE_TTLS, e.g. "website=12h,jobs=6h,llm=30d"
+ */
+export function parseCacheTtls(value: string | undefined): Partial<Record<CacheSource, number>> {
+  const ttls: Partial<Record<CacheSource, number>> = {};
+  if (!value) return ttls;
+
+  for (const entry of value.split(',')) {
+    const [source, duration] = entry.split('=').map(s => s.trim());
+    const ms = duration ? parseDuration(duration) : undefined;
+    if (CACHE_SOURCES.includes(source as CacheSource) && ms !== undefined) {
+      ttls[source as CacheSource] = ms;
+    }
+  }
+
+  return ttls;
+}
+
+export class ResponseCache {
+  private config: CacheConfig = {};
+
+  configure(config: CacheConfig): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled ?? process.env.CACHE_DISABLED !== 'true';
+  }
+
+  /**
+   * Content address for a request: a hash of everything that determines the response
+   */
+  key(parts: unknown[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+  }
+
+  async get<T>(source: CacheSource, key: string): Promise<T | undefined> {
+    if (!this.enabled || this.config.refresh?.includes(source)) return undefined;
+
+    try {
+      const entry = JSON.parse(await fs.readFile(this.pathFor(source, key), 'utf-8')) as CacheEntry<T>;
+      if (Date.now() - entry.storedAt > this.ttlFor(source)) return undefined;
+      return entry.value;
+    } catch (error) {
+      return undefined; // Missing or unreadable entry is a cache miss
+    }
+  }
+
+  async set<T>(source: CacheSource, key: string, value: T): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      const filePath = this.pathFor(source, key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const entry: CacheEntry<T> = { storedAt: Date.now(), value };
+      await fs.writeFile(filePath, JSON.stringify(entry), 'utf-8');
+    } catch (error) {
+      console.log(`    ✗ Cache write failed: ${error instanceof Error ? error.message : 'Unknown'}`);
+    }
+  }
+
+  /**
+   * Return the cached value for these key parts, or produce, store and return a fresh one
+   */
+  async wrap<T>(source: CacheSource, keyParts: unknown[], produce: () => Promise<T>): Promise<T> {
+    const key = this.key(keyParts);
+    const cached = await this.get<T>(source, key);
+    if (cached !== undefined) return cached;
+
+    const value = await produce();
+    await this.set(source, key, value);
+    return value;
+  }
+
+  private ttlFor(source: CacheSource): number {
+    return this.config.ttls?.[source] ?? parseCacheTtls(process.env.CACHE_TTLS)[source] ?? DEFAULT_TTLS[source];
+  }
+
+  private pathFor(source: CacheSource, key: string): string {
+    const dir = this.config.dir || process.env.CACHE_DIR || DEFAULT_CACHE_DIR;
+    return path.join(dir, source, key.slice(0, 2), `${key}.json`);
+  }
+}
+
+// Shared so CLI flags like --no-cache apply to every fetcher
+export const responseCache = new ResponseCache();
@@ -0,0 +1,300 @@
+/**
+ * Result Store
+ * Persists every enrichment run to a local SQLite database, keyed by normalized domain
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { CompanyEnrichmentData, CompanyEnrichmentInput, EnrichmentResult } from '../types/enrichment.js';
+
+export interface StoredRun {
+  id: number;
+  domain: string;
+  createdAt: Date;
+  success: boolean;
+  confidence: number;
+  processingTimeMs: number;
+  sources: string[];
+  input: CompanyEnrichmentInput;
+  data?: CompanyEnrichmentData;
+  error?: string;
+}
+
+export interface CompanyFilter {
+  hiringCountry?: string; // ISO country code the latest profile has open roles in
+}
+
+export interface StoredCompany {
+  domain: string;
+  name?: string;
+  lastEnrichedAt: Date;
+  runCount: number;
+}
+
+export interface SnapshotPosting {
+  key: string;        // Stable identity across runs, see postingKey()
+  title: string;
+  department: string; // Top-level department from the taxonomy
+  postedAt?: Date;
+}
+
+export interface JobSnapshot {
+  id: number;
+  observedAt: Date;
+  postings: SnapshotPosting[];
+}
+
+interface RunRow {
+  id: number;
+  domain: string;
+  created_at: string;
+  success: number;
+  confidence: number;
+  processing_time_ms: number;
+  sources: string;
+  input: string;
+  data: string | null;
+  error: string | null;
+}
+
+const DEFAULT_DB_PATH = './data/enrichment.db';
+
+/**
+ * Normalize a domain or URL to a bare lowercase hostname, e.g. "https://www.Stripe.com/about" → "stripe.com"
+ */
+export function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/^www\./, '')
+    .replace(/\.$/, '');
+}
+
+/**
+ * Restore Date fields lost in the JSON round trip
+ */
+function reviveData(json: string): CompanyEnrichmentData {
+  const data = JSON.parse(json) as CompanyEnrichmentData;
+  data.lastUpdated = new Date(data.lastUpdated);
+  if (data.latestFundingRound) {
+    data.latestFundingRound.date = new Date(data.latestFundingRound.date);
+  }
+  return data;
+}
+
+function toRun(row: RunRow): StoredRun {
+  return {
+    id: row.id,
+    domain: row.domain,
+    createdAt: new Date(row.created_at),
+    success: row.success === 1,
+    confidence: row.confidence,
+    processingTimeMs: row.processing_time_ms,
+    sources: JSON.parse(row.sources),
+    input: JSON.parse(row.input),
+    data: row.data ? reviveData(row.data) : undefined,
+    error: row.error ?? undefined,
+  };
+}
+
+export class ResultStore {
+  private db: Database.Database;
+
+  constructor(dbPath: string = process.env.ENRICHMENT_DB_PATH || DEFAULT_DB_PATH) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS enrichment_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        domain TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        confidence INTEGER NOT NULL,
+        processing_time_ms INTEGER NOT NULL,
+        sources TEXT NOT NULL,
+        input TEXT NOT NULL,
+        data TEXT,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_enrichment_runs_domain ON enrichment_runs (domain, created_at);
+      CREATE TABLE IF NOT EXISTS job_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        domain TEXT NOT NULL,
+        observed_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_job_snapshots_domain ON job_snapshots (domain, observed_at);
+      CREATE TABLE IF NOT EXISTS job_postings (
+        snapshot_id INTEGER NOT NULL REFERENCES job_snapshots (id),
+        posting_key TEXT NOT NULL,
+        title TEXT NOT NULL,
+        department TEXT NOT NULL,
+        posted_at TEXT,
+        PRIMARY KEY (snapshot_id, posting_key)
+      );
+    `);
+  }
+
+  /**
+   * Save a run as a timestamped snapshot under the domain its sources ran against: the requested one,
+   * or the one discovered when only a name was given. Returns the run id, or null if there is no
+   * domain to key it by.
+   */
+  saveRun(input: CompanyEnrichmentInput, result: EnrichmentResult, domain = input.domain): number | null {
+    const key = normalizeDomain(domain || '');
+    if (!key) return null;
+
+    const info = this.db.prepare(`
+      INSERT INTO enrichment_runs (domain, created_at, success, confidence, processing_time_ms, sources, input, data, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      key,
+      new Date().toISOString(),
+      result.success ? 1 : 0,
+      result.confidence,
+      result.processingTimeMs,
+      JSON.stringify(result.data?.sources || []),
+      JSON.stringify(input),
+      result.data ? JSON.stringify(result.data) : null,
+      result.error ?? null
+    );
+
+    return Number(info.lastInsertRowid);
+  }
+
+  /**
+   * Latest successful profile for a domain
+   */
+  getLatest(domain: string): StoredRun | null {
+    const row = this.db.prepare(`
+      SELECT * FROM enrichment_runs
+      WHERE domain = ? AND success = 1
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `).get(normalizeDomain(domain)) as RunRow | undefined;
+    return row ? toRun(row) : null;
+  }
+
+  /**
+   * All runs for a domain, newest first
+   */
+  getHistory(domain: string, limit = 50): StoredRun[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM enrichment_runs
+      WHERE domain = ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `).all(normalizeDomain(domain), limit) as RunRow[];
+    return rows.map(toRun);
+  }
+
+  getRun(id: number): StoredRun | null {
+    const row = this.db.prepare('SELECT * FROM enrichment_runs WHERE id = ?').get(id) as RunRow | undefined;
+    return row ? toRun(row) : null;
+  }
+
+  /**
+   * Record the postings open on a domain's job boards right now. Returns the snapshot id.
+   */
+  saveJobSnapshot(domain: string, observedAt: Date, postings: SnapshotPosting[]): number {
+    const insertPosting = this.db.prepare(`
+      INSERT OR IGNORE INTO job_postings (snapshot_id, posting_key, title, department, posted_at) VALUES (?, ?, ?, ?, ?)
+    `);
+
+    return this.db.transaction(() => {
+      const info = this.db.prepare('INSERT INTO job_snapshots (domain, observed_at) VALUES (?, ?)')
+        .run(normalizeDomain(domain), observedAt.toISOString());
+      const id = Number(info.lastInsertRowid);
+      for (const posting of postings) {
+        insertPosting.run(id, posting.key, posting.title, posting.department, posting.postedAt?.toISOString() ?? null);
+      }
+      return id;
+    })();
+  }
+
+  /**
+   * Every job snapshot for a domain, oldest first
+   */
+  getJobSnapshots(domain: string): JobSnapshot[] {
+    const rows = this.db.prepare(`
+      SELECT s.id, s.observed_at, p.posting_key, p.title, p.department, p.posted_at
+      FROM job_snapshots s LEFT JOIN job_postings p ON p.snapshot_id = s.id
+      WHERE s.domain = ?
+      ORDER BY s.observed_at, s.id
+    `).all(normalizeDomain(domain)) as Array<{
+      id: number;
+      observed_at: string;
+      posting_key: string | null;
+      title: string | null;
+      department: string | null;
+      posted_at: string | null;
+    }>;
+
+    const snapshots = new Map<number, JobSnapshot>();
+    for (const row of rows) {
+      let snapshot = snapshots.get(row.id);
+      if (!snapshot) {
+        snapshot = { id: row.id, observedAt: new Date(row.observed_at), postings: [] };
+        snapshots.set(row.id, snapshot);
+      }
+      if (row.posting_key) {
+        snapshot.postings.push({
+          key: row.posting_key,
+          title: row.title!,
+          department: row.department!,
+          postedAt: row.posted_at ? new Date(row.posted_at) : undefined,
+        });
+      }
+    }
+    return [...snapshots.values()];
+  }
+
+  /**
+   * Every domain with at least one successful run, optionally only those whose latest profile matches the filter
+   */
+  listCompanies(filter: CompanyFilter = {}): StoredCompany[] {
+    const conditions = ['success = 1'];
+    const params: string[] = [];
+    if (filter.hiringCountry) {
+      conditions.push(`domain IN (
+        SELECT l.domain FROM enrichment_runs l
+        WHERE l.success = 1
+          AND l.id = (SELECT l2.id FROM enrichment_runs l2 WHERE l2.domain = l.domain AND l2.success = 1 ORDER BY l2.created_at DESC, l2.id DESC LIMIT 1)
+          AND EXISTS (SELECT 1 FROM json_each(l.data, '$.hiring.geography.countries') c WHERE json_extract(c.value, '$.country') = ?)
+      )`);
+      params.push(filter.hiringCountry);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT domain, MAX(created_at) AS last_enriched_at, COUNT(*) AS run_count,
+        (SELECT json_extract(r2.data, '$.name') FROM enrichment_runs r2
+          WHERE r2.domain = r.domain AND r2.success = 1
+          ORDER BY r2.created_at DESC, r2.id DESC LIMIT 1) AS name
+      FROM enrichment_runs r
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY domain
+      ORDER BY last_enriched_at DESC
+    `).all(...params) as Array<{ domain: string; last_enriched_at: string; run_count: number; name: string | null }>;
+
+    return rows.map(row => ({
+      domain: row.domain,
+      name: row.name ?? undefined,
+      lastEnrichedAt: new Date(row.last_enriched_at),
+      runCount: row.run_count,
+    }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Security Headers
+ * Reads the HTTP security headers on a site's homepage: HSTS, Content Security Policy, and the
+ * framing, MIME-sniffing, referrer and permissions policies
+ */
+
+export interface StrictTransportSecurity {
+  maxAge: number; // Seconds
+  includeSubDomains: boolean;
+  preload: boolean;
+}
+
+export interface ContentSecurityPolicy {
+  reportOnly: boolean; // Only Content-Security-Policy-Report-Only was sent
+  directives: Record<string, string[]>; // e.g. "script-src" → ["'self'", "https://js.stripe.com"]
+}
+
+export interface SecurityHeaders {
+  hsts?: StrictTransportSecurity;
+  contentSecurityPolicy?: ContentSecurityPolicy;
+  frameOptions?: string;        // X-Frame-Options
+  contentTypeOptions?: string;  // X-Content-Type-Options
+  referrerPolicy?: string;
+  permissionsPolicy?: string;
+  missing: string[];            // Recommended headers the site doesn't send, lower-cased
+}
+
+/**
+ * Directives of a policy, e.g. "default-src 'self'; script-src 'self' js.stripe.com". Several
+ * policies (separate headers arrive comma-joined) have their sources combined per directive.
+ */
+export function parseContentSecurityPolicy(value: string): Record<string, string[]> {
+  const directives: Record<string, string[]> = {};
+  for (const policy of value.split(',')) {
+    for (const directive of policy.split(';')) {
+      const [name, ...sources] = directive.trim().split(/\s+/);
+      if (!name) continue;
+      const key = name.toLowerCase();
+      directives[key] = [...new Set([...(directives[key] || []), ...sources])];
+    }
+  }
+  return directives;
+}
+
+function parseHsts(value: string): StrictTransportSecurity | undefined {
+  const maxAge = value.match(/max-age\s*=\s*"?(\d+)/i);
+  if (!maxAge) return undefined;
+  return {
+    maxAge: parseInt(maxAge[1], 10),
+    includeSubDomains: /(?:^|;)\s*includesubdomains\s*(?:;|$)/i.test(value),
+    preload: /(?:^|;)\s*preload\s*(?:;|$)/i.test(value),
+  };
+}
+
+/**
+ * The security headers among a response's headers (lower-cased names)
+ */
+export function analyzeSecurityHeaders(headers: Record<string, string>): SecurityHeaders {
+  const result: SecurityHeaders = { missing: [] };
+
+  const hsts = headers['strict-transport-security'] ? parseHsts(headers['strict-transport-security']) : undefined;
+  if (hsts && hsts.maxAge > 0) result.hsts = hsts;
+  else result.missing.push('strict-transport-security');
+
+  const csp = headers['content-security-policy'] || headers['content-security-policy-report-only'];
+  if (csp) {
+    result.contentSecurityPolicy = {
+      reportOnly: !headers['content-security-policy'],
+      directives: parseContentSecurityPolicy(csp),
+    };
+  } else {
+    result.missing.push('content-security-policy');
+  }
+
+  if (headers['x-frame-options']) result.frameOptions = headers['x-frame-options'];
+  // frame-ancestors supersedes X-Frame-Options
+  else if (!result.contentSecurityPolicy?.directives['frame-ancestors']) result.missing.push('x-frame-options');
+
+  if (headers['x-content-type-options']) result.contentTypeOptions = headers['x-content-type-options'];
+  else result.missing.push('x-content-type-options');
+
+  if (headers['referrer-policy']) result.referrerPolicy = headers['referrer-policy'];
+  else result.missing.push('referrer-policy');
+
+  if (headers['permissions-policy']) result.permissionsPolicy = headers['permissions-policy'];
+
+  return result;
+}
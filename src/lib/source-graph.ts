@@ -0,0 +1,117 @@
+/**
+ * Source Graph
+ * Runs data sources as a dependency graph, in parallel where inputs allow
+ */
+
+import { StepTiming } from '../types/enrichment.js';
+import { DataSource, DataSourceRegistry, EnrichmentContext } from './data-sources.js';
+
+export interface SourceGraphHooks {
+  onStepStart?(step: string): void;
+  onStepFinish?(timing: StepTiming): void;
+}
+
+export interface SourceGraphResult {
+  found: string[];       // Sources that contributed data, in registration order
+  steps: StepTiming[];   // One entry per source, in registration order
+}
+
+/**
+ * Map each source to the sources producing one of its inputs.
+ * Throws if the declared inputs/outputs form a cycle.
+ */
+export function buildDependencyGraph(sources: DataSource[]): Map<string, string[]> {
+  const graph = new Map<string, string[]>();
+
+  for (const source of sources) {
+    const deps = sources
+      .filter(other => other !== source && other.outputs.some(key => source.inputs.includes(key)))
+      .map(other => other.name);
+    graph.set(source.name, deps);
+  }
+
+  // Kahn's algorithm - anything left unvisited is part of a cycle
+  const remaining = new Map([...graph].map(([name, deps]) => [name, new Set(deps)]));
+  let progressed = true;
+  while (remaining.size > 0 && progressed) {
+    progressed = false;
+    for (const [name, deps] of remaining) {
+      if (deps.size === 0) {
+        remaining.delete(name);
+        for (const other of remaining.values()) other.delete(name);
+        progressed = true;
+      }
+    }
+  }
+
+  if (remaining.size > 0) {
+    throw new Error(`Data source dependency cycle: ${[...remaining.keys()].join(' → ')}`);
+  }
+
+  return graph;
+}
+
+/**
+ * Run sources concurrently, starting each one as soon as every source it depends on has settled.
+ * A failed or skipped source does not block its dependents; they see whatever context is available.
+ */
+export async function runSourceGraph(sources: DataSource[], context: EnrichmentContext, hooks: SourceGraphHooks = {}): Promise<SourceGraphResult> {
+  const graph = buildDependencyGraph(sources);
+  const graphStart = Date.now();
+  const timings = new Map<string, StepTiming>();
+  const foundNames = new Set<string>();
+  const running = new Map<string, Promise<void>>();
+
+  const runSource = (source: DataSource): Promise<void> => {
+    const existing = running.get(source.name);
+    if (existing) return existing;
+
+    const promise = (async () => {
+      const deps = graph.get(source.name) || [];
+      await Promise.all(deps.map(dep => runSource(sources.find(s => s.name === dep)!)));
+
+      const startedAt = Date.now();
+      const startOffsetMs = startedAt - graphStart;
+
+      if (!DataSourceRegistry.isApplicable(source, context)) {
+        timings.set(source.name, { step: source.name, status: 'skipped', startOffsetMs, durationMs: 0 });
+        hooks.onStepFinish?.(timings.get(source.name)!);
+        return;
+      }
+
+      hooks.onStepStart?.(source.name);
+      try {
+        const result = await source.run(context);
+        Object.assign(context, result.outputs);
+        if (result.found) foundNames.add(source.name);
+        timings.set(source.name, {
+          step: source.name,
+          status: 'completed',
+          startOffsetMs,
+          durationMs: Date.now() - startedAt,
+          found: result.found,
+        });
+      } catch (error) {
+        console.log(`    ✗ ${source.name} failed: ${error instanceof Error ? error.message : 'Unknown'}`);
+        timings.set(source.name, {
+          step: source.name,
+          status: 'failed',
+          startOffsetMs,
+          durationMs: Date.now() - startedAt,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      hooks.onStepFinish?.(timings.get(source.name)!);
+    })();
+
+    running.set(source.name, promise);
+    return promise;
+  };
+
+  await Promise.all(sources.map(runSource));
+
+  return {
+    found: sources.filter(s => foundNames.has(s.name)).map(s => s.name),
+    steps: sources.map(s => timings.get(s.name)!),
+  };
+}
@@ -1,13 +1,36 @@
 /**
  * Tech Stack Detection
- * Analyzes HTML/JS to detect frontend/backend frameworks and tools
+ * Matches a website's HTML, headers and cookies, the domain's DNS records, and probed subdomains
+ * and well-known files against the fingerprint rules to detect frontend/backend frameworks and tools,
+ * flags detected versions that are past end of life, reads the homepage's security headers, and
+ * inventories the third-party hosts it loads from or allows
  */
 
+import { FingerprintDatabase, FingerprintMatch } from './fingerprints.js';
+import { DnsRecords } from './dns-resolver.js';
+import { EndpointKind, ProbedEndpoint } from './endpoint-prober.js';
+import { EndOfLife, EolCatalog } from './eol-catalog.js';
+import { SecurityHeaders, analyzeSecurityHeaders } from './security-headers.js';
+import { ThirdPartyHost, buildThirdPartyInventory } from './third-party.js';
+
 export interface TechStack {
   name: string;
   category: string;
   confidence: number; // 0-100
   version?: string;
+  endOfLife?: EndOfLife; // Set when the version is past end of life
+  evidence?: string[]; // Pages and files the technology was seen on; absent for DNS-only findings
+}
+
+// A detected version past end of life
+export type OutdatedTechnology = TechStack & { version: string; endOfLife: EndOfLife };
+
+// Signals beyond the homepage HTML: its response, and what the dns_records and endpoint_probes sources gathered
+export interface TechSignals {
+  headers?: Record<string, string>; // Homepage response headers, lower-cased names
+  cookies?: Record<string, string>; // Homepage Set-Cookie names and values
+  dns?: DnsRecords;
+  endpoints?: ProbedEndpoint[];
 }
 
 export interface TechnographicData {
@@ -23,342 +46,87 @@ export interface TechnographicData {
   cdnProviders: TechStack[];
   authProviders: TechStack[];
   apiServices: TechStack[];
+  emailProviders: TechStack[]; // Mailboxes (MX), e.g. Google Workspace, and the gateways in front of them
+  emailDelivery: TechStack[];  // Sending services from SPF includes, e.g. SendGrid
+  dnsProviders: TechStack[];
+  statusPages: TechStack[];
+  docsPlatforms: TechStack[];
+  outdated: OutdatedTechnology[];
   allTechnologies: TechStack[];
+  endpoints: Array<{ kind: EndpointKind; url: string }>; // Probed subdomains and files that answered
+  securityHeaders?: SecurityHeaders; // When the homepage's headers are known
+  thirdPartyHosts?: ThirdPartyHost[]; // From the homepage's CSP and tags, when it was fetched
 }
 
-export class TechDetector {
-  /**
-   * Extract all script sources from HTML
-   */
-  private extractScriptSources(html: string): string[] {
-    const scriptRegex = /<script[^>]*src=["']([^"']+)["']/gi;
-    const sources: string[] = [];
-    let match;
+// Status pages, docs and help centers are usually hosted by a vendor whose own stack (CDN, frameworks)
+// says nothing about the company, so only the vendor itself is taken from them
+const ENDPOINT_CATEGORIES: Partial<Record<EndpointKind, string[]>> = {
+  status: ['Status Page'],
+  docs: ['Documentation'],
+  help: ['Customer Support', 'Documentation'],
+};
 
-    while ((match = scriptRegex.exec(html)) !== null) {
-      sources.push(match[1].toLowerCase());
-    }
+export class TechDetector {
+  private fingerprints: FingerprintDatabase;
+  private eolCatalog: EolCatalog;
 
-    return sources;
+  constructor(fingerprints: FingerprintDatabase = FingerprintDatabase.load(), eolCatalog: EolCatalog = EolCatalog.load()) {
+    this.fingerprints = fingerprints;
+    this.eolCatalog = eolCatalog;
   }
 
   /**
-   * Detect tech stack from website HTML
+   * Detect tech stack from website HTML and, when given, the homepage's response headers and
+   * cookies, the domain's DNS records and probed endpoints
    */
-  async detectTechStack(html: string, url: string): Promise<TechnographicData> {
-    const detected: TechStack[] = [];
-
-    // Extract all script sources
-    const scriptSrcs = this.extractScriptSources(html);
-
-    // Frontend Frameworks
-    if (html.includes('react') || html.includes('_react') || html.includes('React') || scriptSrcs.some(s => s.includes('react'))) {
-      detected.push({ name: 'React', category: 'Frontend Framework', confidence: 90 });
-    }
-    if (html.includes('vue') || html.includes('Vue.js') || scriptSrcs.some(s => s.includes('vue'))) {
-      detected.push({ name: 'Vue.js', category: 'Frontend Framework', confidence: 90 });
-    }
-    if (html.includes('angular') || html.includes('ng-') || scriptSrcs.some(s => s.includes('angular'))) {
-      detected.push({ name: 'Angular', category: 'Frontend Framework', confidence: 90 });
-    }
-    if (html.includes('svelte') || scriptSrcs.some(s => s.includes('svelte'))) {
-      detected.push({ name: 'Svelte', category: 'Frontend Framework', confidence: 85 });
-    }
-    if (html.includes('next.js') || html.includes('_next') || scriptSrcs.some(s => s.includes('_next'))) {
-      detected.push({ name: 'Next.js', category: 'Frontend Framework', confidence: 95 });
-    }
-
-    // Build Tools
-    if (html.includes('webpack') || scriptSrcs.some(s => s.includes('webpack'))) {
-      detected.push({ name: 'Webpack', category: 'Build Tool', confidence: 80 });
-    }
-    if (html.includes('vite') || scriptSrcs.some(s => s.includes('vite'))) {
-      detected.push({ name: 'Vite', category: 'Build Tool', confidence: 80 });
-    }
-
-    // Analytics
-    if (html.includes('google-analytics') || html.includes('gtag') || html.includes('ga.js') || scriptSrcs.some(s => s.includes('googletagmanager') || s.includes('google-analytics'))) {
-      detected.push({ name: 'Google Analytics', category: 'Analytics', confidence: 95 });
-    }
-    if (html.includes('segment.com') || html.includes('analytics.js') || scriptSrcs.some(s => s.includes('segment.com') || s.includes('segment.io'))) {
-      detected.push({ name: 'Segment', category: 'Analytics', confidence: 95 });
-    }
-    if (html.includes('mixpanel') || scriptSrcs.some(s => s.includes('mixpanel'))) {
-      detected.push({ name: 'Mixpanel', category: 'Analytics', confidence: 90 });
-    }
-    if (html.includes('amplitude') || scriptSrcs.some(s => s.includes('amplitude'))) {
-      detected.push({ name: 'Amplitude', category: 'Analytics', confidence: 90 });
-    }
-    if (html.includes('plausible') || scriptSrcs.some(s => s.includes('plausible'))) {
-      detected.push({ name: 'Plausible', category: 'Analytics', confidence: 90 });
-    }
-    if (scriptSrcs.some(s => s.includes('posthog'))) {
-      detected.push({ name: 'PostHog', category: 'Analytics', confidence: 90 });
-    }
-
-    // Observability & Monitoring - Enhanced Detection
-
-    // Sentry
-    if (html.includes('sentry') || html.includes('sentry.io') ||
-        scriptSrcs.some(s => s.includes('sentry')) ||
-        html.includes('Sentry.init') || html.includes('Sentry.captureException')) {
-      detected.push({ name: 'Sentry', category: 'Observability', confidence: 95 });
-    }
-
-    // Datadog RUM
-    if (html.includes('datadog') || scriptSrcs.some(s => s.includes('datadog')) ||
-        html.includes('DD_RUM') || html.includes('datadoghq') ||
-        scriptSrcs.some(s => s.includes('datadoghq-browser')) ||
-        html.includes('datadoghq.com/browser') || html.includes('DD_LOGS')) {
-      detected.push({ name: 'Datadog', category: 'Observability', confidence: 95 });
-    }
-
-    // New Relic
-    if (html.includes('newrelic') || html.includes('nr-data') ||
-        scriptSrcs.some(s => s.includes('newrelic')) ||
-        html.includes('NREUM') || html.includes('bam.nr-data.net') ||
-        scriptSrcs.some(s => s.includes('js-agent.newrelic.com')) ||
-        html.includes('window.NREUM')) {
-      detected.push({ name: 'New Relic', category: 'Observability', confidence: 95 });
-    }
-
-    // LogRocket
-    if (html.includes('logrocket') || scriptSrcs.some(s => s.includes('logrocket')) ||
-        html.includes('LogRocket.init') || html.includes('cdn.logrocket.com')) {
-      detected.push({ name: 'LogRocket', category: 'Observability', confidence: 90 });
-    }
-
-    // FullStory
-    if (scriptSrcs.some(s => s.includes('fullstory')) ||
-        html.includes('fullstory.com') || html.includes('_fs_')) {
-      detected.push({ name: 'FullStory', category: 'Observability', confidence: 90 });
-    }
-
-    // AppDynamics
-    if (html.includes('appdynamics') || scriptSrcs.some(s => s.includes('appdynamics')) ||
-        html.includes('adrum') || scriptSrcs.some(s => s.includes('adrum.js'))) {
-      detected.push({ name: 'AppDynamics', category: 'Observability', confidence: 90 });
-    }
-
-    // Dynatrace
-    if (html.includes('dynatrace') || scriptSrcs.some(s => s.includes('dynatrace')) ||
-        html.includes('ruxitagentjs') || scriptSrcs.some(s => s.includes('bf.dynatrace.com'))) {
-      detected.push({ name: 'Dynatrace', category: 'Observability', confidence: 90 });
-    }
-
-    // Splunk RUM
-    if (html.includes('splunk') || scriptSrcs.some(s => s.includes('splunk')) ||
-        scriptSrcs.some(s => s.includes('splunkrum'))) {
-      detected.push({ name: 'Splunk RUM', category: 'Observability', confidence: 85 });
-    }
-
-    // Elastic APM
-    if (html.includes('elastic-apm') || scriptSrcs.some(s => s.includes('elastic-apm')) ||
-        html.includes('@elastic/apm-rum')) {
-      detected.push({ name: 'Elastic APM', category: 'Observability', confidence: 90 });
-    }
-
-    // Raygun
-    if (html.includes('raygun') || scriptSrcs.some(s => s.includes('raygun')) ||
-        html.includes('rg4js')) {
-      detected.push({ name: 'Raygun', category: 'Observability', confidence: 85 });
-    }
-
-    // Bugsnag
-    if (html.includes('bugsnag') || scriptSrcs.some(s => s.includes('bugsnag')) ||
-        html.includes('Bugsnag.start')) {
-      detected.push({ name: 'Bugsnag', category: 'Observability', confidence: 90 });
-    }
-
-    // Rollbar
-    if (html.includes('rollbar') || scriptSrcs.some(s => s.includes('rollbar')) ||
-        html.includes('Rollbar.init')) {
-      detected.push({ name: 'Rollbar', category: 'Observability', confidence: 90 });
-    }
-
-    // Honeybadger
-    if (html.includes('honeybadger') || scriptSrcs.some(s => s.includes('honeybadger'))) {
-      detected.push({ name: 'Honeybadger', category: 'Observability', confidence: 85 });
-    }
-
-    // Airbrake
-    if (html.includes('airbrake') || scriptSrcs.some(s => s.includes('airbrake'))) {
-      detected.push({ name: 'Airbrake', category: 'Observability', confidence: 85 });
-    }
-
-    // Highlight.io
-    if (html.includes('highlight.io') || scriptSrcs.some(s => s.includes('highlight.io')) ||
-        html.includes('H.init')) {
-      detected.push({ name: 'Highlight.io', category: 'Observability', confidence: 90 });
-    }
-
-    // OpenTelemetry
-    if (html.includes('opentelemetry') || html.includes('@opentelemetry') ||
-        scriptSrcs.some(s => s.includes('opentelemetry'))) {
-      detected.push({ name: 'OpenTelemetry', category: 'Observability', confidence: 85 });
-    }
-
-    // Prometheus (client-side metrics)
-    if (html.includes('prometheus') || scriptSrcs.some(s => s.includes('prometheus'))) {
-      detected.push({ name: 'Prometheus', category: 'Observability', confidence: 80 });
-    }
-
-    // Grafana Faro (RUM)
-    if (html.includes('@grafana/faro') || scriptSrcs.some(s => s.includes('grafana-faro'))) {
-      detected.push({ name: 'Grafana Faro', category: 'Observability', confidence: 85 });
-    }
-
-    // Instana
-    if (html.includes('instana') || scriptSrcs.some(s => s.includes('instana')) ||
-        html.includes('ineum')) {
-      detected.push({ name: 'Instana', category: 'Observability', confidence: 85 });
-    }
-
-    // Honeycomb.io
-    if (html.includes('honeycomb.io') || scriptSrcs.some(s => s.includes('honeycomb'))) {
-      detected.push({ name: 'Honeycomb', category: 'Observability', confidence: 85 });
-    }
-
-    // Lightstep (now ServiceNow Cloud Observability)
-    if (html.includes('lightstep') || scriptSrcs.some(s => s.includes('lightstep'))) {
-      detected.push({ name: 'Lightstep', category: 'Observability', confidence: 85 });
-    }
-
-    // Atatus
-    if (html.includes('atatus') || scriptSrcs.some(s => s.includes('atatus'))) {
-      detected.push({ name: 'Atatus', category: 'Observability', confidence: 80 });
-    }
-
-    // Scout APM
-    if (html.includes('scoutapm') || scriptSrcs.some(s => s.includes('scoutapm'))) {
-      detected.push({ name: 'Scout APM', category: 'Observability', confidence: 80 });
-    }
-
-    // Better Stack (formerly Logtail)
-    if (html.includes('betterstack') || scriptSrcs.some(s => s.includes('betterstack')) ||
-        html.includes('logtail')) {
-      detected.push({ name: 'Better Stack', category: 'Observability', confidence: 85 });
-    }
-
-    // Checkly (Monitoring as Code)
-    if (html.includes('checklyhq') || scriptSrcs.some(s => s.includes('checkly'))) {
-      detected.push({ name: 'Checkly', category: 'Observability', confidence: 80 });
-    }
-
-    // Payment Processors
-    if (html.includes('stripe') || scriptSrcs.some(s => s.includes('stripe.com'))) {
-      detected.push({ name: 'Stripe', category: 'Payment Processor', confidence: 95 });
-    }
-    if (scriptSrcs.some(s => s.includes('paypal.com'))) {
-      detected.push({ name: 'PayPal', category: 'Payment Processor', confidence: 95 });
-    }
-    if (scriptSrcs.some(s => s.includes('braintree'))) {
-      detected.push({ name: 'Braintree', category: 'Payment Processor', confidence: 90 });
-    }
-    if (scriptSrcs.some(s => s.includes('square'))) {
-      detected.push({ name: 'Square', category: 'Payment Processor', confidence: 90 });
-    }
-
-    // Customer Support
-    if (html.includes('intercom') || scriptSrcs.some(s => s.includes('intercom'))) {
-      detected.push({ name: 'Intercom', category: 'Customer Support', confidence: 95 });
-    }
-    if (html.includes('zendesk') || scriptSrcs.some(s => s.includes('zendesk'))) {
-      detected.push({ name: 'Zendesk', category: 'Customer Support', confidence: 90 });
-    }
-    if (scriptSrcs.some(s => s.includes('helpscout'))) {
-      detected.push({ name: 'Help Scout', category: 'Customer Support', confidence: 90 });
-    }
-    if (scriptSrcs.some(s => s.includes('crisp.chat'))) {
-      detected.push({ name: 'Crisp', category: 'Customer Support', confidence: 90 });
-    }
-    if (scriptSrcs.some(s => s.includes('tawk.to'))) {
-      detected.push({ name: 'Tawk.to', category: 'Customer Support', confidence: 90 });
-    }
-
-    // Marketing & Sales Tools
-    if (html.includes('hubspot') || scriptSrcs.some(s => s.includes('hubspot'))) {
-      detected.push({ name: 'HubSpot', category: 'Marketing', confidence: 90 });
-    }
-    if (html.includes('drift') || scriptSrcs.some(s => s.includes('drift'))) {
-      detected.push({ name: 'Drift', category: 'Marketing', confidence: 90 });
-    }
-    if (scriptSrcs.some(s => s.includes('pardot'))) {
-      detected.push({ name: 'Pardot', category: 'Marketing', confidence: 90 });
-    }
-    if (scriptSrcs.some(s => s.includes('marketo'))) {
-      detected.push({ name: 'Marketo', category: 'Marketing', confidence: 90 });
-    }
-    if (scriptSrcs.some(s => s.includes('optimizely'))) {
-      detected.push({ name: 'Optimizely', category: 'Marketing', confidence: 85 });
-    }
+  async detectTechStack(html: string, url: string, signals: TechSignals = {}): Promise<TechnographicData> {
+    const detected = new Map<string, TechStack>();
+    const merge = (matches: FingerprintMatch[], evidence?: string) => {
+      for (const match of matches) {
+        const existing = detected.get(match.name);
+        if (!existing) {
+          detected.set(match.name, { ...match, evidence: evidence ? [evidence] : undefined });
+          continue;
+        }
+        existing.confidence = Math.max(existing.confidence, match.confidence);
+        if (match.version && !existing.version) existing.version = match.version;
+        if (evidence && !existing.evidence?.includes(evidence)) existing.evidence = [...(existing.evidence || []), evidence];
+      }
+    };
 
-    // Auth Providers
-    if (scriptSrcs.some(s => s.includes('auth0'))) {
-      detected.push({ name: 'Auth0', category: 'Authentication', confidence: 95 });
-    }
-    if (scriptSrcs.some(s => s.includes('okta'))) {
-      detected.push({ name: 'Okta', category: 'Authentication', confidence: 95 });
-    }
-    if (html.includes('firebase') || scriptSrcs.some(s => s.includes('firebase'))) {
-      detected.push({ name: 'Firebase', category: 'Authentication', confidence: 90 });
+    if (html || signals.headers) {
+      merge(this.fingerprints.analyze({ url, html, headers: signals.headers, cookies: signals.cookies }), url);
     }
-    if (scriptSrcs.some(s => s.includes('clerk.dev') || s.includes('clerk.com'))) {
-      detected.push({ name: 'Clerk', category: 'Authentication', confidence: 95 });
+    if (signals.dns) merge(this.fingerprints.analyze({ url, html: '', dns: signals.dns }));
+    for (const endpoint of signals.endpoints || []) {
+      const page = endpoint.path
+        ? { url: endpoint.finalUrl, html: '', headers: endpoint.headers, files: { [endpoint.path]: endpoint.body } }
+        : { url: endpoint.finalUrl, html: endpoint.body, headers: endpoint.headers, cookies: endpoint.cookies };
+      const categories = ENDPOINT_CATEGORIES[endpoint.kind];
+      const matches = this.fingerprints.analyze(page).filter(match => !categories || categories.includes(match.category));
+      merge(matches, endpoint.finalUrl);
     }
 
-    // CDN Providers
-    if (html.includes('cloudfront.net') || scriptSrcs.some(s => s.includes('cloudfront.net'))) {
-      detected.push({ name: 'CloudFront', category: 'CDN', confidence: 90 });
-    }
-    if (scriptSrcs.some(s => s.includes('cloudflare'))) {
-      detected.push({ name: 'Cloudflare', category: 'CDN', confidence: 90 });
-    }
-    if (scriptSrcs.some(s => s.includes('fastly'))) {
-      detected.push({ name: 'Fastly', category: 'CDN', confidence: 90 });
+    for (const tech of detected.values()) {
+      const endOfLife = tech.version ? this.eolCatalog.check(tech.name, tech.version) : undefined;
+      if (endOfLife) tech.endOfLife = endOfLife;
     }
 
-    // Cloud Providers
-    if (html.includes('cloudfront.net') || html.includes('amazonaws.com')) {
-      detected.push({ name: 'AWS', category: 'Cloud Provider', confidence: 85 });
-    }
-    if (html.includes('storage.googleapis.com') || html.includes('gcp')) {
-      detected.push({ name: 'Google Cloud', category: 'Cloud Provider', confidence: 85 });
-    }
-    if (html.includes('azure') || html.includes('azurewebsites')) {
-      detected.push({ name: 'Azure', category: 'Cloud Provider', confidence: 85 });
-    }
-    if (html.includes('vercel') || html.includes('vercel.app')) {
-      detected.push({ name: 'Vercel', category: 'Cloud Provider', confidence: 95 });
-    }
-    if (html.includes('netlify')) {
-      detected.push({ name: 'Netlify', category: 'Cloud Provider', confidence: 95 });
-    }
-
-    // Check headers for additional signals
-    try {
-      const response = await fetch(url, {
-        method: 'HEAD',
-        headers: { 'User-Agent': 'Mozilla/5.0' },
-        signal: AbortSignal.timeout(5000),
-      });
-
-      const server = response.headers.get('server');
-      const poweredBy = response.headers.get('x-powered-by');
-
-      if (server?.includes('nginx')) {
-        detected.push({ name: 'Nginx', category: 'Web Server', confidence: 95 });
-      }
-      if (poweredBy?.includes('Express')) {
-        detected.push({ name: 'Express.js', category: 'Backend Framework', confidence: 90 });
-      }
-      if (poweredBy?.includes('Next.js')) {
-        detected.push({ name: 'Next.js', category: 'Frontend Framework', confidence: 95 });
-      }
-    } catch (error) {
-      // Headers check failed, continue
-    }
+    const allTechnologies = [...detected.values()].sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name));
+    const endpoints = (signals.endpoints || []).map(({ kind, finalUrl }) => ({ kind, url: finalUrl }));
+    const thirdPartyHosts = html || signals.headers
+      ? buildThirdPartyInventory({ url, html, headers: signals.headers }, this.fingerprints)
+      : undefined;
+    const technographic = this.categorize(allTechnologies, endpoints, thirdPartyHosts);
+    if (signals.headers) technographic.securityHeaders = analyzeSecurityHeaders(signals.headers);
+    return technographic;
+  }
 
+  private categorize(
+    detected: TechStack[],
+    endpoints: TechnographicData['endpoints'],
+    thirdPartyHosts?: ThirdPartyHost[]
+  ): TechnographicData {
     // Categorize technologies
     const frontendFrameworks = detected.filter(t => t.category === 'Frontend Framework');
     const backendFrameworks = detected.filter(t => t.category === 'Backend Framework');
@@ -372,10 +140,21 @@ export class TechDetector {
     const cdnProviders = detected.filter(t => t.category === 'CDN');
     const authProviders = detected.filter(t => t.category === 'Authentication');
     const apiServices = detected.filter(t => t.category === 'API Service');
-
-    console.log(`    ✓ Detected ${detected.length} technologies`);
+    const emailProviders = detected.filter(t => t.category === 'Email Provider' || t.category === 'Email Security');
+    const emailDelivery = detected.filter(t => t.category === 'Email Delivery');
+    const dnsProviders = detected.filter(t => t.category === 'DNS Provider');
+    const statusPages = detected.filter(t => t.category === 'Status Page');
+    const docsPlatforms = detected.filter(t => t.category === 'Documentation');
+    const outdated = detected.filter((t): t is OutdatedTechnology => !!t.version && !!t.endOfLife);
+
+    const vendors = new Set(thirdPartyHosts?.map(h => h.vendor).filter(Boolean));
+    const hosts = thirdPartyHosts ? `, ${thirdPartyHosts.length} third-party hosts (${vendors.size} known vendors)` : '';
+    console.log(`    ✓ Detected ${detected.length} technologies${hosts}`);
     if (detected.length > 0) {
-      console.log(`    → Technologies: ${detected.map(t => `${t.name} (${t.category})`).join(', ')}`);
+      console.log(`    → Technologies: ${detected.map(t => `${t.name}${t.version ? ` ${t.version}` : ''} (${t.category})`).join(', ')}`);
+    }
+    if (outdated.length > 0) {
+      console.log(`    ⚠ Past end of life: ${outdated.map(t => `${t.name} ${t.version}`).join(', ')}`);
     }
 
     return {
@@ -391,7 +170,15 @@ export class TechDetector {
       cdnProviders,
       authProviders,
       apiServices,
+      emailProviders,
+      emailDelivery,
+      dnsProviders,
+      statusPages,
+      docsPlatforms,
+      outdated,
       allTechnologies: detected,
+      endpoints,
+      thirdPartyHosts,
     };
   }
 
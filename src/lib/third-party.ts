@@ -0,0 +1,113 @@
+/**
+ * Third-Party Inventory
+ * The external hosts a site loads from or allows: every host in its Content Security Policy
+ * (header or meta tag) and in its script, link and img tags, named by vendor where the
+ * fingerprint rules know the domain
+ */
+
+import { FingerprintDatabase } from './fingerprints.js';
+import { parseContentSecurityPolicy } from './security-headers.js';
+
+export type ThirdPartySource = 'csp' | 'script' | 'link' | 'img';
+
+export interface ThirdPartyHost {
+  host: string;      // "*.intercom.io" for CSP wildcards
+  vendor?: string;   // Fingerprint technology the host belongs to, e.g. "Stripe"
+  category?: string;
+  seenIn: ThirdPartySource[];
+  directives?: string[]; // CSP directives that allow the host, e.g. ["script-src", "frame-src"]
+}
+
+// Directives whose values aren't sources
+const NON_SOURCE_DIRECTIVES = new Set([
+  'sandbox', 'report-to', 'trusted-types', 'require-trusted-types-for', 'plugin-types',
+  'upgrade-insecure-requests', 'block-all-mixed-content',
+]);
+
+const TAGS: Array<{ source: ThirdPartySource; pattern: RegExp }> = [
+  { source: 'script', pattern: /<script[^>]*\ssrc=["']([^"']+)["']/gi },
+  { source: 'link', pattern: /<link[^>]*\shref=["']([^"']+)["']/gi },
+  { source: 'img', pattern: /<img[^>]*\ssrc=["']([^"']+)["']/gi },
+];
+
+// The host of a CSP source, e.g. "*.stripe.com" for "https://*.stripe.com:443/v3/";
+// keywords, bare schemes and nonces have none
+function sourceHost(source: string): string | undefined {
+  if (source.startsWith("'")) return undefined;
+  const match = source.match(/^(?:[a-z][a-z0-9+.-]*:\/\/)?((?:\*\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)+))(?::(?:\d+|\*))?(?:\/.*)?$/i);
+  if (!match || /^[\d.]+$/.test(match[2])) return undefined;
+  return match[1].toLowerCase();
+}
+
+function urlHost(value: string, pageUrl: string): string | undefined {
+  if (/^(?:data|blob|javascript|mailto):/i.test(value)) return undefined;
+  try {
+    return new URL(value.replace(/&amp;/g, '&'), pageUrl || undefined).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+function metaPolicies(html: string): string[] {
+  const policies: string[] = [];
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    if (!/\shttp-equiv=["']content-security-policy["']/i.test(tag)) continue;
+    const content = tag.match(/\scontent=(["'])([\s\S]*?)\1/i)?.[2];
+    if (content) policies.push(content.replace(/&#39;|&apos;/g, "'").replace(/&quot;/g, '"'));
+  }
+  return policies;
+}
+
+/**
+ * Third-party hosts of a page, with the page's own domain and its subdomains left out. Hosts with
+ * a known vendor come first, by vendor, then the rest by host.
+ */
+export function buildThirdPartyInventory(
+  page: { url: string; html: string; headers?: Record<string, string> },
+  fingerprints: FingerprintDatabase
+): ThirdPartyHost[] {
+  let apex = '';
+  try {
+    apex = new URL(page.url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    // Without a page URL every host counts as third-party
+  }
+  const firstParty = (host: string) => !!apex && (host === apex || host.endsWith(`.${apex}`));
+
+  const hosts = new Map<string, ThirdPartyHost>();
+  const record = (host: string | undefined, source: ThirdPartySource, directive?: string) => {
+    if (!host || firstParty(host)) return;
+    let entry = hosts.get(host);
+    if (!entry) {
+      entry = { host, seenIn: [] };
+      const vendor = fingerprints.vendorOf(host);
+      if (vendor) {
+        entry.vendor = vendor.name;
+        entry.category = vendor.category;
+      }
+      hosts.set(host, entry);
+    }
+    if (!entry.seenIn.includes(source)) entry.seenIn.push(source);
+    if (directive && !entry.directives?.includes(directive)) entry.directives = [...(entry.directives || []), directive];
+  };
+
+  const headers = page.headers || {};
+  const policies = [
+    headers['content-security-policy'],
+    headers['content-security-policy-report-only'],
+    ...metaPolicies(page.html),
+  ].filter((policy): policy is string => !!policy);
+  for (const policy of policies) {
+    for (const [directive, sources] of Object.entries(parseContentSecurityPolicy(policy))) {
+      if (NON_SOURCE_DIRECTIVES.has(directive)) continue;
+      for (const source of sources) record(sourceHost(source), 'csp', directive);
+    }
+  }
+
+  for (const { source, pattern } of TAGS) {
+    for (const match of page.html.matchAll(pattern)) record(urlHost(match[1], page.url), source);
+  }
+
+  return [...hosts.values()].sort((a, b) =>
+    (a.vendor ? 0 : 1) - (b.vendor ? 0 : 1) || (a.vendor || '').localeCompare(b.vendor || '') || a.host.localeCompare(b.host));
+}
@@ -0,0 +1,127 @@
+/**
+ * Usage Tracker
+ * Records tokens, latency and cost for every LLM call and rolls them up per company and per batch
+ */
+
+import { BatchUsage, LLMCall, UsageSummary } from '../types/enrichment.js';
+
+export interface ModelPricing {
+  inputPerMTok: number;   // USD per million input tokens
+  outputPerMTok: number;  // USD per million output tokens
+}
+
+// Matched by longest model id prefix, so dated snapshots share their family's price
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4-5': { inputPerMTok: 5, outputPerMTok: 25 },
+  'claude-opus-4': { inputPerMTok: 15, outputPerMTok: 75 },
+  'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-7-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-5-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-haiku-4-5': { inputPerMTok: 1, outputPerMTok: 5 },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4 },
+  'claude-3-haiku': { inputPerMTok: 0.25, outputPerMTok: 1.25 },
+};
+
+// Self-hosted and offline models cost nothing per token
+const FREE_PROVIDERS = ['openai-compatible', 'mock'];
+
+const warnedModels = new Set<string>();
+
+/**
+ * Parse MODEL_PRICING, e.g. "claude-sonnet-4=3:15,my-model=0.5:1.5" (USD per million input:output tokens)
+ */
+export function parseModelPricing(value: string | undefined): Record<string, ModelPricing> {
+  const pricing: Record<string, ModelPricing> = {};
+  if (!value) return pricing;
+
+  for (const entry of value.split(',')) {
+    const [model, spec] = entry.split('=').map(s => s.trim());
+    if (!model || !spec) continue;
+    const [input, output] = spec.split(':').map(n => parseFloat(n));
+    if (isNaN(input) || isNaN(output)) continue;
+    pricing[model] = { inputPerMTok: input, outputPerMTok: output };
+  }
+
+  return pricing;
+}
+
+export function pricingFor(provider: string, model: string): ModelPricing | undefined {
+  const table = { ...DEFAULT_PRICING, ...parseModelPricing(process.env.MODEL_PRICING) };
+  const prefix = Object.keys(table)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix) return table[prefix];
+  if (FREE_PROVIDERS.includes(provider)) return { inputPerMTok: 0, outputPerMTok: 0 };
+  return undefined;
+}
+
+export function estimateCost(provider: string, model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = pricingFor(provider, model);
+  if (!pricing) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.log(`    ⓘ No pricing for ${model}, counting its cost as $0 (set MODEL_PRICING to add it)`);
+    }
+    return 0;
+  }
+  return (inputTokens * pricing.inputPerMTok + outputTokens * pricing.outputPerMTok) / 1_000_000;
+}
+
+export function formatUSD(amount: number): string {
+  return `$${amount < 1 ? amount.toFixed(4) : amount.toFixed(2)}`;
+}
+
+/**
+ * Collects the LLM calls made during one enrichment
+ */
+export class UsageTracker {
+  private calls: LLMCall[] = [];
+
+  record(call: Omit<LLMCall, 'costUSD'>): LLMCall {
+    const costUSD = call.cached ? 0 : estimateCost(call.provider, call.model, call.inputTokens, call.outputTokens);
+    const recorded = { ...call, costUSD };
+    this.calls.push(recorded);
+    return recorded;
+  }
+
+  summary(): UsageSummary {
+    return {
+      inputTokens: sum(this.calls, c => c.inputTokens),
+      outputTokens: sum(this.calls, c => c.outputTokens),
+      costUSD: sum(this.calls, c => c.costUSD),
+      latencyMs: sum(this.calls, c => c.latencyMs),
+      calls: [...this.calls],
+    };
+  }
+}
+
+/**
+ * Roll per-company usage up into a batch total, broken down by model
+ */
+export function summarizeBatchUsage(usages: Array<UsageSummary | undefined>): BatchUsage {
+  const batch: BatchUsage = { companies: 0, calls: 0, inputTokens: 0, outputTokens: 0, costUSD: 0, byModel: {} };
+
+  for (const usage of usages) {
+    if (!usage) continue;
+    batch.companies++;
+    batch.inputTokens += usage.inputTokens;
+    batch.outputTokens += usage.outputTokens;
+    batch.costUSD += usage.costUSD;
+
+    for (const call of usage.calls) {
+      batch.calls++;
+      const key = `${call.provider}:${call.model}`;
+      const model = batch.byModel[key] ||= { calls: 0, inputTokens: 0, outputTokens: 0, costUSD: 0 };
+      model.calls++;
+      model.inputTokens += call.inputTokens;
+      model.outputTokens += call.outputTokens;
+      model.costUSD += call.costUSD;
+    }
+  }
+
+  return batch;
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
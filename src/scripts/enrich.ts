@@ -3,6 +3,12 @@ dotenv.config();
 
 import { CompanyEnrichmentEngine } from '../lib/enrichment-engine.js';
 import { MarkdownExporter } from '../lib/markdown-exporter.js';
+import { ResultStore } from '../lib/result-store.js';
+import { responseCache, CACHE_SOURCES, CacheSource } from '../lib/response-cache.js';
+import { parseStrictness } from '../lib/fact-verifier.js';
+import { ModelProvider } from '../lib/model-provider.js';
+import { summarizeBatchUsage, formatUSD } from '../lib/usage-tracker.js';
+import { VerificationStrictness } from '../types/enrichment.js';
 import fs from 'fs/promises';
 
 async function main() {
@@ -17,38 +23,85 @@ async function main() {
     npx tsx src/scripts/enrich.ts <domain1> <domain2>   Enrich multiple domains
     npx tsx src/scripts/enrich.ts --file <path.txt>     Enrich from a file (one domain per line)
 
+  Options:
+    --concurrency <n>    Companies enriched at once (default: ENRICH_CONCURRENCY or 4)
+    --budget <usd>       Stop a batch before its LLM spend exceeds this amount (default: BUDGET_USD)
+    --from-store         Export the latest stored profile instead of enriching again
+    --no-cache           Bypass the response cache entirely
+    --refresh <sources>  Refetch these sources but keep caching them, e.g. website,jobs or all
+                         (${CACHE_SOURCES.join(', ')})
+    --verify <level>     Check extracted facts against fetched text: off, flag or drop
+                         (default: VERIFY_STRICTNESS or flag)
+    --deep-jobs          Fetch each job posting's own page for full descriptions, skills and pay
+                         (default: JOBS_DEEP_FETCH)
+
   Examples:
     npx tsx src/scripts/enrich.ts stripe.com
     npx tsx src/scripts/enrich.ts anthropic.com linear.app figma.com
-    npx tsx src/scripts/enrich.ts --file domains.txt
+    npx tsx src/scripts/enrich.ts --file domains.txt --concurrency 8
 
-  Output is saved to ./output/ as Markdown files.
+  Output is saved to ./output/ as Markdown files. Every run is also stored in
+  ./data/enrichment.db (override with ENRICHMENT_DB_PATH).
 `);
     process.exit(0);
   }
 
-  if (!process.env.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY === 'your_anthropic_api_key_here') {
-    console.error('\n  Error: ANTHROPIC_API_KEY is not set.');
-    console.error('  Copy .env.example to .env and add your key:\n');
-    console.error('    cp .env.example .env\n');
-    process.exit(1);
-  }
-
   let domains: string[] = [];
-
-  if (args[0] === '--file') {
-    const filePath = args[1];
-    if (!filePath) {
-      console.error('  Error: Please provide a file path after --file');
-      process.exit(1);
+  let concurrency: number | undefined;
+  let budgetUSD: number | undefined;
+  let fromStore = false;
+  let verification: VerificationStrictness | undefined;
+  let deepJobs: boolean | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--file') {
+      const filePath = args[++i];
+      if (!filePath) {
+        console.error('  Error: Please provide a file path after --file');
+        process.exit(1);
+      }
+      const content = await fs.readFile(filePath, 'utf-8');
+      domains.push(...content
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#')));
+    } else if (arg === '--concurrency') {
+      concurrency = parseInt(args[++i], 10);
+      if (!concurrency || concurrency < 1) {
+        console.error('  Error: --concurrency must be a positive number');
+        process.exit(1);
+      }
+    } else if (arg === '--budget') {
+      budgetUSD = parseFloat((args[++i] || '').replace(/^\$/, ''));
+      if (isNaN(budgetUSD) || budgetUSD <= 0) {
+        console.error('  Error: --budget must be a positive dollar amount, e.g. 5 or 12.50');
+        process.exit(1);
+      }
+    } else if (arg === '--from-store') {
+      fromStore = true;
+    } else if (arg === '--verify') {
+      verification = parseStrictness(args[++i]);
+      if (!verification) {
+        console.error('  Error: --verify must be one of: off, flag, drop');
+        process.exit(1);
+      }
+    } else if (arg === '--deep-jobs') {
+      deepJobs = true;
+    } else if (arg === '--no-cache') {
+      responseCache.configure({ enabled: false });
+    } else if (arg === '--refresh') {
+      const value = args[++i] || '';
+      const refresh = value === 'all' ? CACHE_SOURCES : value.split(',').map(s => s.trim()) as CacheSource[];
+      const unknown = refresh.filter(source => !CACHE_SOURCES.includes(source));
+      if (refresh.length === 0 || unknown.length > 0) {
+        console.error(`  Error: --refresh expects one or more of: ${CACHE_SOURCES.join(', ')}, or all`);
+        process.exit(1);
+      }
+      responseCache.configure({ refresh });
+    } else {
+      domains.push(arg);
     }
-    const content = await fs.readFile(filePath, 'utf-8');
-    domains = content
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0 && !line.startsWith('#'));
-  } else {
-    domains = args;
   }
 
   if (domains.length === 0) {
@@ -56,9 +109,24 @@ async function main() {
     process.exit(1);
   }
 
-  const engine = new CompanyEnrichmentEngine();
+  const store = new ResultStore();
   const exporter = new MarkdownExporter();
 
+  if (fromStore) {
+    await exportFromStore(store, exporter, domains);
+    return;
+  }
+
+  const configErrors = new ModelProvider().missingCredentials();
+  if (configErrors.length > 0) {
+    for (const error of configErrors) console.error(`\n  Error: ${error}`);
+    console.error('  Copy .env.example to .env and add your key:\n');
+    console.error('    cp .env.example .env\n');
+    process.exit(1);
+  }
+
+  const engine = new CompanyEnrichmentEngine({ store, verification, deepJobs });
+
   console.log(`\n  Enriching ${domains.length} domain${domains.length > 1 ? 's' : ''}...\n`);
 
   if (domains.length === 1) {
@@ -67,24 +135,52 @@ async function main() {
     if (result.success && result.data) {
       const filepath = await exporter.exportSingle(result.data);
       console.log(`\n  Done! Report saved to: ${filepath}`);
-      console.log(`  Confidence: ${result.confidence}% · Time: ${(result.processingTimeMs / 1000).toFixed(1)}s\n`);
+      console.log(`  Confidence: ${result.confidence}% · Time: ${(result.processingTimeMs / 1000).toFixed(1)}s`);
+      if (result.usage) {
+        console.log(`  Tokens: ${result.usage.inputTokens.toLocaleString()} in / ${result.usage.outputTokens.toLocaleString()} out · Cost: ${formatUSD(result.usage.costUSD)}`);
+      }
+      console.log('');
     } else {
       console.error(`\n  Failed to enrich ${domains[0]}: ${result.error}\n`);
       process.exit(1);
     }
   } else {
     const inputs = domains.map(domain => ({ domain }));
-    const results = await engine.enrichBatch(inputs);
+    const results = await engine.enrichBatch(inputs, {
+      concurrency,
+      budgetUSD,
+      onEvent: event => {
+        const prefix = 'index' in event ? `  [${event.index + 1}/${domains.length}] ${event.company} — ` : '';
+        if (event.type === 'company_started') {
+          console.log(`${prefix}running (${event.queued} queued)`);
+        } else if (event.type === 'company_finished') {
+          console.log(`${prefix}${event.success ? 'completed' : 'failed'}`);
+        } else if (event.type === 'company_skipped') {
+          console.log(`${prefix}skipped`);
+        }
+      },
+    });
     const successfulData = results
       .filter(r => r.success && r.data)
       .map(r => r.data!);
 
+    const usage = summarizeBatchUsage(results.map(r => r.usage));
+
     if (successfulData.length > 0) {
-      const filepath = await exporter.exportBatch(successfulData);
+      const filepath = await exporter.exportBatch(successfulData, usage);
       console.log(`\n  Done! Report saved to: ${filepath}`);
       console.log(`  ${successfulData.length}/${domains.length} enriched successfully\n`);
     }
 
+    console.log(`  LLM usage: ${usage.calls} calls · ${usage.inputTokens.toLocaleString()} in / ${usage.outputTokens.toLocaleString()} out · ${formatUSD(usage.costUSD)}`);
+    for (const [model, m] of Object.entries(usage.byModel)) {
+      console.log(`    ${model}: ${m.calls} calls · ${m.inputTokens.toLocaleString()} in / ${m.outputTokens.toLocaleString()} out · ${formatUSD(m.costUSD)}`);
+    }
+    if (usage.companies > 0) {
+      console.log(`    Average per company: ${formatUSD(usage.costUSD / usage.companies)}`);
+    }
+    console.log('');
+
     const failed = results.filter(r => !r.success);
     if (failed.length > 0) {
       console.log('  Failed domains:');
@@ -94,6 +190,32 @@ async function main() {
   }
 }
 
+/**
+ * Re-export stored profiles without paying for another enrichment
+ */
+async function exportFromStore(store: ResultStore, exporter: MarkdownExporter, domains: string[]) {
+  const profiles = [];
+  for (const domain of domains) {
+    const run = store.getLatest(domain);
+    if (run?.data) {
+      console.log(`  ✓ ${domain}: stored profile from ${run.createdAt.toLocaleString()}`);
+      profiles.push(run.data);
+    } else {
+      console.log(`  ✗ ${domain}: no stored profile`);
+    }
+  }
+
+  if (profiles.length === 0) {
+    console.error('\n  No stored profiles found. Run an enrichment first.\n');
+    process.exit(1);
+  }
+
+  const filepath = profiles.length === 1
+    ? await exporter.exportSingle(profiles[0])
+    : await exporter.exportBatch(profiles);
+  console.log(`\n  Done! Report saved to: ${filepath}\n`);
+}
+
 main().catch(err => {
   console.error('Fatal error:', err.message);
   process.exit(1);
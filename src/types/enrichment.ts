@@ -31,17 +31,107 @@ export interface LeadershipChange {
   source: string;
 }
 
+export type EmploymentType = 'full_time' | 'part_time' | 'contract' | 'temporary' | 'internship' | 'other';
+
+// Individual contributor levels from intern to principal, then management levels
+export type SeniorityLevel =
+  | 'intern'
+  | 'junior'
+  | 'mid'
+  | 'senior'
+  | 'staff'
+  | 'principal'
+  | 'manager'
+  | 'director'
+  | 'vp'
+  | 'c_level';
+
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+export interface SalaryRange {
+  min: number;
+  max: number;               // Same as min for a single figure
+  currency: string;          // ISO 4217 code, e.g. "USD"
+  period: SalaryPeriod;
+}
+
+export interface SalaryBand extends SalaryRange {
+  department: string;        // Top-level department from the taxonomy, e.g. "Engineering"
+  postings: number;          // Postings with a salary in this currency and period
+}
+
+export type WorkMode = 'remote' | 'hybrid' | 'onsite';
+
+export interface JobLocation {
+  city?: string;
+  region?: string;           // State or province code, e.g. "CA" or "ON"
+  country?: string;          // ISO 3166-1 alpha-2, e.g. "US"
+  metro?: string;            // Metro area the city belongs to, e.g. "San Francisco Bay Area"
+}
+
+export interface HiringGeography {
+  countries: Array<{ country: string; openRoles: number }>;            // Remote roles count toward the countries they're open to
+  metros: Array<{ metro: string; country: string; openRoles: number }>;
+  workModes: Partial<Record<WorkMode, number>>;
+}
+
+export type HiringSignal = 'surge' | 'freeze' | 'steady';
+
+export interface HiringNetChange {
+  days: number;              // Window length: 30, 60 or 90
+  since: Date;               // The earlier run compared against
+  total: number;             // Change in open postings
+  byDepartment: Record<string, number>;
+}
+
+export interface HiringTrends {
+  previousSnapshotAt: Date;  // The last run with job postings before this one
+  snapshots: number;         // Earlier runs with job postings
+  newPostings: number;       // Open now but not in the previous run
+  closedPostings: number;    // In the previous run but no longer open
+  newPostingTitles: string[];
+  closedPostingTitles: string[];
+  averageDaysOpen?: number;  // Across open postings, from the posted date or when first seen
+  netChange: HiringNetChange[]; // Only windows with an earlier run to compare against
+  signal: HiringSignal;
+}
+
 export interface JobPosting {
   title: string;
   department: string;
   location: string;
-  employmentType: string;    // Full-time, Contract, etc.
+  employmentType: EmploymentType;
   postedDate: Date;
   jobUrl: string;
-  salary?: string;
+  salary?: string;           // As published, e.g. "$150K – $190K"
+  salaryRange?: SalaryRange;
+  seniority: SeniorityLevel;
   remote: boolean;
 }
 
+export interface FieldProvenance {
+  sourceId: string;          // Data source id, e.g. "company_website", "crunchbase", "github", or "model_knowledge"
+  url?: string;              // Page or API endpoint the value came from
+  snippet?: string;          // Supporting text from the source
+  method: 'regex' | 'api' | 'llm';
+}
+
+export type VerificationStrictness = 'off' | 'flag' | 'drop';
+
+export interface FactCheck {
+  field: string;             // Field path, e.g. "ceo.name" or "aiInsights.competitorMoves"
+  value: string;             // The value that was checked (one entry per array item)
+  supported: boolean;
+  source?: 'website' | 'crunchbase' | 'linkedin' | 'jobs'; // Fetched text the value was found in
+}
+
+export interface FactVerification {
+  strictness: VerificationStrictness;
+  checked: number;
+  supported: number;
+  unsupported: FactCheck[];  // Flagged, or removed from the profile when strictness is "drop"
+}
+
 export interface CompanyEnrichmentData {
   // Basic Info
   name: string;
@@ -121,21 +211,30 @@ export interface CompanyEnrichmentData {
     jobListings: Array<{
       title: string;
       department: string;
+      departmentPath?: string[];
       location: string;
       remote: boolean;
       url: string;
       requiredSkills: string[];
       description: string;
+      salary?: string;
+      salaryRange?: SalaryRange;
+      seniority?: SeniorityLevel;
+      locations?: JobLocation[];
+      workMode?: WorkMode;
+      remoteRegions?: string[];
+      employmentType?: EmploymentType;
+      responsibilities?: string[];
+      requirements?: string[];
+      niceToHaves?: string[];
     }>;
-    departmentHiring: {
-      engineering: number;
-      sales: number;
-      marketing: number;
-      customerSuccess: number;
-      operations: number;
-      other: number;
-    };
+    departmentHiring: Record<string, number>; // Open roles per department and "Department > Sub-department", from the department taxonomy
     topSkillsHiring: string[];
+    salaryBands?: SalaryBand[];
+    seniorityMix?: Record<string, Partial<Record<SeniorityLevel, number>>>; // Open roles per top-level department and level
+    geography?: HiringGeography;
+    hiringVelocity?: number; // Postings opened in the last 30 days
+    trends?: HiringTrends;   // Compared with earlier runs for the same domain
   };
 
   // Technographic Data
@@ -151,10 +250,43 @@ export interface CompanyEnrichmentData {
     customerSupport: string[];
     cdnProviders: string[];
     authProviders: string[];
+    emailProviders?: string[]; // From MX records
+    emailDelivery?: string[];  // From SPF includes
+    dnsProviders?: string[];   // From NS records
+    statusPages?: string[];
+    docsPlatforms?: string[];
     allTechnologies: Array<{
       name: string;
       category: string;
       confidence: number;
+      version?: string;
+      evidence?: string[];     // URLs the technology was seen on
+    }>;
+    outdatedTechnologies?: Array<{
+      name: string;
+      version: string;
+      cycle: string;           // Release line past end of life, e.g. "7.4", or "<5" for older than any known
+      eol?: string;            // Date support ended, when known
+    }>;
+    endpoints?: Array<{ kind: string; url: string }>; // Probed subdomains (status., docs., help., app.) and well-known files that answered
+    securityHeaders?: {
+      hsts?: { maxAge: number; includeSubDomains: boolean; preload: boolean };
+      contentSecurityPolicy?: {
+        reportOnly: boolean;
+        directives: Record<string, string[]>; // e.g. "script-src" → ["'self'", "https://js.stripe.com"]
+      };
+      frameOptions?: string;
+      contentTypeOptions?: string;
+      referrerPolicy?: string;
+      permissionsPolicy?: string;
+      missing: string[];       // Recommended headers not sent, e.g. "content-security-policy"
+    };
+    thirdPartyHosts?: Array<{
+      host: string;
+      vendor?: string;         // Known vendor of the host, e.g. "Stripe"
+      category?: string;
+      seenIn: string[];        // "csp", "script", "link" or "img"
+      directives?: string[];   // CSP directives allowing the host
     }>;
   };
 
@@ -180,6 +312,9 @@ export interface CompanyEnrichmentData {
   lastUpdated: Date;
   dataQuality: 'high' | 'medium' | 'low';
   sources: string[];
+  provenance?: Record<string, FieldProvenance[]>; // Keyed by field path, e.g. "founded", "ceo.name"
+  verification?: FactVerification; // LLM-extracted values checked against fetched text
+  usage?: UsageSummary;            // LLM tokens and cost spent producing this profile
 
   // AI-Generated Insights
   aiInsights?: {
@@ -203,10 +338,122 @@ export interface CompanyEnrichmentData {
   };
 }
 
+export interface LLMCall {
+  task: string;               // "domainDiscovery", "extraction" or "insights"
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUSD: number;
+  cached: boolean;            // Served from the response cache, so no tokens were spent
+}
+
+export interface UsageSummary {
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  latencyMs: number;          // Sum of call latencies (calls may overlap)
+  calls: LLMCall[];
+}
+
+export interface BatchUsage {
+  companies: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  byModel: Record<string, { calls: number; inputTokens: number; outputTokens: number; costUSD: number }>; // Keyed by "provider:model"
+}
+
+export interface StepTiming {
+  step: string;               // Data source name, or "domain_discovery" / "ai_extraction"
+  status: 'completed' | 'skipped' | 'failed';
+  startOffsetMs: number;      // Start time relative to the beginning of the enrichment
+  durationMs: number;
+  found?: boolean;            // Whether the step contributed data
+  error?: string;
+}
+
+interface CompanyEventBase {
+  timestamp: number;
+  index: number;              // Position in the batch (0 for a single enrichment)
+  company: string;            // Domain, company name or LinkedIn URL as given
+}
+
+export interface BatchStartedEvent {
+  type: 'batch_started';
+  timestamp: number;
+  total: number;
+  concurrency: number;
+}
+
+export interface CompanyQueuedEvent extends CompanyEventBase {
+  type: 'company_queued';
+}
+
+export interface CompanyStartedEvent extends CompanyEventBase {
+  type: 'company_started';
+  queued: number;             // Companies still waiting for a worker
+}
+
+export interface StepStartedEvent extends CompanyEventBase {
+  type: 'step_started';
+  step: string;
+}
+
+export interface StepFinishedEvent extends CompanyEventBase {
+  type: 'step_finished';
+  step: string;
+  status: StepTiming['status'];
+  durationMs: number;
+  found?: boolean;
+  error?: string;
+}
+
+export interface CompanyFinishedEvent extends CompanyEventBase {
+  type: 'company_finished';
+  success: boolean;
+  confidence: number;
+  sources: string[];
+  processingTimeMs: number;
+  costUSD?: number;
+  runId?: number;
+  error?: string;
+}
+
+export interface CompanySkippedEvent extends CompanyEventBase {
+  type: 'company_skipped';
+  reason: string;
+}
+
+export interface BatchFinishedEvent {
+  type: 'batch_finished';
+  timestamp: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  costUSD: number;
+}
+
+export type EnrichmentEvent =
+  | BatchStartedEvent
+  | CompanyQueuedEvent
+  | CompanyStartedEvent
+  | StepStartedEvent
+  | StepFinishedEvent
+  | CompanyFinishedEvent
+  | CompanySkippedEvent
+  | BatchFinishedEvent;
+
 export interface EnrichmentResult {
   success: boolean;
   data?: CompanyEnrichmentData;
   error?: string;
   confidence: number;         // 0-100 confidence score
   processingTimeMs: number;
+  steps?: StepTiming[];       // Per-step timing, in pipeline order
+  runId?: number;             // Id of the stored snapshot, when a result store is configured
+  usage?: UsageSummary;       // LLM tokens and cost spent on this company
 }
@@ -0,0 +1,86 @@
+/**
+ * Department taxonomy tests: postings filed by override title, board label and title, with the
+ * built-in taxonomy and with one loaded from DEPARTMENT_TAXONOMY_PATH
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DepartmentTaxonomy } from '../src/lib/department-taxonomy.js';
+
+const CUSTOM_TAXONOMY = fileURLToPath(new URL('./fixtures/department-taxonomy.json', import.meta.url));
+
+// [board label, title, expected path]
+const POSTINGS: Array<[string, string, string[]]> = [
+  ['Product', 'Product Manager, Payments', ['Product']],
+  ['Design', 'Senior Product Designer', ['Design']],
+  ['Data', 'Data Scientist', ['Data', 'Data Science']],
+  ['Security', 'Security Engineer', ['Security']],
+  ['Engineering', 'Site Reliability Engineer', ['Engineering', 'Infrastructure']],
+  ['', 'Staff Software Engineer, Platform', ['Engineering', 'Infrastructure']],
+  ['Sales', 'Account Executive', ['Sales']],
+  ['Sales', 'Solutions Engineer', ['Sales', 'Sales Engineering']],
+  // Override titles win over a generic label
+  ['Sales', 'Account Manager', ['Customer Success', 'Account Management']],
+  ['Engineering', 'Senior Product Manager', ['Product']],
+  ['Product', 'Product Designer', ['Design']],
+  ['Account Management', 'Senior Account Manager', ['Customer Success', 'Account Management']],
+  ['Customer Success', 'Support Engineer', ['Customer Success', 'Support']],
+  ['', 'Office Manager', ['Operations']],
+  ['', 'Barista', ['Other']],
+];
+
+describe('DepartmentTaxonomy', () => {
+  const taxonomy = new DepartmentTaxonomy();
+  for (const [department, title, expected] of POSTINGS) {
+    it(`files "${title}" under ${JSON.stringify(department)} as ${expected.join(' > ')}`, () => {
+      assert.deepEqual(taxonomy.classify(department, title), expected);
+    });
+  }
+});
+
+describe('DepartmentTaxonomy.load', () => {
+  afterEach(() => {
+    delete process.env.DEPARTMENT_TAXONOMY_PATH;
+  });
+
+  it('uses the built-in taxonomy when DEPARTMENT_TAXONOMY_PATH is not set', () => {
+    assert.deepEqual(DepartmentTaxonomy.load().classify('Design', 'Designer'), ['Design']);
+  });
+
+  it('reads the file at DEPARTMENT_TAXONOMY_PATH', () => {
+    process.env.DEPARTMENT_TAXONOMY_PATH = CUSTOM_TAXONOMY;
+    const taxonomy = DepartmentTaxonomy.load();
+
+    assert.equal(taxonomy.fallback, 'Unassigned');
+    assert.deepEqual(taxonomy.classify('Marketing', 'Content Marketing Lead'), ['Go-to-Market']);
+    assert.deepEqual(taxonomy.classify('Engineering', 'Account Executive'), ['Go-to-Market']);
+    assert.deepEqual(taxonomy.classify('R&D', 'DevOps Engineer'), ['Engineering', 'Infrastructure']);
+    assert.deepEqual(taxonomy.classify('Design', 'Product Designer'), ['Unassigned']);
+  });
+
+  it('rejects unreadable files, a missing departments array and invalid patterns', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'taxonomy-'));
+    try {
+      const write = (name: string, content: string) => {
+        const file = path.join(dir, name);
+        fs.writeFileSync(file, content);
+        return file;
+      };
+
+      assert.throws(() => DepartmentTaxonomy.load(path.join(dir, 'missing.json')), /Could not read department taxonomy/);
+      assert.throws(() => DepartmentTaxonomy.load(write('broken.json', '{')), /Could not read department taxonomy/);
+      assert.throws(() => DepartmentTaxonomy.load(write('empty.json', '{}')), /must have a "departments" array/);
+      assert.throws(() => DepartmentTaxonomy.load(write('unnamed.json', '{"departments":[{"titles":["x"]}]}')), /needs a name/);
+      assert.throws(
+        () => DepartmentTaxonomy.load(write('invalid.json', '{"departments":[{"name":"Data","titles":["("]}]}')),
+        /Invalid pattern for Data/,
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
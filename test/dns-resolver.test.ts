@@ -0,0 +1,76 @@
+/**
+ * DNS tests: the zones in test/fixtures/dns served through StaticDnsResolver, looked up for a domain
+ * and matched against the built-in fingerprint rules
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { DnsRecordType, DnsRecords, DnsResolver, StaticDnsResolver, lookupDnsRecords } from '../src/lib/dns-resolver.js';
+import { TechDetector, TechStack } from '../src/lib/tech-detector.js';
+
+const ZONES: Record<string, DnsRecords> = JSON.parse(fs.readFileSync(new URL('./fixtures/dns/zones.json', import.meta.url), 'utf-8'));
+const resolver = new StaticDnsResolver(ZONES);
+
+const names = (techs: TechStack[]) => techs.map(tech => tech.name).sort();
+
+beforeEach(() => {
+  mock.method(console, 'log', () => {});
+});
+
+describe('lookupDnsRecords', () => {
+  it('normalizes host names and merges the _dmarc TXT record into TXT', async () => {
+    assert.deepEqual(await lookupDnsRecords('acme.test', resolver), {
+      MX: ['aspmx.l.google.com', 'alt1.aspmx.l.google.com'],
+      TXT: [
+        'v=spf1 include:_spf.google.com include:sendgrid.net include:amazonses.com ~all',
+        'stripe-verification=5f0c1e2d3a4b',
+        'v=DMARC1; p=reject; rua=mailto:dmarc@acme.test',
+      ],
+      NS: ['ns-1234.awsdns-26.org', 'ns-567.awsdns-06.net'],
+      CNAME: ['acme-site.netlify.app'],
+    });
+  });
+
+  it('looks up the apex of a URL or www host', async () => {
+    const expected = await lookupDnsRecords('acme.test', resolver);
+    assert.deepEqual(await lookupDnsRecords('https://www.Acme.test/about', resolver), expected);
+  });
+
+  it('leaves out record types with no records or a failed lookup', async () => {
+    const failing: DnsResolver = {
+      async resolve(hostname: string, type: DnsRecordType) {
+        if (type === 'MX') throw new Error('SERVFAIL');
+        return resolver.resolve(hostname, type);
+      },
+    };
+    assert.deepEqual(await lookupDnsRecords('secure.test', failing), { NS: ['kim.ns.cloudflare.com', 'lou.ns.cloudflare.com'] });
+    assert.deepEqual(await lookupDnsRecords('unknown.test', resolver), {});
+  });
+});
+
+describe('TechDetector with DNS records', () => {
+  const detector = new TechDetector();
+
+  it('files mailbox, sending and DNS providers from MX, SPF includes and NS', async () => {
+    const dns = await lookupDnsRecords('acme.test', resolver);
+    const tech = await detector.detectTechStack('', 'https://acme.test/', { dns });
+
+    assert.deepEqual(names(tech.emailProviders), ['Google Workspace']);
+    assert.deepEqual(names(tech.emailDelivery), ['Amazon SES', 'SendGrid']);
+    assert.deepEqual(names(tech.dnsProviders), ['Amazon Route 53']);
+    assert.deepEqual(names(tech.paymentProcessors), ['Stripe']);
+    assert.deepEqual(names(tech.cloudProviders), ['AWS', 'Netlify']);
+    // DNS findings aren't tied to a page
+    assert.equal(tech.emailProviders[0].evidence, undefined);
+    assert.equal(tech.thirdPartyHosts, undefined);
+  });
+
+  it('counts an email security gateway in front of the mailboxes as an email provider', async () => {
+    const dns = await lookupDnsRecords('secure.test', resolver);
+    const tech = await detector.detectTechStack('', 'https://secure.test/', { dns });
+
+    assert.deepEqual(names(tech.emailProviders), ['Mimecast']);
+    assert.deepEqual(names(tech.dnsProviders), ['Cloudflare DNS']);
+  });
+});
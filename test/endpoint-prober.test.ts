@@ -0,0 +1,102 @@
+/**
+ * Endpoint prober tests: subdomains and well-known files served through a stubbed fetch, and what
+ * the tech detector takes from the endpoints that answered
+ */
+
+import { describe, it, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EndpointProber } from '../src/lib/endpoint-prober.js';
+import { TechDetector } from '../src/lib/tech-detector.js';
+import { responseCache } from '../src/lib/response-cache.js';
+import { rateLimiter } from '../src/lib/rate-limiter.js';
+
+interface Route {
+  status?: number;
+  body?: string;
+  headers?: Record<string, string>;
+  redirectTo?: string; // The URL the response ends up at
+}
+
+const STATUS_PAGE = '<html><head><link rel="stylesheet" href="https://cdn.statuspage.io/status.css"></head><body>All Systems Operational</body></html>';
+const SPA_SHELL = '<!doctype html><html><head><title>Acme</title></head><body><div id="root"></div></body></html>';
+
+// Everything not listed doesn't resolve
+const ROUTES: Record<string, Route> = {
+  'https://status.acme.test/': { body: STATUS_PAGE, headers: { 'content-type': 'text/html', server: 'cloudflare' }, redirectTo: 'https://acme.statuspage.io/' },
+  'https://docs.acme.test/': { body: SPA_SHELL, headers: { 'content-type': 'text/html' }, redirectTo: 'https://www.acme.test/docs' },
+  'https://help.acme.test/': { status: 404, body: 'Not found' },
+  'https://acme.test/.well-known/security.txt': { body: 'Contact: https://hackerone.com/acme\nExpires: 2030-01-01T00:00:00Z', headers: { 'content-type': 'text/plain' } },
+  'https://acme.test/robots.txt': { body: 'User-agent: *\n# we use Shopify as our ecommerce platform\nDisallow: /cart', headers: { 'content-type': 'text/plain' } },
+  'https://acme.test/sitemap.xml': { body: SPA_SHELL, headers: { 'content-type': 'text/html; charset=utf-8' } },
+  'https://acme.test/humans.txt': { body: '   ' },
+};
+
+const requested: string[] = [];
+const realFetch = globalThis.fetch;
+
+before(() => {
+  responseCache.configure({ enabled: false });
+  // The four files share a host; no spacing between them
+  rateLimiter.configure('host:acme.test', { maxConcurrent: 4 });
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = String(input);
+    requested.push(url);
+    const route = ROUTES[url];
+    if (!route) throw new TypeError('fetch failed');
+    const response = new Response(route.body ?? '', { status: route.status ?? 200, headers: route.headers });
+    Object.defineProperty(response, 'url', { value: route.redirectTo ?? url });
+    return response;
+  }) as typeof fetch;
+});
+after(() => {
+  globalThis.fetch = realFetch;
+});
+beforeEach(() => {
+  requested.length = 0;
+  mock.method(console, 'log', () => {});
+});
+
+describe('EndpointProber.probe', () => {
+  it('keeps endpoints that answer with their own content', async () => {
+    const endpoints = await new EndpointProber().probe('https://www.acme.test');
+
+    assert.equal(requested.length, 8);
+    assert.ok(requested.includes('https://app.acme.test/'));
+    // docs. redirects back to the main site, help. is a 404, app. doesn't resolve, sitemap.xml is the
+    // app's HTML shell and humans.txt is blank
+    assert.deepEqual(endpoints.map(endpoint => endpoint.kind), ['status', 'security.txt', 'robots.txt']);
+
+    const [status, security] = endpoints;
+    assert.equal(status.url, 'https://status.acme.test/');
+    assert.equal(status.finalUrl, 'https://acme.statuspage.io/');
+    assert.equal(status.path, undefined);
+    assert.equal(status.headers.server, 'cloudflare');
+    assert.equal(security.path, '/.well-known/security.txt');
+    assert.equal(security.finalUrl, 'https://acme.test/.well-known/security.txt');
+  });
+
+  it('probes nothing for a domain that can\'t be parsed', async () => {
+    assert.deepEqual(await new EndpointProber().probe('not a domain'), []);
+    assert.equal(requested.length, 0);
+  });
+});
+
+describe('TechDetector with probed endpoints', () => {
+  it('takes the vendor behind each endpoint, and only the vendor from hosted pages', async () => {
+    const endpoints = await new EndpointProber().probe('acme.test');
+    const tech = await new TechDetector().detectTechStack('', 'https://acme.test/', { endpoints });
+    const names = tech.allTechnologies.map(t => t.name);
+
+    assert.deepEqual(tech.statusPages.map(t => t.name), ['Atlassian Statuspage']);
+    assert.deepEqual(tech.statusPages[0].evidence, ['https://acme.statuspage.io/']);
+    assert.ok(names.includes('HackerOne'));
+    assert.ok(names.includes('Shopify'));
+    // The status page is served through Cloudflare, which says nothing about Acme
+    assert.ok(!names.includes('Cloudflare'));
+    assert.deepEqual(tech.endpoints, [
+      { kind: 'status', url: 'https://acme.statuspage.io/' },
+      { kind: 'security.txt', url: 'https://acme.test/.well-known/security.txt' },
+      { kind: 'robots.txt', url: 'https://acme.test/robots.txt' },
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * End-of-life catalog tests: detected versions matched to release lines at a fixed date
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EolCatalog, EndOfLife } from '../src/lib/eol-catalog.js';
+
+const NOW = new Date('2025-06-01');
+
+const catalog = new EolCatalog({
+  technologies: {
+    PHP: [
+      { cycle: '8.3', eol: '2027-12-31' },
+      { cycle: '8.0', eol: '2023-11-26' },
+      { cycle: '7.4', eol: '2022-11-28' },
+    ],
+    jQuery: [
+      { cycle: '3', eol: false },
+      { cycle: '2', eol: true },
+      { cycle: '2.2', eol: false },
+      { cycle: '1', eol: true },
+    ],
+  },
+});
+
+// [technology, version, end of life reached]
+const VERSIONS: Array<[string, string, EndOfLife | undefined]> = [
+  ['PHP', '7.4.33', { cycle: '7.4', eol: '2022-11-28' }],
+  ['PHP', '8.0', { cycle: '8.0', eol: '2023-11-26' }],
+  ['PHP', '8.3.7', undefined],             // Supported until 2027
+  ['PHP', '8.1.2', undefined],             // Newer than the oldest line, in none listed
+  ['PHP', '7.40.1', undefined],            // Not in 7.4
+  ['PHP', '5.6.40', { cycle: '<7.4', eol: '2022-11-28' }],
+  ['jQuery', '1.12.4', { cycle: '1' }],    // Ended on an unknown date
+  ['jQuery', '2.1.4', { cycle: '2' }],
+  ['jQuery', '2.2.4', undefined],          // The more specific line decides
+  ['jQuery', '3.7.1', undefined],
+  ['jQuery', 'latest', undefined],
+  ['React', '16.14.0', undefined],         // Not in the catalog
+];
+
+describe('EolCatalog.check', () => {
+  for (const [name, version, expected] of VERSIONS) {
+    it(`checks ${name} ${version}`, () => {
+      assert.deepEqual(catalog.check(name, version, NOW), expected);
+    });
+  }
+
+  it('reports an end of life only once its date has passed', () => {
+    assert.equal(catalog.check('PHP', '8.0.30', new Date('2023-11-25')), undefined);
+    assert.deepEqual(catalog.check('PHP', '8.0.30', new Date('2023-11-26')), { cycle: '8.0', eol: '2023-11-26' });
+  });
+});
+
+describe('EolCatalog', () => {
+  it('loads the built-in catalog', () => {
+    assert.ok(EolCatalog.load() instanceof EolCatalog);
+  });
+
+  it('rejects malformed catalogs', () => {
+    assert.throws(() => new EolCatalog({ technologies: [] as never }), /must have a "technologies" object/);
+    assert.throws(() => new EolCatalog({ technologies: { PHP: [{ cycle: 'v7', eol: true }] } }), /EOL catalog entry for PHP/);
+    assert.throws(() => new EolCatalog({ technologies: { PHP: [{ cycle: '7.4', eol: 1 as never }] } }), /EOL catalog entry for PHP/);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Fingerprint tests: the rules in test/fixtures/fingerprints matched against hand-built page signals,
+ * plus a few pages through the built-in rules
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { FingerprintDatabase, FingerprintFile } from '../src/lib/fingerprints.js';
+
+const FIXTURES = new URL('./fixtures/fingerprints/', import.meta.url);
+const PAGE_URL = 'https://acme.test/';
+
+function fixture(name: string): FingerprintFile {
+  return JSON.parse(fs.readFileSync(new URL(name, FIXTURES), 'utf-8'));
+}
+
+const database = new FingerprintDatabase([{ file: fixture('technologies.json'), where: 'technologies.json' }]);
+
+describe('FingerprintDatabase.analyze', () => {
+  it('takes the most specific version any pattern captures', () => {
+    const matches = database.analyze({
+      url: PAGE_URL,
+      html: '<div id="acme-root" data-acme-version="2.1"></div><script src="https://cdn.acme.dev/acme-2.1.4.min.js"></script>',
+    });
+    assert.deepEqual(matches.find(match => match.name === 'Acme Framework'), {
+      name: 'Acme Framework', category: 'Frontend Framework', confidence: 100, version: '2.1.4',
+    });
+  });
+
+  it('adds up the confidence of every matching pattern, up to 100', () => {
+    const confidence = (html: string) => database.analyze({ url: PAGE_URL, html }).find(match => match.name === 'Acme Framework')?.confidence;
+    assert.equal(confidence('<div id="acme-root"></div>'), 30);
+    assert.equal(confidence('<div id="acme-root"></div><script src="https://cdn.acme.dev/app.js"></script>'), 70);
+    assert.equal(confidence('<div id="acme-root" data-acme-version="2.1"></div><script src="https://cdn.acme.dev/app.js"></script>'), 100);
+  });
+
+  it('adds implied technologies at the implication\'s share of the confidence, and drops excluded ones', () => {
+    assert.deepEqual(database.analyze({ url: PAGE_URL, html: '<div id="acme-root"></div>' }), [
+      { name: 'Acme Framework', category: 'Frontend Framework', confidence: 30 },
+      // 50% of 30, then all of that through Acme Runtime; Legacy Acme matched too but is excluded
+      { name: 'Acme Cloud', category: 'Cloud Provider', confidence: 15 },
+      { name: 'Acme Runtime', category: 'Backend Framework', confidence: 15 },
+    ]);
+  });
+
+  it('matches headers, cookies by name pattern, meta tags and inline globals', () => {
+    const matches = database.analyze({
+      url: PAGE_URL,
+      html: '<meta name="cookie-shop" content="off"><script>window.CookieShop.track("view")</script>',
+      headers: { 'x-powered-by': 'AcmeRuntime/3.2' },
+    });
+    assert.deepEqual(matches, [
+      { name: 'Acme Cloud', category: 'Cloud Provider', confidence: 100 },
+      { name: 'Acme Runtime', category: 'Backend Framework', confidence: 100, version: '3.2' },
+      { name: 'Cookie Shop', category: 'Analytics', confidence: 60 },
+    ]);
+
+    const cookies = database.analyze({ url: PAGE_URL, html: '', cookies: { _cs_session: 'abc', _cs: 'x' } });
+    assert.deepEqual(cookies, [{ name: 'Cookie Shop', category: 'Analytics', confidence: 100 }]);
+  });
+
+  it('matches the page URL and lines of well-known files', () => {
+    assert.deepEqual(database.analyze({ url: 'https://status.acme.test/', html: '' }).map(match => match.name), ['Pager']);
+    const robots = 'User-agent: *\nDisallow: /admin\nSitemap: https://acme.pager.io/sitemap.xml';
+    assert.deepEqual(database.analyze({ url: PAGE_URL, html: '', files: { '/robots.txt': robots } }).map(match => match.name), ['Pager']);
+    assert.deepEqual(database.analyze({ url: PAGE_URL, html: '', files: { '/humans.txt': robots } }), []);
+  });
+});
+
+describe('FingerprintDatabase.vendorOf', () => {
+  it('names the vendor of a host by its most specific listed domain', () => {
+    assert.deepEqual(database.vendorOf('js.cdn.pager.io'), { name: 'Pager', category: 'Status Page' });
+    assert.deepEqual(database.vendorOf('eu.acmecloud.net.'), { name: 'Acme Cloud', category: 'Cloud Provider' });
+    assert.equal(database.vendorOf('acmecloud.network'), undefined);
+  });
+});
+
+describe('FingerprintDatabase.load', () => {
+  it('adds the files at FINGERPRINTS_PATH in name order over the built-in rules', () => {
+    const builtIn = FingerprintDatabase.load(undefined);
+    const loaded = FingerprintDatabase.load(fileURLToPath(FIXTURES));
+    assert.equal(loaded.size, builtIn.size + Object.keys(fixture('technologies.json').technologies).length);
+
+    // x-overrides.json replaces the Legacy Acme rule from technologies.json
+    const names = loaded.analyze({ url: PAGE_URL, html: '<script src="/legacy-acme.js"></script>' }).map(match => match.name);
+    assert.ok(names.includes('Legacy Acme'));
+  });
+
+  it('rejects rules without a category and invalid patterns', () => {
+    const load = (technologies: unknown) => new FingerprintDatabase([{ file: { technologies } as FingerprintFile, where: 'test.json' }]);
+    assert.throws(() => load({ Broken: { html: ['x'] } }), /Broken in test\.json needs a category/);
+    assert.throws(() => load({ Broken: { category: 'CMS', html: ['('] } }), /Invalid pattern for Broken in test\.json/);
+    assert.throws(() => load({ Broken: { category: 'CMS', domains: ['not a domain'] } }), /Invalid domain for Broken/);
+  });
+
+  it('recognises a Next.js page with the built-in rules', () => {
+    const matches = FingerprintDatabase.load(undefined).analyze({
+      url: PAGE_URL,
+      html: '<div id="__next"></div><script id="__NEXT_DATA__" type="application/json">{}</script>',
+      headers: { 'x-powered-by': 'Next.js', server: 'nginx/1.18.0' },
+    });
+    const names = matches.map(match => match.name);
+    assert.ok(names.includes('Next.js'));
+    assert.ok(names.includes('React'), 'implied by Next.js');
+    assert.equal(matches.find(match => match.name === 'Nginx')?.version, '1.18.0');
+  });
+});
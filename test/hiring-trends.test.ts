@@ -0,0 +1,109 @@
+/**
+ * Hiring trends tests: postings compared with earlier snapshots at a fixed clock
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeHiringTrends, estimateHiringVelocity } from '../src/lib/hiring-trends.js';
+import type { JobSnapshot, SnapshotPosting } from '../src/lib/result-store.js';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS);
+
+function posting(key: string, department = 'Engineering', postedDaysAgo?: number): SnapshotPosting {
+  return { key, title: `Role ${key}`, department, postedAt: postedDaysAgo === undefined ? undefined : daysAgo(postedDaysAgo) };
+}
+
+function snapshot(id: number, observedDaysAgo: number, postings: SnapshotPosting[]): JobSnapshot {
+  return { id, observedAt: daysAgo(observedDaysAgo), postings };
+}
+
+// `count` undated postings in one department
+function postings(count: number, prefix = 'p'): SnapshotPosting[] {
+  return Array.from({ length: count }, (_, i) => posting(`${prefix}${i}`));
+}
+
+describe('computeHiringTrends', () => {
+  it('has no trends on a company\'s first run', () => {
+    assert.equal(computeHiringTrends(postings(3), [], NOW), undefined);
+  });
+
+  it('compares with the previous run and the latest run at least 30, 60 and 90 days old', () => {
+    const [a, b, c] = [posting('a'), posting('b'), posting('c')];
+    const d = posting('d', 'Sales');
+    const e = posting('e');
+    const snapshots = [
+      snapshot(1, 95, [a, b, c]),
+      snapshot(2, 40, [a, b, c, d]),
+      snapshot(3, 5, [a, d, e]),
+    ];
+    const current = [a, e, posting('f', 'Engineering', 2), posting('g')];
+
+    const trends = computeHiringTrends(current, snapshots, NOW)!;
+
+    assert.deepEqual(trends.previousSnapshotAt, daysAgo(5));
+    assert.equal(trends.snapshots, 3);
+    assert.equal(trends.newPostings, 2);
+    assert.deepEqual(trends.newPostingTitles, ['Role f', 'Role g']);
+    assert.equal(trends.closedPostings, 1);
+    assert.deepEqual(trends.closedPostingTitles, ['Role d']);
+    // a first seen 95 days ago, e 5 days ago, f posted 2 days ago; g has no known start
+    assert.equal(trends.averageDaysOpen, 34);
+    assert.deepEqual(trends.netChange, [
+      { days: 30, since: daysAgo(40), total: 0, byDepartment: { Engineering: 1, Sales: -1 } },
+      { days: 60, since: daysAgo(95), total: 1, byDepartment: { Engineering: 1 } },
+      { days: 90, since: daysAgo(95), total: 1, byDepartment: { Engineering: 1 } },
+    ]);
+    assert.equal(trends.signal, 'steady');
+  });
+
+  it('takes the signal from the 30-day window when there is one', () => {
+    const snapshots = [snapshot(1, 45, postings(10)), snapshot(2, 3, postings(14))];
+    const trends = computeHiringTrends(postings(14), snapshots, NOW)!;
+    assert.equal(trends.netChange[0].total, 4);
+    assert.equal(trends.signal, 'surge');
+  });
+
+  // [postings in the previous run, postings now, signal]
+  const SIGNALS: Array<[number, number, string]> = [
+    [10, 13, 'surge'],  // +3 and +30%
+    [10, 12, 'steady'], // Too few new postings
+    [20, 23, 'steady'], // Under 20% growth
+    [0, 3, 'surge'],
+    [10, 7, 'freeze'],  // -30%
+    [10, 8, 'steady'],
+    [3, 2, 'freeze'],
+    [2, 0, 'steady'],   // Too few postings to call a freeze
+  ];
+  for (const [before, now, expected] of SIGNALS) {
+    it(`reads ${before} → ${now} postings as ${expected}`, () => {
+      const trends = computeHiringTrends(postings(now, 'now'), [snapshot(1, 10, postings(before, 'before'))], NOW)!;
+      assert.deepEqual(trends.netChange, []);
+      assert.equal(trends.signal, expected);
+    });
+  }
+});
+
+describe('estimateHiringVelocity', () => {
+  it('counts dated postings on a first run and leaves undated ones out', () => {
+    assert.equal(estimateHiringVelocity([posting('a'), posting('b', 'Sales', 5), posting('c', 'Sales', 45)], [], NOW), 1);
+    assert.equal(estimateHiringVelocity(postings(3), [], NOW), undefined);
+  });
+
+  it('dates undated postings by the run they first appeared in', () => {
+    const snapshots = [
+      snapshot(1, 60, [posting('a'), posting('b')]),
+      snapshot(2, 10, [posting('a'), posting('b'), posting('c')]),
+    ];
+    const current = [
+      posting('a'),                    // Open since the first run: no known start
+      posting('c'),                    // First seen 10 days ago
+      posting('d'),                    // New since the last run
+      posting('e', 'Engineering', 40), // Posted before the window
+      posting('f', 'Engineering', 3),
+    ];
+    assert.equal(estimateHiringVelocity(current, snapshots, NOW), 3);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Job normalizer tests: published pay ranges parsed into min, max, currency and period
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSalary } from '../src/lib/job-normalizer.js';
+import { SalaryRange } from '../src/types/enrichment.js';
+
+const SALARIES: Array<[string, SalaryRange | undefined]> = [
+  ['$150K – $190K', { min: 150000, max: 190000, currency: 'USD', period: 'year' }],
+  ['€60.000–€75.000 per year', { min: 60000, max: 75000, currency: 'EUR', period: 'year' }],
+  ['USD 120,000 - 150,000', { min: 120000, max: 150000, currency: 'USD', period: 'year' }],
+  ['CHF 120 000', { min: 120000, max: 120000, currency: 'CHF', period: 'year' }],
+  ['£45k to £55k a year', { min: 45000, max: 55000, currency: 'GBP', period: 'year' }],
+  // A suffix on the upper bound applies to both
+  ['150-190k USD', { min: 150000, max: 190000, currency: 'USD', period: 'year' }],
+  ['$1.5k per month', { min: 1500, max: 1500, currency: 'USD', period: 'month' }],
+  ['$1.5M', { min: 1500000, max: 1500000, currency: 'USD', period: 'year' }],
+  ['$1M - $1.5M', { min: 1000000, max: 1500000, currency: 'USD', period: 'year' }],
+  ['€2,5M', { min: 2500000, max: 2500000, currency: 'EUR', period: 'year' }],
+  // Small figures without a period are hourly; "mo" isn't read as millions
+  ['$25 - $35', { min: 25, max: 35, currency: 'USD', period: 'hour' }],
+  ['$45.50 - $60/hr', { min: 45.5, max: 60, currency: 'USD', period: 'hour' }],
+  ['$5 mo', { min: 5, max: 5, currency: 'USD', period: 'month' }],
+  ['Competitive', undefined],
+  ['150,000 - 190,000', undefined],
+];
+
+describe('parseSalary', () => {
+  for (const [text, expected] of SALARIES) {
+    it(`parses ${JSON.stringify(text)}`, () => {
+      assert.deepEqual(parseSalary(text), expected);
+    });
+  }
+});
@@ -0,0 +1,303 @@
+/**
+ * Job scraper tests: each ATS board response in test/fixtures/ats is served to the scraper through
+ * a stubbed fetch, and the normalized postings are checked field by field
+ */
+
+import { describe, it, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { JobScraper, JobPosting } from '../src/lib/job-scraper.js';
+import { responseCache } from '../src/lib/response-cache.js';
+import { rateLimiter } from '../src/lib/rate-limiter.js';
+
+const DOMAIN = 'acme.test';
+const CAREERS_URL = `https://${DOMAIN}/careers`;
+
+interface StubRequest {
+  url: string;
+  method: string;
+  body?: string;
+}
+
+const requests: StubRequest[] = [];
+const realFetch = globalThis.fetch;
+
+function fixture(name: string): string {
+  return fs.readFileSync(new URL(`./fixtures/ats/${name}`, import.meta.url), 'utf-8');
+}
+
+/**
+ * Serve a careers page linking to `boardLink`, and each of `routes` (URL → body); everything else is a 404
+ */
+function serve(boardLink: string, routes: Record<string, string>): void {
+  globalThis.fetch = (async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = String(input);
+    requests.push({ url, method: init.method || 'GET', body: typeof init.body === 'string' ? init.body : undefined });
+    if (url === CAREERS_URL) return new Response(`<html><body><a href="${boardLink}">Open roles</a></body></html>`);
+    if (url in routes) return new Response(routes[url]);
+    return new Response('Not found', { status: 404 });
+  }) as typeof fetch;
+}
+
+// Locations without the keys the parser leaves undefined
+function places(job: JobPosting): unknown {
+  return JSON.parse(JSON.stringify(job.locations));
+}
+
+async function scrape(): Promise<JobPosting[]> {
+  const { jobListings } = await new JobScraper({ deepFetch: false }).scrapeJobs(DOMAIN, 'Acme');
+  return jobListings;
+}
+
+before(() => responseCache.configure({ enabled: false }));
+after(() => {
+  globalThis.fetch = realFetch;
+});
+beforeEach(() => {
+  requests.length = 0;
+  mock.method(console, 'log', () => {});
+});
+
+describe('Ashby', () => {
+  it('normalizes job board API jobs, one posting per id', async () => {
+    serve('https://jobs.ashbyhq.com/acme', {
+      'https://api.ashbyhq.com/posting-api/job-board/acme?includeCompensation=true': fixture('ashby.json'),
+    });
+    const jobs = await scrape();
+
+    // The same title in two places stays two postings; unlisted jobs are left out
+    assert.deepEqual(jobs.map(job => job.location), ['San Francisco, New York', 'London', 'Remote']);
+    const [sf, london, support] = jobs;
+
+    assert.equal(sf.title, 'Software Engineer, Platform');
+    assert.equal(sf.department, 'Engineering');
+    assert.deepEqual(sf.departmentPath, ['Engineering', 'Infrastructure']);
+    assert.deepEqual(places(sf), [
+      { city: 'San Francisco', region: 'CA', country: 'US', metro: 'San Francisco Bay Area' },
+      { city: 'New York', region: 'NY', country: 'US', metro: 'New York City' },
+    ]);
+    assert.deepEqual(sf.postedDate, new Date('2024-05-09T17:25:41.512+00:00'));
+    assert.equal(sf.url, 'https://jobs.ashbyhq.com/acme/4f2a9c1e-6b7d-4e3a-9a51-0c8d2e7f1b36');
+    assert.equal(sf.source, 'ashby');
+    assert.equal(sf.externalId, '4f2a9c1e-6b7d-4e3a-9a51-0c8d2e7f1b36');
+    assert.equal(sf.employmentType, 'full_time');
+    assert.equal(sf.description, 'Build the platform in Rust and TypeScript.\nRun it on AWS');
+    assert.deepEqual(sf.requiredSkills, ['Rust', 'TypeScript', 'AWS']);
+    assert.equal(sf.salary, '$160K - $200K');
+    assert.deepEqual(sf.salaryRange, { min: 160000, max: 200000, currency: 'USD', period: 'year' });
+
+    assert.equal(london.url, 'https://jobs.ashbyhq.com/acme/9b3e7d20-1c4f-4a8b-b6e2-5d9f0a1c2e47');
+    assert.equal(london.salary, undefined);
+
+    // An empty department falls back to the team
+    assert.equal(support.department, 'Support');
+    assert.equal(support.workMode, 'remote');
+    assert.equal(support.employmentType, 'contract');
+  });
+});
+
+describe('Workable', () => {
+  it('normalizes widget API jobs', async () => {
+    serve('https://apply.workable.com/acme/', {
+      'https://apply.workable.com/api/v1/widget/accounts/acme?details=true': fixture('workable.json'),
+    });
+    const [backend, success] = await scrape();
+
+    assert.equal(backend.title, 'Senior Backend Engineer');
+    assert.equal(backend.department, 'Engineering');
+    assert.deepEqual(backend.departmentPath, ['Engineering', 'Backend']);
+    assert.equal(backend.location, 'Berlin, Berlin, Germany');
+    assert.deepEqual(places(backend), [{ city: 'Berlin', country: 'DE', metro: 'Berlin' }]);
+    assert.equal(backend.workMode, 'onsite');
+    assert.equal(backend.remote, false);
+    assert.deepEqual(backend.postedDate, new Date('2024-05-02'));
+    assert.equal(backend.url, 'https://apply.workable.com/j/A1B2C3D4E5');
+    assert.equal(backend.source, 'workable');
+    assert.equal(backend.externalId, 'A1B2C3D4E5');
+    assert.equal(backend.employmentType, 'full_time');
+    assert.equal(backend.seniority, 'senior');
+    assert.equal(backend.description, 'We build our platform in Go and TypeScript on Kubernetes.\nOwn services backed by PostgreSQL & Redis');
+    assert.deepEqual(backend.requiredSkills, ['Go', 'TypeScript', 'Kubernetes', 'PostgreSQL', 'Redis']);
+
+    // No department, no posting URL, remote only by the telecommuting flag
+    assert.equal(success.department, 'Other');
+    assert.equal(success.url, 'https://apply.workable.com/acme/j/F6G7H8J9K0/');
+    assert.equal(success.location, 'United Kingdom');
+    assert.equal(success.workMode, 'remote');
+    assert.equal(success.remote, true);
+    assert.equal(success.employmentType, 'part_time');
+  });
+});
+
+describe('SmartRecruiters', () => {
+  it('normalizes posting API results', async () => {
+    serve('https://careers.smartrecruiters.com/AcmeCorp', {
+      'https://api.smartrecruiters.com/v1/companies/AcmeCorp/postings?limit=100&offset=0': fixture('smartrecruiters.json'),
+    });
+    const [data, sales] = await scrape();
+
+    assert.equal(data.title, 'Data Engineer (Python, Spark)');
+    assert.equal(data.department, 'Data');
+    assert.deepEqual(data.departmentPath, ['Data', 'Data Engineering']);
+    assert.equal(data.location, 'Toronto, ON, Canada');
+    assert.deepEqual(places(data), [{ city: 'Toronto', region: 'ON', country: 'CA', metro: 'Toronto' }]);
+    assert.equal(data.workMode, 'onsite');
+    assert.deepEqual(data.postedDate, new Date('2024-05-10T09:14:33.000Z'));
+    assert.equal(data.url, 'https://jobs.smartrecruiters.com/AcmeCorp/744000012345678');
+    assert.equal(data.source, 'smartrecruiters');
+    assert.equal(data.externalId, '744000012345678');
+    assert.equal(data.employmentType, 'full_time');
+    // The list endpoint has no descriptions, so skills come from the title
+    assert.equal(data.description, '');
+    assert.deepEqual(data.requiredSkills, ['Python', 'Spark']);
+
+    // Department falls back to the function; location is built from its parts without fullLocation
+    assert.equal(sales.department, 'Sales');
+    assert.equal(sales.location, 'Austin, TX, US');
+    assert.equal(sales.workMode, 'remote');
+    assert.equal(sales.remote, true);
+    assert.equal(sales.employmentType, 'contract');
+  });
+});
+
+describe('Recruitee', () => {
+  it('normalizes offers API results', async () => {
+    serve('https://acme.recruitee.com/', {
+      'https://acme.recruitee.com/api/offers/': fixture('recruitee.json'),
+    });
+    const [designer, student] = await scrape();
+
+    assert.equal(designer.title, 'Product Designer');
+    assert.equal(designer.department, 'Design');
+    assert.deepEqual(designer.departmentPath, ['Design']);
+    assert.equal(designer.location, 'Amsterdam, Netherlands');
+    assert.deepEqual(places(designer), [{ city: 'Amsterdam', country: 'NL', metro: 'Amsterdam' }]);
+    assert.equal(designer.workMode, 'onsite');
+    assert.deepEqual(designer.postedDate, new Date('2024-05-06T08:30:00.000Z'));
+    assert.deepEqual(designer.updatedAt, new Date('2024-05-07T10:00:00.000Z'));
+    assert.equal(designer.url, 'https://acme.recruitee.com/o/product-designer');
+    assert.equal(designer.source, 'recruitee');
+    assert.equal(designer.externalId, '1523456');
+    assert.equal(designer.employmentType, 'full_time');
+    // Description and requirements are combined
+    assert.equal(designer.description, 'Shape how teams use Acme every day.\nPrototyping in React is a plus\nComfortable with SQL');
+    assert.deepEqual(designer.requiredSkills, ['React', 'SQL']);
+
+    // Unpublished date falls back to creation; null department is "Other"
+    assert.deepEqual(student.postedDate, new Date('2024-04-20T09:00:00.000Z'));
+    assert.equal(student.department, 'Other');
+    assert.deepEqual(student.departmentPath, ['Marketing']);
+    assert.equal(student.workMode, 'remote');
+    assert.equal(student.employmentType, 'internship');
+    assert.equal(student.seniority, 'intern');
+  });
+});
+
+describe('Personio', () => {
+  it('normalizes XML feed positions', async () => {
+    serve('https://acme.jobs.personio.de/', {
+      'https://acme.jobs.personio.de/xml?language=en': fixture('personio.xml'),
+    });
+    const [frontend, recruiter] = await scrape();
+
+    assert.equal(frontend.title, 'Frontend Developer (m/w/d)');
+    assert.equal(frontend.department, 'Engineering');
+    assert.deepEqual(frontend.departmentPath, ['Engineering', 'Frontend']);
+    assert.equal(frontend.office, 'Munich');
+    assert.equal(frontend.location, 'Munich, Hamburg');
+    assert.deepEqual(places(frontend), [
+      { city: 'Munich', country: 'DE', metro: 'Munich' },
+      { city: 'Hamburg', country: 'DE', metro: 'Hamburg' },
+    ]);
+    assert.equal(frontend.workMode, 'onsite');
+    assert.deepEqual(frontend.postedDate, new Date('2024-05-08T11:20:04+00:00'));
+    assert.equal(frontend.url, 'https://acme.jobs.personio.de/job/1288340');
+    assert.equal(frontend.source, 'personio');
+    assert.equal(frontend.externalId, '1288340');
+    assert.equal(frontend.employmentType, 'full_time');
+    // Section names head their text; the section <name> doesn't replace the title
+    assert.equal(frontend.description, 'Your tasks\nBuild features in Vue and TypeScript\nYour profile\nExperience with GraphQL & CI/CD');
+    assert.deepEqual(frontend.requiredSkills, ['Vue', 'TypeScript', 'GraphQL', 'CI/CD']);
+
+    // Entities in the department are decoded; the schedule makes a permanent role part-time
+    assert.equal(recruiter.title, 'Recruiter');
+    assert.equal(recruiter.department, 'People & Culture');
+    assert.equal(recruiter.workMode, 'remote');
+    assert.equal(recruiter.employmentType, 'part_time');
+  });
+});
+
+describe('Workday', () => {
+  it('normalizes CXS search results', async () => {
+    serve('https://acme.wd5.myworkdayjobs.com/en-US/External', {
+      'https://acme.wd5.myworkdayjobs.com/wday/cxs/acme/External/jobs': fixture('workday.json'),
+    });
+    const before = Date.now();
+    const [sre, account] = await scrape();
+
+    const search = requests.find(r => r.url.endsWith('/wday/cxs/acme/External/jobs'));
+    assert.equal(search?.method, 'POST');
+    assert.deepEqual(JSON.parse(search?.body || '{}'), { appliedFacets: {}, limit: 20, offset: 0, searchText: '' });
+
+    assert.equal(sre.title, 'Staff Site Reliability Engineer - AWS');
+    // Search results carry no department; the taxonomy classifies by title
+    assert.equal(sre.department, 'Other');
+    assert.deepEqual(sre.departmentPath, ['Engineering', 'Infrastructure']);
+    assert.equal(sre.location, 'Seattle, WA');
+    assert.deepEqual(places(sre), [{ city: 'Seattle', region: 'WA', country: 'US', metro: 'Seattle' }]);
+    assert.equal(sre.workMode, 'onsite');
+    assert.equal(sre.url, 'https://acme.wd5.myworkdayjobs.com/External/job/Seattle-WA/Staff-Site-Reliability-Engineer---AWS_R-102938');
+    assert.equal(sre.source, 'workday');
+    assert.equal(sre.externalId, 'R-102938');
+    assert.equal(sre.seniority, 'staff');
+    assert.equal(sre.description, '');
+    assert.deepEqual(sre.requiredSkills, ['AWS']);
+    // "Posted 3 Days Ago"
+    const days = (before - sre.postedDate!.getTime()) / (24 * 60 * 60 * 1000);
+    assert.ok(Math.abs(days - 3) < 0.01, `posted ${days} days ago`);
+
+    assert.equal(account.workMode, 'remote');
+    assert.deepEqual(account.remoteRegions, ['US']);
+    assert.deepEqual(places(account), []);
+    assert.ok(Math.abs(before - account.postedDate!.getTime()) < 60 * 1000);
+  });
+});
+
+describe('Deep fetch', () => {
+  it('fetches the first 100 posting pages a few at a time and splits every description', async () => {
+    const jobs = Array.from({ length: 105 }, (_, i) => ({
+      title: `Data Engineer ${i + 1}`,
+      shortcode: `J${i + 1}`,
+      employment_type: 'Full-time',
+      telecommuting: true,
+      department: 'Engineering',
+      url: `https://apply.workable.com/j/J${i + 1}`,
+      published_on: '2024-05-02',
+      country: 'Germany',
+      locations: [],
+      description: '<h3>Requirements</h3><ul><li>Experience with Python</li></ul>',
+    }));
+    serve('https://apply.workable.com/acme/', {
+      'https://apply.workable.com/api/v1/widget/accounts/acme?details=true': JSON.stringify({ name: 'Acme', jobs }),
+    });
+    // Two at a time like the default host limit, without its spacing between requests
+    rateLimiter.configure('host:apply.workable.com', { maxConcurrent: 2 });
+    const boardFetch = globalThis.fetch;
+    let maxQueued = 0;
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      if (String(input).includes('/j/')) maxQueued = Math.max(maxQueued, rateLimiter.queued('host:apply.workable.com'));
+      return boardFetch(input, init);
+    }) as typeof fetch;
+
+    const { jobListings } = await new JobScraper({ deepFetch: true }).scrapeJobs(DOMAIN, 'Acme');
+
+    assert.equal(requests.filter(r => r.url.includes('/j/')).length, 100);
+    // Fetches wait in the scraper, not all at once in the host's rate limit queue
+    assert.ok(maxQueued <= 2, `${maxQueued} fetches queued`);
+    assert.equal(jobListings.length, 105);
+    for (const job of jobListings) {
+      assert.deepEqual(job.requirements, ['Experience with Python']);
+      assert.deepEqual(job.requiredSkills, ['Python']);
+    }
+  });
+});
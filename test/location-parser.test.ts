@@ -0,0 +1,40 @@
+/**
+ * Location parser tests: free-text board locations resolved against the offline gazetteer
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLocation, ParsedLocation } from '../src/lib/location-parser.js';
+
+const SF = { city: 'San Francisco', region: 'CA', country: 'US', metro: 'San Francisco Bay Area' };
+const NYC = { city: 'New York', region: 'NY', country: 'US', metro: 'New York City' };
+
+const LOCATIONS: Array<[string, ParsedLocation]> = [
+  ['SF / NYC / Remote (US)', { locations: [SF, NYC], workMode: 'remote', remoteRegions: ['US'] }],
+  ['San Francisco, CA', { locations: [SF], workMode: 'onsite', remoteRegions: [] }],
+  ['USA-CA-San Francisco', { locations: [{ country: 'US', city: 'San Francisco', region: 'CA', metro: 'San Francisco Bay Area' }], workMode: 'onsite', remoteRegions: [] }],
+  // Not the gazetteer's first Portland
+  ['Portland, ME', { locations: [{ region: 'ME', country: 'US', city: 'Portland' }], workMode: 'onsite', remoteRegions: [] }],
+  ['Berlin (m/w/d)', { locations: [{ city: 'Berlin', country: 'DE', metro: 'Berlin' }], workMode: 'onsite', remoteRegions: [] }],
+  ['Hybrid - London', { locations: [{ city: 'London', country: 'GB', metro: 'London' }], workMode: 'hybrid', remoteRegions: [] }],
+  ['Remote - US or Canada', { locations: [], workMode: 'remote', remoteRegions: ['US', 'CA'] }],
+  ['Remote (EMEA)', { locations: [], workMode: 'remote', remoteRegions: ['EMEA'] }],
+];
+
+// Without the keys the parser leaves undefined
+function plain(parsed: ParsedLocation): unknown {
+  return JSON.parse(JSON.stringify(parsed));
+}
+
+describe('parseLocation', () => {
+  for (const [text, expected] of LOCATIONS) {
+    it(`parses ${JSON.stringify(text)}`, () => {
+      assert.deepEqual(plain(parseLocation(text)), expected);
+    });
+  }
+
+  it('takes the work mode from the remote flag when there is no location', () => {
+    assert.deepEqual(parseLocation(''), { locations: [], workMode: undefined, remoteRegions: [] });
+    assert.deepEqual(parseLocation(undefined, true), { locations: [], workMode: 'remote', remoteRegions: [] });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Security header tests: which recommended headers a homepage sends, and how HSTS and CSP values are read
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeSecurityHeaders, parseContentSecurityPolicy } from '../src/lib/security-headers.js';
+
+describe('analyzeSecurityHeaders', () => {
+  it('reads every recommended header a hardened site sends', () => {
+    const headers = analyzeSecurityHeaders({
+      'strict-transport-security': 'max-age=63072000; includeSubDomains; preload',
+      'content-security-policy': "default-src 'self'; script-src 'self' https://js.stripe.com",
+      'x-frame-options': 'DENY',
+      'x-content-type-options': 'nosniff',
+      'referrer-policy': 'strict-origin-when-cross-origin',
+      'permissions-policy': 'camera=()',
+    });
+
+    assert.deepEqual(headers, {
+      hsts: { maxAge: 63072000, includeSubDomains: true, preload: true },
+      contentSecurityPolicy: {
+        reportOnly: false,
+        directives: { 'default-src': ["'self'"], 'script-src': ["'self'", 'https://js.stripe.com'] },
+      },
+      frameOptions: 'DENY',
+      contentTypeOptions: 'nosniff',
+      referrerPolicy: 'strict-origin-when-cross-origin',
+      permissionsPolicy: 'camera=()',
+      missing: [],
+    });
+  });
+
+  it('lists the recommended headers a site leaves out', () => {
+    assert.deepEqual(analyzeSecurityHeaders({ 'content-type': 'text/html' }), {
+      missing: ['strict-transport-security', 'content-security-policy', 'x-frame-options', 'x-content-type-options', 'referrer-policy'],
+    });
+  });
+
+  it('counts HSTS with max-age=0 as missing', () => {
+    const headers = analyzeSecurityHeaders({ 'strict-transport-security': 'max-age=0' });
+    assert.equal(headers.hsts, undefined);
+    assert.ok(headers.missing.includes('strict-transport-security'));
+  });
+
+  it('takes a report-only policy, whose frame-ancestors stands in for X-Frame-Options', () => {
+    const headers = analyzeSecurityHeaders({ 'content-security-policy-report-only': "frame-ancestors 'none'" });
+    assert.deepEqual(headers.contentSecurityPolicy, { reportOnly: true, directives: { 'frame-ancestors': ["'none'"] } });
+    assert.deepEqual(headers.missing, ['strict-transport-security', 'x-content-type-options', 'referrer-policy']);
+  });
+});
+
+describe('parseContentSecurityPolicy', () => {
+  it('combines the sources of policies sent in separate headers', () => {
+    assert.deepEqual(
+      parseContentSecurityPolicy("Script-Src 'self' cdn.example.com; img-src *, script-src 'self' js.stripe.com;"),
+      { 'script-src': ["'self'", 'cdn.example.com', 'js.stripe.com'], 'img-src': ['*'] },
+    );
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Third-party inventory tests: hosts from a saved homepage and its CSP header, named by the
+ * built-in fingerprint rules
+ */
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { FingerprintDatabase } from '../src/lib/fingerprints.js';
+import { buildThirdPartyInventory } from '../src/lib/third-party.js';
+import { TechDetector } from '../src/lib/tech-detector.js';
+
+const PAGE_URL = 'https://www.acme.test/';
+const HTML = fs.readFileSync(new URL('./fixtures/pages/homepage.html', import.meta.url), 'utf-8');
+
+const CSP = [
+  "default-src 'self'",
+  "script-src 'self' 'nonce-abc' https://js.stripe.com *.intercom.io https://www.googletagmanager.com:443/gtm.js",
+  'frame-src js.stripe.com',
+  'connect-src wss://*.intercom.io 10.0.0.1 https://api.acme.test',
+  'report-uri https://acme.report-uri.com/r',
+  'sandbox allow-scripts',
+  'upgrade-insecure-requests',
+].join('; ');
+
+const fingerprints = FingerprintDatabase.load(undefined);
+
+beforeEach(() => {
+  mock.method(console, 'log', () => {});
+});
+
+describe('buildThirdPartyInventory', () => {
+  it('lists every external host in the CSP and tags, known vendors first', () => {
+    const hosts = buildThirdPartyInventory({ url: PAGE_URL, html: HTML, headers: { 'content-security-policy': CSP } }, fingerprints);
+
+    // The site's own hosts, keywords, nonces, IP addresses, data: URLs and non-source directives are left out
+    assert.deepEqual(JSON.parse(JSON.stringify(hosts)), [
+      { host: 'fonts.googleapis.com', seenIn: ['link'], vendor: 'Google Fonts', category: 'Fonts' },
+      { host: 'www.googletagmanager.com', seenIn: ['csp'], vendor: 'Google Tag Manager', category: 'Analytics', directives: ['script-src'] },
+      { host: '*.intercom.io', seenIn: ['csp'], vendor: 'Intercom', category: 'Customer Support', directives: ['script-src', 'connect-src'] },
+      { host: 'js.stripe.com', seenIn: ['csp', 'script'], vendor: 'Stripe', category: 'Payment Processor', directives: ['script-src', 'frame-src'] },
+      { host: '*.example-cdn.net', seenIn: ['csp'], directives: ['img-src'] },
+      { host: 'acme.report-uri.com', seenIn: ['csp'], directives: ['report-uri'] },
+      { host: 'images.example-cdn.net', seenIn: ['img'] },
+    ]);
+  });
+
+  it('reads a report-only policy', () => {
+    const hosts = buildThirdPartyInventory({
+      url: PAGE_URL,
+      html: '',
+      headers: { 'content-security-policy-report-only': 'script-src https://cdn.segment.com' },
+    }, fingerprints);
+    assert.deepEqual(hosts.map(({ host, vendor }) => ({ host, vendor })), [{ host: 'cdn.segment.com', vendor: 'Segment' }]);
+  });
+
+  it('counts every host as third-party without a page URL', () => {
+    const hosts = buildThirdPartyInventory({ url: '', html: '<script src="https://cdn.acme.test/bundle.js"></script>' }, fingerprints);
+    assert.deepEqual(hosts.map(host => host.host), ['cdn.acme.test']);
+  });
+});
+
+describe('TechDetector third-party hosts', () => {
+  it('inventories third-party hosts only when the homepage was fetched', async () => {
+    const detector = new TechDetector(fingerprints);
+    const fetched = await detector.detectTechStack(HTML, PAGE_URL, { headers: { 'content-security-policy': CSP } });
+    assert.equal(fetched.thirdPartyHosts?.length, 7);
+    assert.ok(fetched.paymentProcessors.some(tech => tech.name === 'Stripe'));
+
+    const dnsOnly = await detector.detectTechStack('', PAGE_URL, { dns: { MX: ['aspmx.l.google.com'] } });
+    assert.equal(dnsOnly.thirdPartyHosts, undefined);
+  });
+});